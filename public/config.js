@@ -0,0 +1,6 @@
+// Runtime configuration, loaded before the app bundle.
+// Edit this file on the deployed server to point the UI at another backend
+// without rebuilding, e.g.:
+//
+//   window.__APP_CONFIG__ = { apiBaseUrl: 'http://192.168.1.20:5000' };
+window.__APP_CONFIG__ = window.__APP_CONFIG__ || {};
@@ -1,144 +1,539 @@
 import React, { useState, useEffect, useRef } from 'react';
 import './App.css';
-
-interface DetectedObject {
-  label: string;
-  confidence: number;
-  bounding_box: [number, number, number, number];
-}
-
-interface AttentionStats {
-  mean: number;
-  max: number;
-  std: number;
-}
-
-interface ProcessingResult {
-  caption: string;
-  detected_objects: DetectedObject[];
-  guidance: string;
-  model_used: string;
-  fusion_enabled: boolean;
-  llm_description?: string;
-  attention_stats?: AttentionStats;
-}
-
-type ProcessingMode = 'basic' | 'gpt2' | 'gpt2-mini' | 'gpt2-fusion' | 'gpt2-mini-fusion';
-
-interface NavigationInstruction {
-  direction: 'left' | 'right' | 'forward' | 'stop';
-  priority: 'safe' | 'caution' | 'danger';
-  message: string;
-  reason: string;
-}
-
-const API_BASE_URL = 'http://localhost:5000';
+import { hotkeyLabel, matchHotkey } from './accessibility/hotkeys';
+import type { HotkeyAction } from './accessibility/hotkeys';
+import { DEFAULT_CUE_TTL_MS, planSonification, Sonifier } from './audio/sonifier';
+import type { SonificationSettings } from './audio/sonifier';
+import { BUILT_IN_MODES, describeMode, isBuiltInMode, loadModeCapabilities } from './api/capabilities';
+import { activeMockScenario, apiClient, ApiError } from './api/client';
+import { HealthMonitor, INITIAL_SERVER_HEALTH } from './api/healthMonitor';
+import type { ServerHealth } from './api/healthMonitor';
+import { ResponseValidationError } from './api/validation';
+import {
+  captureSnapshot,
+  captureVideoFrame,
+  isBrowserCameraSupported,
+  listVideoDevices,
+  openBrowserCamera,
+  stopMediaStream,
+} from './camera/browserCamera';
+import type { CameraSource, VideoDevice } from './camera/browserCamera';
+import { FpsMeter } from './camera/fpsMeter';
+import { FrameRenderer } from './camera/frameRenderer';
+import { startFrameTransport } from './camera/frameTransport';
+import type { FrameTransport, FrameTransportKind, FrameTransportPreference } from './camera/frameTransport';
+import { HapticFeedback } from './haptics/haptics';
+import type { HapticSettings } from './haptics/haptics';
+import { applyDocumentLocale, getTranslator, LOCALES } from './i18n/i18n';
+import type { Locale } from './i18n/i18n';
+import { generateNavigationInstructions } from './navigation/engine';
+import { drawNavigationOverlay } from './navigation/overlay';
+import { estimateProximity, formatDistance } from './navigation/proximity';
+import type { ProximitySettings } from './navigation/proximity';
+import type { NavigationRules } from './navigation/rules';
+import { appendSceneEvents, SceneDiffer } from './navigation/sceneDiff';
+import type { SceneEvent } from './navigation/sceneDiff';
+import { TargetSeeker } from './navigation/seek';
+import type { SeekSettings } from './navigation/seek';
+import { InstructionStabilizer } from './navigation/stabilizer';
+import type { StabilizerSettings } from './navigation/stabilizer';
+import { describeMotion, ObjectTracker } from './navigation/tracker';
+import type { Track } from './navigation/tracker';
+import type { ZoneLayout } from './navigation/zones';
+import { formatLatency, latestModeStats, loadBenchmarkRuns } from './benchmark/benchmark';
+import type { BenchmarkRun } from './benchmark/benchmark';
+import { blobToDataUrl, createDatasetItem, datasetStore } from './dataset/datasetStore';
+import { profileStore, toZoneLayout, toZoneSettings } from './profiles/profiles';
+import { AutoProcessScheduler, GuidanceWatchdog } from './scheduler/autoProcess';
+import type { AutoProcessSettings, AutoProcessStatus, FrameRunResult } from './scheduler/autoProcess';
+import { isSessionStorageSupported, SessionRecorder, sessionStore } from './session/sessionStore';
+import type { RecordedFrame, SessionInfo } from './session/sessionStore';
+import { SpeechQueue } from './speech/speechQueue';
+import type { SpeakOptions, SpeechSettings } from './speech/speechQueue';
+import AutoProcessPanel from './components/AutoProcessPanel';
+import BenchmarkPanel from './components/BenchmarkPanel';
+import DatasetPanel from './components/DatasetPanel';
+import GuidancePanel from './components/GuidancePanel';
+import HapticsPanel from './components/HapticsPanel';
+import HotkeyHelp from './components/HotkeyHelp';
+import NavigationPanel from './components/NavigationPanel';
+import ProfilesPanel from './components/ProfilesPanel';
+import SeekPanel from './components/SeekPanel';
+import ProximitySettingsPanel from './components/ProximitySettingsPanel';
+import SessionReplay from './components/SessionReplay';
+import SessionsPanel from './components/SessionsPanel';
+import SonificationPanel from './components/SonificationPanel';
+import SpeechSettingsPanel from './components/SpeechSettingsPanel';
+import StabilizerSettingsPanel from './components/StabilizerSettingsPanel';
+import ZoneLayoutSettings from './components/ZoneLayoutSettings';
+import type { DetectedObject, ModeCapability, NavigationInstruction, ProcessingMode, ProcessingResult } from './types';
+
+// Recent announcements kept in the live regions, so several sent in one render are all read
+const LIVE_MESSAGE_LIMIT = 5;
 
 const App: React.FC = () => {
-  const [cameraIndex, setCameraIndex] = useState<number>(1);
+  // The profile active at page load seeds every setting below; changes are saved back to it
+  const [initialSettings] = useState(() => profileStore.active().settings);
+  const [profiles, setProfiles] = useState(() => profileStore.list());
+  const [activeProfileId, setActiveProfileId] = useState<string>(() => profileStore.active().id);
+  const [cameraSource, setCameraSource] = useState<CameraSource>(initialSettings.camera.source);
+  const [cameraIndex, setCameraIndex] = useState<number>(initialSettings.camera.index);
+  const [videoDevices, setVideoDevices] = useState<VideoDevice[]>([]);
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string>(initialSettings.camera.deviceId);
   const [isCameraRunning, setIsCameraRunning] = useState<boolean>(false);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const [selectedMode, setSelectedMode] = useState<ProcessingMode>('gpt2-mini-fusion');
+  const [selectedMode, setSelectedMode] = useState<ProcessingMode>(initialSettings.mode);
+  const [modeCapabilities, setModeCapabilities] = useState<ModeCapability[]>(BUILT_IN_MODES);
+  const [modesFromServer, setModesFromServer] = useState<boolean>(false);
   const [result, setResult] = useState<ProcessingResult | null>(null);
+  // Index-aligned with result.detected_objects
+  const [tracks, setTracks] = useState<Track[]>([]);
   const [error, setError] = useState<string>('');
-  const [serverStatus, setServerStatus] = useState<'checking' | 'online' | 'offline'>('checking');
-  const [frameCount, setFrameCount] = useState<number>(0);
-  const [showDirections, setShowDirections] = useState<boolean>(true);
-  const [showBoundingBoxes, setShowBoundingBoxes] = useState<boolean>(true);
-  const [autoProcess, setAutoProcess] = useState<boolean>(false);
-  const [voiceEnabled, setVoiceEnabled] = useState<boolean>(false);
+  const [serverHealth, setServerHealth] = useState<ServerHealth>(INITIAL_SERVER_HEALTH);
+  const [transportPreference, setTransportPreference] = useState<FrameTransportPreference>(initialSettings.camera.transport);
+  const [activeTransport, setActiveTransport] = useState<FrameTransportKind | null>(null);
+  const [fps, setFps] = useState<number>(0);
+  const [showDirections, setShowDirections] = useState<boolean>(initialSettings.showDirections);
+  const [showBoundingBoxes, setShowBoundingBoxes] = useState<boolean>(initialSettings.showBoundingBoxes);
+  // Whether to auto-process while the camera runs; kept across camera restarts
+  const [autoProcess, setAutoProcess] = useState<boolean>(initialSettings.autoProcess);
+  const [autoProcessSettings, setAutoProcessSettings] = useState<AutoProcessSettings>(initialSettings.autoProcessSettings);
+  const [autoProcessStatus, setAutoProcessStatus] = useState<AutoProcessStatus | null>(null);
+  const [voiceEnabled, setVoiceEnabled] = useState<boolean>(initialSettings.voiceEnabled);
+  const [narrateChanges, setNarrateChanges] = useState<boolean>(initialSettings.narrateChanges);
   const [annotatedImage, setAnnotatedImage] = useState<string | null>(null);
   const [navigationInstructions, setNavigationInstructions] = useState<NavigationInstruction | null>(null);
+  const [zoneLayout, setZoneLayout] = useState<ZoneLayout>(() => toZoneLayout(initialSettings.zones));
+  const [proximitySettings, setProximitySettings] = useState<ProximitySettings>(initialSettings.proximity);
+  const [stabilizerSettings, setStabilizerSettings] = useState<StabilizerSettings>(initialSettings.stabilizer);
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(initialSettings.speech);
+  const [sonificationSettings, setSonificationSettings] = useState<SonificationSettings>(initialSettings.sonification);
+  const [hapticSettings, setHapticSettings] = useState<HapticSettings>(initialSettings.haptics);
+  const [navigationRules, setNavigationRules] = useState<NavigationRules>(initialSettings.rules);
+  const [seekTarget, setSeekTarget] = useState<string | null>(null);
+  const [seekSettings, setSeekSettings] = useState<SeekSettings>(initialSettings.seek);
+  // Newest first
+  const [sceneEvents, setSceneEvents] = useState<SceneEvent[]>([]);
+  const [showHelp, setShowHelp] = useState<boolean>(false);
+  const [recordingSession, setRecordingSession] = useState<SessionInfo | null>(null);
+  const [toolPanel, setToolPanel] = useState<'sessions' | 'dataset' | 'benchmark' | null>(null);
+  const [benchmarkRuns, setBenchmarkRuns] = useState<BenchmarkRun[]>(loadBenchmarkRuns);
+  const [datasetRevision, setDatasetRevision] = useState<number>(0);
+  const [replaySession, setReplaySession] = useState<SessionInfo | null>(null);
+  // Screen-reader announcements, oldest first; each gets a new `id` so repeating the same text is announced again
+  const [liveMessages, setLiveMessages] = useState<{ text: string; urgent: boolean; id: number }[]>([]);
+  const [guidanceStale, setGuidanceStale] = useState<boolean>(false);
+  const [locale, setLocale] = useState<Locale>(initialSettings.locale);
+
+  const i18n = getTranslator(locale);
+  const { t } = i18n;
+  const serverStatus = serverHealth.status;
+  const serverOnline = serverStatus === 'online';
 
   const imgRef = useRef<HTMLImageElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const mediaStreamRef = useRef<MediaStream | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const processIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const speechSynthRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const frameTransportRef = useRef<FrameTransport | null>(null);
+  const frameRendererRef = useRef<FrameRenderer | null>(null);
+  const fpsMeterRef = useRef(new FpsMeter());
+  const drawOverlayRef = useRef<() => void>(() => {});
+  const trackerRef = useRef(new ObjectTracker());
+  const stabilizerRef = useRef(new InstructionStabilizer(initialSettings.stabilizer));
+  const seekerRef = useRef(new TargetSeeker(initialSettings.seek));
+  const sceneDifferRef = useRef(new SceneDiffer());
+  const schedulerRef = useRef(new AutoProcessScheduler(initialSettings.autoProcessSettings));
+  const processFrameRef = useRef<(mode?: ProcessingMode) => Promise<FrameRunResult>>(async () => null);
+  const autoProcessStatusRef = useRef<(status: AutoProcessStatus) => void>(() => {});
+  // Guards against overlapping requests; state would lag a render behind
+  const inFlightRef = useRef(false);
+  const speechQueueRef = useRef(new SpeechQueue(initialSettings.speech));
+  const sonifierRef = useRef(new Sonifier(initialSettings.sonification));
+  const hapticsRef = useRef(new HapticFeedback(undefined, initialSettings.haptics));
+  const recorderRef = useRef(new SessionRecorder(sessionStore));
+  // The last processed frame at full resolution, for adding to the dataset
+  const lastFrameRef = useRef<{
+    image: Blob | ImageBitmap | null;
+    frame: { width: number; height: number };
+    objects: DetectedObject[];
+    mode: ProcessingMode;
+  } | null>(null);
+  const hotkeyHandlerRef = useRef<(action: HotkeyAction) => void>(() => {});
+  const cameraButtonRef = useRef<HTMLButtonElement>(null);
+  const modeCardRefs = useRef<Partial<Record<ProcessingMode, HTMLDivElement | null>>>({});
+  const healthHandlerRef = useRef<(health: ServerHealth, previous: ServerHealth) => void>(() => {});
+  const healthMonitorRef = useRef(new HealthMonitor(apiClient, (health, previous) => healthHandlerRef.current(health, previous)));
+  const watchdogRef = useRef(new GuidanceWatchdog());
+  const watchdogTickRef = useRef<() => void>(() => {});
+
+  // Heartbeat for the whole session; transitions go to the latest closure
+  useEffect(() => {
+    const monitor = healthMonitorRef.current;
+    monitor.start();
+    return () => monitor.stop();
+  }, []);
 
+  // Keep the device picker in sync with plugged/unplugged cameras
   useEffect(() => {
-    checkServerStatus();
-    // Initialize speech synthesis
-    if ('speechSynthesis' in window) {
-      speechSynthRef.current = new SpeechSynthesisUtterance();
-      speechSynthRef.current.rate = 0.9;
-      speechSynthRef.current.pitch = 1.0;
-      speechSynthRef.current.volume = 1.0;
+    if (cameraSource !== 'browser' || !navigator.mediaDevices) return;
+
+    refreshVideoDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshVideoDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshVideoDevices);
+  }, [cameraSource]);
+
+  // Attach the local stream once the <video> element has mounted
+  useEffect(() => {
+    if (isCameraRunning && cameraSource === 'browser' && videoRef.current) {
+      videoRef.current.srcObject = mediaStreamRef.current;
     }
+  }, [isCameraRunning, cameraSource]);
+
+  // Sample the measured frame rate once a second rather than re-rendering per frame
+  useEffect(() => {
+    if (!activeTransport) return;
+    const timer = setInterval(() => setFps(fpsMeterRef.current.fps()), 1000);
+    return () => clearInterval(timer);
+  }, [activeTransport]);
+
+  // Auto-process one frame at a time; the scheduler reaches the latest closures through refs.
+  // Paused while the server is unreachable and resumed when it is back.
+  useEffect(() => {
+    if (!autoProcess || !isCameraRunning || !serverOnline) return;
+    const scheduler = schedulerRef.current;
+    scheduler.start(
+      mode => processFrameRef.current(mode ?? undefined),
+      status => autoProcessStatusRef.current(status)
+    );
+    return () => scheduler.stop();
+  }, [autoProcess, isCameraRunning, serverOnline]);
+
+  // While auto-processing, make sure the user hears when guidance stops arriving
+  useEffect(() => {
+    if (!autoProcess || !isCameraRunning) return;
+    watchdogRef.current.reset();
+    const timer = setInterval(() => watchdogTickRef.current(), 1000);
+    return () => clearInterval(timer);
+  }, [autoProcess, isCameraRunning]);
+
+  // Global shortcuts; the handler is swapped every render so it never sees stale state
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const action = matchHotkey(event);
+      if (!action) return;
+      event.preventDefault();
+      hotkeyHandlerRef.current(action);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
   }, []);
 
-  // Auto-process functionality
+  // Page direction, the speech voice and the "Still clear" wording follow the chosen language
   useEffect(() => {
-    if (autoProcess && isCameraRunning) {
-      processIntervalRef.current = setInterval(() => {
-        processFrame();
-      }, 3000);
-    } else {
-      if (processIntervalRef.current) {
-        clearInterval(processIntervalRef.current);
-        processIntervalRef.current = null;
-      }
+    applyDocumentLocale(locale);
+    speechQueueRef.current.setLanguage(LOCALES[locale].speechLang);
+    stabilizerRef.current.setTranslator(getTranslator(locale));
+  }, [locale]);
+
+  // Every change lands in the active profile, so it survives a reload
+  useEffect(() => {
+    profileStore.save({
+      locale,
+      mode: selectedMode,
+      camera: { source: cameraSource, index: cameraIndex, deviceId: selectedDeviceId, transport: transportPreference },
+      showDirections,
+      showBoundingBoxes,
+      voiceEnabled,
+      narrateChanges,
+      autoProcess,
+      autoProcessSettings,
+      speech: speechSettings,
+      sonification: sonificationSettings,
+      haptics: hapticSettings,
+      stabilizer: stabilizerSettings,
+      proximity: proximitySettings,
+      zones: toZoneSettings(zoneLayout),
+      rules: navigationRules,
+      seek: seekSettings,
+    });
+  }, [
+    locale, selectedMode, cameraSource, cameraIndex, selectedDeviceId, transportPreference, showDirections,
+    showBoundingBoxes, voiceEnabled, narrateChanges, autoProcess, autoProcessSettings, speechSettings, sonificationSettings,
+    hapticSettings, stabilizerSettings, proximitySettings, zoneLayout, navigationRules, seekSettings,
+  ]);
+
+  // The start/stop button is swapped on toggle; don't leave keyboard focus on nothing
+  useEffect(() => {
+    if (!document.activeElement || document.activeElement === document.body) {
+      cameraButtonRef.current?.focus();
     }
+  }, [isCameraRunning]);
+
+  /**
+   * Tells the user something through every enabled channel: the screen reader
+   * live region always, speech when voice guidance is on. Status messages
+   * default to info priority, which is dropped while guidance is being spoken.
+   */
+  const pushLiveMessage = (text: string, urgent: boolean) =>
+    setLiveMessages(previous =>
+      [...previous, { text, urgent, id: (previous.at(-1)?.id ?? 0) + 1 }].slice(-LIVE_MESSAGE_LIMIT)
+    );
+
+  const announce = (text: string, options?: SpeakOptions) => {
+    pushLiveMessage(text, options?.priority === 'danger');
+    if (voiceEnabled) {
+      speechQueueRef.current.speak(text, options);
+    }
+  };
 
-    return () => {
-      if (processIntervalRef.current) {
-        clearInterval(processIntervalRef.current);
-      }
-    };
-  }, [autoProcess, isCameraRunning]);
+  const changeAutoProcess = (enabled: boolean) => {
+    setAutoProcess(enabled);
+    // Without new frames the cues would go on describing the last one
+    if (!enabled) sonifierRef.current.stop();
+  };
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    // The effect above runs after this announcement is queued
+    speechQueueRef.current.setLanguage(LOCALES[next].speechLang);
+    announce(getTranslator(next).t('announce.language'));
+  };
+
+  /**
+   * Makes `id` the active profile and switches every setting to it. A running
+   * camera that the profile would open differently is stopped first, so it is
+   * never left running under settings that don't describe it.
+   */
+  const switchProfile = async (id: string) => {
+    const profile = profileStore.get(id);
+    if (!profile) return;
+    const { settings } = profile;
+    const cameraChanged = settings.camera.source !== cameraSource || (cameraSource === 'server'
+      ? settings.camera.index !== cameraIndex
+      : settings.camera.deviceId !== selectedDeviceId);
+    if (isCameraRunning && cameraChanged) {
+      // Stopping re-renders, which saves to the active profile; select only afterwards
+      await stopCamera();
+    } else if (isCameraRunning && cameraSource === 'server' && settings.camera.transport !== transportPreference) {
+      startFrameStreaming(settings.camera.transport);
+    }
+
+    profileStore.select(id);
+    setActiveProfileId(id);
+    setLocale(settings.locale);
+    speechQueueRef.current.setLanguage(LOCALES[settings.locale].speechLang);
+    setSelectedMode(settings.mode);
+    schedulerRef.current.resetFallback();
+    setCameraSource(settings.camera.source);
+    setCameraIndex(settings.camera.index);
+    setSelectedDeviceId(settings.camera.deviceId);
+    setTransportPreference(settings.camera.transport);
+    setShowDirections(settings.showDirections);
+    setShowBoundingBoxes(settings.showBoundingBoxes);
+    setVoiceEnabled(settings.voiceEnabled);
+    if (!settings.voiceEnabled) speechQueueRef.current.cancel();
+    setNarrateChanges(settings.narrateChanges);
+    changeAutoProcess(settings.autoProcess);
+    setAutoProcessSettings(settings.autoProcessSettings);
+    schedulerRef.current.updateSettings(settings.autoProcessSettings);
+    setSpeechSettings(settings.speech);
+    speechQueueRef.current.updateSettings(settings.speech);
+    // Switching is a user gesture, which browsers require before audio can start
+    if (settings.sonification.enabled) sonifierRef.current.unlock();
+    setSonificationSettings(settings.sonification);
+    sonifierRef.current.updateSettings(settings.sonification);
+    setHapticSettings(settings.haptics);
+    hapticsRef.current.updateSettings(settings.haptics);
+    setStabilizerSettings(settings.stabilizer);
+    stabilizerRef.current.updateSettings(settings.stabilizer);
+    setProximitySettings(settings.proximity);
+    setZoneLayout(toZoneLayout(settings.zones));
+    // Zone ids may differ under the new layout; start the comparison afresh
+    sceneDifferRef.current.reset();
+    setNavigationRules(settings.rules);
+    setSeekSettings(settings.seek);
+    seekerRef.current.updateSettings(settings.seek);
+    setTimeout(() => drawOverlayRef.current(), 100);
+
+    // Not announce(): that would go by the previous profile's language and voice setting
+    const message = getTranslator(settings.locale).t('announce.profile', { name: profile.name });
+    pushLiveMessage(message, false);
+    if (settings.voiceEnabled) speechQueueRef.current.speak(message);
+  };
+
+  /** Reads out the latest scene description, falling back to the caption. */
+  const describeScene = () => {
+    announce(result?.llm_description || result?.caption || t('announce.noScene'), { priority: 'caution' });
+  };
+
+  const changeSeekTarget = (target: string | null) => {
+    setSeekTarget(target);
+    seekerRef.current.setTarget(target);
+    // The next frame's guidance is about something else; don't hold it back behind the old one
+    stabilizerRef.current.reset();
+    announce(target ? t('announce.seekStart', { object: i18n.label(target) }) : t('announce.seekStop'));
+  };
+
+  const createProfile = (name: string) => {
+    // The active profile is saved on every change, so it holds the current settings
+    const profile = profileStore.create(name, profileStore.active().settings);
+    setProfiles(profileStore.list());
+    switchProfile(profile.id);
+  };
+
+  const renameProfile = (id: string, name: string) => {
+    profileStore.rename(id, name);
+    setProfiles(profileStore.list());
+  };
 
-  const speak = (text: string) => {
-    if (voiceEnabled && 'speechSynthesis' in window && speechSynthRef.current) {
-      window.speechSynthesis.cancel(); // Stop any ongoing speech
-      speechSynthRef.current.text = text;
-      window.speechSynthesis.speak(speechSynthRef.current);
+  const deleteProfile = async (id: string) => {
+    if (id === activeProfileId) {
+      const next = profiles.find(profile => profile.id !== id);
+      if (!next) return;
+      await switchProfile(next.id);
     }
+    profileStore.remove(id);
+    setProfiles(profileStore.list());
   };
 
-  const checkServerStatus = async () => {
+  const exportProfile = (id: string) => {
+    const name = profileStore.get(id)?.name ?? 'profile';
+    const url = URL.createObjectURL(profileStore.exportProfile(id));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `profile_${name.replace(/[^\p{L}\p{N}_-]+/gu, '_')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importProfile = async (file: File) => {
+    const { profile, invalid } = await profileStore.importProfile(file);
+    setProfiles(profileStore.list());
+    await switchProfile(profile.id);
+    return { name: profile.name, invalid };
+  };
+
+  const applyCapabilities = async () => {
+    const { modes, fromServer } = await loadModeCapabilities(apiClient);
+    setModeCapabilities(modes);
+    setModesFromServer(fromServer);
+    // Move off a mode the server can't run
+    const available = modes.filter(mode => mode.available).map(mode => mode.id);
+    setSelectedMode(current => (available.length === 0 || available.includes(current) ? current : available[0]));
+  };
+
+  // The server may have restarted and closed its camera; reopen it and the preview
+  const resumeServerCamera = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/`, { method: 'GET' });
-      if (response.ok) {
-        setServerStatus('online');
-        setError('');
-      } else {
-        setServerStatus('offline');
-        setError('Server returned error');
+      await apiClient.startCamera(cameraIndex);
+      startFrameStreaming();
+    } catch (err) {
+      setError(t('error.resumeCamera', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const handleHealthChange = (health: ServerHealth, previous: ServerHealth) => {
+    setServerHealth(health);
+    if (health.status === previous.status) return;
+
+    if (health.status === 'online') {
+      setError('');
+      applyCapabilities();
+      if (previous.status === 'reconnecting') {
+        announce(t('announce.serverRestored'), { priority: 'caution' });
+        if (isCameraRunning && cameraSource === 'server') resumeServerCamera();
       }
+    } else if (health.status === 'reconnecting') {
+      announce(t('announce.serverLost'), { priority: 'danger' });
+      // Cues and a frozen preview would describe a scene that is no longer current
+      sonifierRef.current.stop();
+      if (cameraSource === 'server') stopFrameStreaming();
+    } else if (health.status === 'offline') {
+      setError(health.error === 'Cannot connect to server'
+        ? t('error.cannotConnect', { url: apiClient.baseUrl })
+        : health.error ?? t('error.serverUnavailable'));
+    }
+  };
+
+  healthHandlerRef.current = handleHealthChange;
+
+  const checkGuidanceFreshness = () => {
+    const watchdog = watchdogRef.current;
+    if (watchdog.check(autoProcessSettings.staleAfterMs)) {
+      sonifierRef.current.stop();
+      announce(
+        t(serverOnline ? 'announce.guidanceUnavailable' : 'announce.guidanceUnavailableOffline'),
+        { priority: 'danger' }
+      );
+    }
+    setGuidanceStale(watchdog.stale);
+  };
+
+  watchdogTickRef.current = checkGuidanceFreshness;
+
+  const refreshVideoDevices = async () => {
+    try {
+      setVideoDevices(await listVideoDevices());
+    } catch (err) {
+      console.error('Error listing cameras:', err);
+    }
+  };
+
+  const startBrowserCamera = async () => {
+    try {
+      mediaStreamRef.current = await openBrowserCamera(selectedDeviceId || undefined);
+      setIsCameraRunning(true);
+      setError('');
+      announce(t('announce.cameraStarted'));
+      // Device labels only become readable after permission is granted
+      refreshVideoDevices();
     } catch (err) {
-      setServerStatus('offline');
-      setError('Cannot connect to server. Make sure backend is running on http://localhost:5000');
+      const denied = err instanceof DOMException && err.name === 'NotAllowedError';
+      setError(denied
+        ? t('error.cameraDenied')
+        : t('error.cameraOpen', { error: err instanceof Error ? err.message : String(err) }));
+      announce(t('announce.cameraFailed'));
     }
   };
 
   const startCamera = async () => {
     setError('');
-    try {
-      const response = await fetch(`${API_BASE_URL}/camera/start?camera_index=${cameraIndex}`, {
-        method: 'POST',
-      });
-      const data = await response.json();
+    // A profile may have turned sound cues on at load, before any user gesture
+    if (sonificationSettings.enabled) sonifierRef.current.unlock();
+    if (cameraSource === 'browser') {
+      await startBrowserCamera();
+      return;
+    }
 
-      if (response.ok) {
-        setIsCameraRunning(true);
-        setError('');
-        speak('Camera started');
-        setTimeout(() => startFrameStreaming(), 500);
+    try {
+      await apiClient.startCamera(cameraIndex);
+      setIsCameraRunning(true);
+      setError('');
+      announce(t('announce.cameraStarted'));
+      setTimeout(() => startFrameStreaming(), 500);
+    } catch (err) {
+      if (err instanceof ApiError && err.status) {
+        setError(err.message);
+        announce(t('announce.cameraFailed'));
       } else {
-        setError(data.error || 'Failed to start camera');
-        speak('Camera failed to start');
+        setError(t('error.serverConnect'));
+        announce(t('error.serverConnect'));
       }
-    } catch (err) {
-      setError('Error connecting to server');
-      speak('Error connecting to server');
     }
   };
 
   const stopCamera = async () => {
     try {
-      await fetch(`${API_BASE_URL}/camera/stop`, { method: 'POST' });
+      if (cameraSource === 'browser') {
+        stopMediaStream(mediaStreamRef.current);
+        mediaStreamRef.current = null;
+      } else {
+        // An unreachable server can't be told; stop locally and let it time out
+        await apiClient.stopCamera().catch(err => {
+          if (serverOnline) throw err;
+        });
+      }
       setIsCameraRunning(false);
-      setAutoProcess(false);
       stopFrameStreaming();
       if (imgRef.current) {
         imgRef.current.src = '';
@@ -149,456 +544,632 @@ const App: React.FC = () => {
           ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
         }
       }
-      setFrameCount(0);
+      setFps(0);
       setResult(null);
+      setTracks([]);
+      trackerRef.current.reset();
+      sceneDifferRef.current.reset();
+      setSceneEvents([]);
+      stabilizerRef.current.reset();
+      sonifierRef.current.stop();
+      hapticsRef.current.stop();
       setNavigationInstructions(null);
       setAnnotatedImage(null);
-      speak('Camera stopped');
-    } catch (err) {
-      setError('Error stopping camera');
+      announce(t('announce.cameraStopped'));
+    } catch {
+      setError(t('error.stopCamera'));
     }
   };
 
-  const startFrameStreaming = () => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
+  const startFrameStreaming = async (preference: FrameTransportPreference = transportPreference) => {
+    stopFrameStreaming();
 
-    let count = 0;
-    intervalRef.current = setInterval(async () => {
-      try {
-        const response = await fetch(`${API_BASE_URL}/camera/frame`);
-        if (response.ok) {
-          const blob = await response.blob();
-          const url = URL.createObjectURL(blob);
-          if (imgRef.current) {
-            imgRef.current.onload = () => {
-              drawDirectionOverlay();
-            };
-            imgRef.current.src = url;
-          }
-          count++;
-          setFrameCount(count);
-        }
-      } catch (err) {
-        console.error('Error fetching frame:', err);
-      }
-    }, 100);
-  };
+    const renderer = new FrameRenderer(() => imgRef.current, () => {
+      fpsMeterRef.current.tick();
+      drawOverlayRef.current();
+    });
+    frameRendererRef.current = renderer;
 
-  const stopFrameStreaming = () => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+    try {
+      const transport = await startFrameTransport(preference, apiClient, {
+        onFrame: (frame) => renderer.push(frame),
+        onClosed: (reason) => {
+          console.warn('Frame stream closed, falling back to polling:', reason);
+          if (frameTransportRef.current === transport) startFrameStreaming('polling');
+        },
+      });
+      if (frameRendererRef.current !== renderer) {
+        // Streaming was stopped or restarted while this transport connected
+        transport.stop();
+        return;
+      }
+      frameTransportRef.current = transport;
+      setActiveTransport(transport.kind);
+    } catch (err) {
+      console.error('Error starting frame stream:', err);
+      if (frameRendererRef.current === renderer) {
+        setError(t('error.frames'));
+      }
     }
   };
 
-  const getObjectsInZone = (zone: 'left' | 'front' | 'right') => {
-    if (!result || !result.detected_objects) return [];
-
-    const width = imgRef.current?.naturalWidth || 640;
-
-    return result.detected_objects.filter(obj => {
-      const [x1, , x2] = obj.bounding_box;
-      const centerX = (x1 + x2) / 2;
-
-      if (zone === 'right' && centerX < width / 3) return true;
-      if (zone === 'left' && centerX > 2 * width / 3) return true;
-      if (zone === 'front' && centerX >= width / 3 && centerX <= 2 * width / 3) return true;
-
-      return false;
-    });
+  const stopFrameStreaming = () => {
+    frameTransportRef.current?.stop();
+    frameTransportRef.current = null;
+    frameRendererRef.current?.dispose();
+    frameRendererRef.current = null;
+    fpsMeterRef.current.reset();
+    setActiveTransport(null);
   };
 
-  const generateNavigationInstructions = (objects: DetectedObject[]): NavigationInstruction => {
-    const leftObjects = getObjectsInZone('left');
-    const frontObjects = getObjectsInZone('front');
-    const rightObjects = getObjectsInZone('right');
-
-    // Check for obstacles (person, chair, table, etc.)
-    const dangerousObjects = ['person', 'car', 'truck', 'bicycle', 'motorcycle', 'chair', 'table', 'bench', 'couch', 'bed'];
-
-    const leftDanger = leftObjects.filter(obj => dangerousObjects.includes(obj.label.toLowerCase()));
-    const frontDanger = frontObjects.filter(obj => dangerousObjects.includes(obj.label.toLowerCase()));
-    const rightDanger = rightObjects.filter(obj => dangerousObjects.includes(obj.label.toLowerCase()));
-
-    // Determine best direction
-    if (frontDanger.length > 0) {
-      // Front is blocked
-      if (leftDanger.length === 0) {
-        return {
-          direction: 'left',
-          priority: 'caution',
-          message: 'Path blocked ahead. Move left.',
-          reason: `Obstacle detected: ${frontDanger.map(o => o.label).join(', ')}`
-        };
-      } else if (rightDanger.length === 0) {
-        return {
-          direction: 'right',
-          priority: 'caution',
-          message: 'Path blocked ahead. Move right.',
-          reason: `Obstacle detected: ${frontDanger.map(o => o.label).join(', ')}`
-        };
-      } else {
-        return {
-          direction: 'stop',
-          priority: 'danger',
-          message: 'Stop! Obstacles in all directions.',
-          reason: 'Multiple obstacles detected'
-        };
-      }
-    } else if (leftObjects.length === 0 && rightObjects.length === 0) {
-      // All clear
-      return {
-        direction: 'forward',
-        priority: 'safe',
-        message: 'Clear path ahead. Safe to proceed.',
-        reason: 'No obstacles detected'
-      };
-    } else if (leftDanger.length > 0 && rightDanger.length === 0) {
-      // Left has obstacles, prefer right
-      return {
-        direction: 'right',
-        priority: 'caution',
-        message: 'Obstacle on left. Stay right.',
-        reason: `Left side: ${leftDanger.map(o => o.label).join(', ')}`
-      };
-    } else if (rightDanger.length > 0 && leftDanger.length === 0) {
-      // Right has obstacles, prefer left
+  // Source resolution and on-screen size of whichever element shows the camera
+  const getFrameMetrics = () => {
+    const video = videoRef.current;
+    if (video) {
       return {
-        direction: 'left',
-        priority: 'caution',
-        message: 'Obstacle on right. Stay left.',
-        reason: `Right side: ${rightDanger.map(o => o.label).join(', ')}`
+        naturalWidth: video.videoWidth || 640,
+        naturalHeight: video.videoHeight || 480,
+        displayWidth: video.clientWidth,
+        displayHeight: video.clientHeight,
       };
-    } else {
-      // Objects present but not dangerous, proceed with caution
+    }
+    const img = imgRef.current;
+    if (img) {
       return {
-        direction: 'forward',
-        priority: 'caution',
-        message: 'Proceed with caution. Objects nearby.',
-        reason: `Detected: ${objects.slice(0, 3).map(o => o.label).join(', ')}`
+        naturalWidth: img.naturalWidth || 640,
+        naturalHeight: img.naturalHeight || 480,
+        displayWidth: img.width,
+        displayHeight: img.height,
       };
     }
+    return null;
   };
 
   const drawDirectionOverlay = () => {
-    if (!canvasRef.current || !imgRef.current || !showDirections) return;
+    const frame = getFrameMetrics();
+    if (!canvasRef.current || !frame || !showDirections) return;
 
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    canvas.width = imgRef.current.width;
-    canvas.height = imgRef.current.height;
+    canvas.width = frame.displayWidth;
+    canvas.height = frame.displayHeight;
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
     if (!result || !result.detected_objects || !showBoundingBoxes) return;
 
-    const width = canvas.width;
-    const height = canvas.height;
-
-    // Draw zone indicators
-    ctx.globalAlpha = 0.2;
-
-    const rightObjects = getObjectsInZone('right');
-    if (rightObjects.length > 0) {
-      ctx.fillStyle = '#4CAF50';
-      ctx.fillRect(0, 0, width / 3, height);
-    }
-
-    const frontObjects = getObjectsInZone('front');
-    if (frontObjects.length > 0) {
-      ctx.fillStyle = '#2196F3';
-      ctx.fillRect(width / 3, 0, width / 3, height);
-    }
-
-    const leftObjects = getObjectsInZone('left');
-    if (leftObjects.length > 0) {
-      ctx.fillStyle = '#FF9800';
-      ctx.fillRect(2 * width / 3, 0, width / 3, height);
-    }
-
-    // Draw bounding boxes
-    ctx.globalAlpha = 1.0;
-    result.detected_objects.forEach(obj => {
-      const [x1, y1, x2, y2] = obj.bounding_box;
-
-      const scaleX = canvas.width / (imgRef.current?.naturalWidth || 640);
-      const scaleY = canvas.height / (imgRef.current?.naturalHeight || 480);
-
-      const sx1 = x1 * scaleX;
-      const sy1 = y1 * scaleY;
-      const sx2 = x2 * scaleX;
-      const sy2 = y2 * scaleY;
-
-      const centerX = (x1 + x2) / 2;
-      const origWidth = imgRef.current?.naturalWidth || 640;
-      let color = '#2196F3';
-      if (centerX < origWidth / 3) {
-        color = '#4CAF50';
-      } else if (centerX > 2 * origWidth / 3) {
-        color = '#FF9800';
-      }
-
-      ctx.strokeStyle = color;
-      ctx.lineWidth = 3;
-      ctx.strokeRect(sx1, sy1, sx2 - sx1, sy2 - sy1);
-
-      const label = `${obj.label} ${(obj.confidence * 100).toFixed(0)}%`;
-      ctx.font = 'bold 16px Arial';
-      const textMetrics = ctx.measureText(label);
-      const textHeight = 24;
-
-      ctx.fillStyle = color;
-      ctx.fillRect(sx1, sy1 - textHeight, textMetrics.width + 10, textHeight);
-
-      ctx.fillStyle = 'white';
-      ctx.fillText(label, sx1 + 5, sy1 - 6);
+    drawNavigationOverlay(ctx, {
+      objects: result.detected_objects,
+      tracks,
+      frame: { width: frame.naturalWidth, height: frame.naturalHeight },
+      layout: zoneLayout,
+      proximity: proximitySettings,
+      instruction: navigationInstructions,
+      rules: navigationRules,
+      i18n,
     });
-
-    // Draw zone labels
-    ctx.font = 'bold 20px Arial';
-    ctx.textAlign = 'center';
-
-    if (rightObjects.length > 0) {
-      ctx.fillStyle = 'rgba(76, 175, 80, 0.8)';
-      ctx.fillRect(width / 6 - 60, 10, 120, 40);
-      ctx.fillStyle = 'white';
-      ctx.fillText('➡️ RIGHT', width / 6, 37);
-    }
-
-    if (frontObjects.length > 0) {
-      ctx.fillStyle = 'rgba(33, 150, 243, 0.8)';
-      ctx.fillRect(width / 2 - 60, 10, 120, 40);
-      ctx.fillStyle = 'white';
-      ctx.fillText('⬆️ FRONT', width / 2, 37);
-    }
-
-    if (leftObjects.length > 0) {
-      ctx.fillStyle = 'rgba(255, 152, 0, 0.8)';
-      ctx.fillRect(5 * width / 6 - 60, 10, 120, 40);
-      ctx.fillStyle = 'white';
-      ctx.fillText('⬅️ LEFT', 5 * width / 6, 37);
-    }
   };
 
-  const processFrame = async () => {
+  // Frame callbacks outlive renders; route them to the latest overlay closure
+  drawOverlayRef.current = drawDirectionOverlay;
+
+  /**
+   * Processes the current frame in `mode` (the selected mode by default).
+   * Resolves with what the auto-process scheduler needs, null on failure, or
+   * `skipped` when a request is already in flight.
+   */
+  const processFrame = async (mode: ProcessingMode = selectedMode): Promise<FrameRunResult> => {
     if (!isCameraRunning) {
-      setError('Please start the camera first');
-      return;
+      setError(t('error.startCameraFirst'));
+      return null;
     }
+    if (inFlightRef.current) return 'skipped';
 
+    inFlightRef.current = true;
     setIsProcessing(true);
     setError('');
+    // Grab what the user sees now, before the result arrives, so a recording pairs the two
+    const previewElement = videoRef.current ?? imgRef.current;
+    const snapshot = recorderRef.current.active && previewElement ? captureSnapshot(previewElement) : null;
+    const requestStartedAt = performance.now();
+    const { annotate } = describeMode(modeCapabilities, mode);
+    // Browser frames are kept as the exact JPEG sent; server frames as a decoded copy of the
+    // preview, encoded only if the user adds them to the dataset
+    let datasetImage: Blob | ImageBitmap | null = null;
 
     try {
-      const response = await fetch(
-        `${API_BASE_URL}/process_camera/${selectedMode}?annotate=true`,
-        { method: 'POST' }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        console.log('=== Full API Response ===');
-        console.log(JSON.stringify(data, null, 2));
-        console.log('========================');
-
-        // Extract the actual result data
-        let resultData: ProcessingResult | null = null;
-
-        // Try different possible response structures
-        if (data.data) {
-          resultData = data.data;
-          console.log('Using data.data structure');
-        } else if (data.caption && data.detected_objects) {
-          resultData = data;
-          console.log('Using flat data structure');
-        } else {
-          console.error('Unknown response structure');
-          setError('Invalid API response structure');
-          setIsProcessing(false);
-          return;
-        }
-
-        setResult(resultData);
-        setError('');
-        console.log('Result set:', resultData);
-
-        // Get annotated image - try multiple possible paths
-        let annotatedImageData = null;
-
-        if (data.annotated_image_base64) {
-          annotatedImageData = data.annotated_image_base64;
-          console.log('Found annotated_image_base64 at top level');
-        } else if (data.data && data.data.annotated_image_base64) {
-          annotatedImageData = data.data.annotated_image_base64;
-          console.log('Found annotated_image_base64 in data.data');
-        } else if (data.annotated_image) {
-          annotatedImageData = data.annotated_image;
-          console.log('Found annotated_image at top level');
-        } else if (data.data && data.data.annotated_image) {
-          annotatedImageData = data.data.annotated_image;
-          console.log('Found annotated_image in data.data');
-        }
-
-        if (annotatedImageData) {
-          // Trim any whitespace
-          annotatedImageData = annotatedImageData.trim();
-
-          // Check if it already has the data URL prefix
-          const imgData = annotatedImageData.startsWith('data:image')
-            ? annotatedImageData
-            : `data:image/jpeg;base64,${annotatedImageData}`;
-
-          setAnnotatedImage(imgData);
-          console.log('✅ Annotated image set successfully');
-          console.log('Image data length:', annotatedImageData.length);
-        } else {
-          console.warn('❌ No annotated image found in response');
-          console.log('Available keys:', Object.keys(data));
-          if (data.data) {
-            console.log('Available keys in data.data:', Object.keys(data.data));
-          }
-          setAnnotatedImage(null);
-        }
+      let response;
+      if (cameraSource === 'browser') {
+        if (!videoRef.current) throw new Error(t('error.cameraNotReady'));
+        const frame = await captureVideoFrame(videoRef.current);
+        datasetImage = frame;
+        response = await apiClient.processImage(mode, frame, { annotate });
+      } else {
+        const preview = imgRef.current ? createImageBitmap(imgRef.current).catch(() => null) : null;
+        response = await apiClient.processCamera(mode, { annotate });
+        datasetImage = await preview;
+      }
+      const { result: resultData, annotatedImage: annotatedImageData } = response;
 
-        // Generate navigation instructions
-        const detectedObjects = resultData.detected_objects;
-        if (detectedObjects && detectedObjects.length > 0) {
-          const navInstructions = generateNavigationInstructions(detectedObjects);
-          setNavigationInstructions(navInstructions);
-          console.log('Navigation instructions:', navInstructions);
+      setResult(resultData);
+      const frameTracks = trackerRef.current.update(
+        resultData.detected_objects,
+        getFrameMetrics()?.naturalWidth || 640
+      );
+      setTracks(frameTracks);
+      setError('');
+      setAnnotatedImage(annotatedImageData);
+
+      // Generate navigation instructions
+      const frame = getFrameMetrics();
+      const navigationInput = {
+        objects: resultData.detected_objects,
+        frame: { width: frame?.naturalWidth || 640, height: frame?.naturalHeight || 480 },
+        tracks: frameTracks,
+        layout: zoneLayout,
+        proximity: proximitySettings,
+      };
+      const navInstructions = seekTarget
+        ? seekerRef.current.update(navigationInput, navigationRules, i18n)
+        : generateNavigationInstructions(navigationInput, navigationRules, i18n);
+      const previous = lastFrameRef.current?.image;
+      if (previous instanceof ImageBitmap) previous.close();
+      lastFrameRef.current = {
+        image: datasetImage,
+        frame: navigationInput.frame,
+        objects: resultData.detected_objects,
+        mode,
+      };
+      // Auto-processing keeps cues alive until the watchdog calls guidance stale; a manual frame fades sooner
+      sonifierRef.current.play(
+        planSonification(navigationInput, navigationRules),
+        autoProcess ? autoProcessSettings.staleAfterMs : DEFAULT_CUE_TTL_MS
+      );
 
-          // Speak navigation instructions
-          speak(navInstructions.message);
-        } else {
-          console.log('No objects detected');
-          setNavigationInstructions(null);
-        }
+      // Said before the new guidance so that it is queued behind, not replaced
+      if (watchdogRef.current.markFresh()) announce(t('announce.guidanceRestored'), { priority: 'caution' });
+      setGuidanceStale(false);
+
+      // Hold flickering guidance back and only speak material changes
+      const { instruction, announce: announcement } = stabilizerRef.current.push(navInstructions);
+      setNavigationInstructions(instruction);
+      const spokenGuidance = !(sonificationSettings.enabled && sonificationSettings.replaceSpeech);
+      if (announcement) hapticsRef.current.notify(instruction);
+      if (announcement && spokenGuidance) {
+        announce(announcement, { priority: instruction.priority === 'danger' ? 'danger' : 'caution' });
+      }
 
-        setTimeout(() => drawDirectionOverlay(), 100);
-      } else {
-        const errorData = await response.json();
-        console.error('API error response:', errorData);
-        setError(errorData.detail || 'Processing failed');
-        setAnnotatedImage(null);
+      // What changed since the last confirmed scene; info priority, so guidance always wins
+      const changes = sceneDifferRef.current.update(
+        resultData.detected_objects.filter(obj => obj.confidence >= navigationRules.minConfidence),
+        navigationInput.frame.width,
+        zoneLayout,
+        i18n
+      );
+      if (changes.length > 0) {
+        setSceneEvents(log => appendSceneEvents(log, changes));
+        if (narrateChanges) announce(changes.map(change => change.message).join(' '));
       }
+
+      const latencyMs = performance.now() - requestStartedAt;
+      recorderRef.current.record({
+        timestamp: Date.now(),
+        latencyMs,
+        mode,
+        result: resultData,
+        annotatedImage: annotatedImageData,
+        snapshot,
+        frame: navigationInput.frame,
+        instruction,
+        tracks: frameTracks,
+        layout: zoneLayout,
+        proximity: proximitySettings,
+        rules: navigationRules,
+      })
+        .then(() => setRecordingSession(recorderRef.current.active))
+        .catch(err => console.error('Recording failed:', err));
+
+      setTimeout(() => drawOverlayRef.current(), 100);
+      return { mode, latencyMs, priority: instruction.priority, tracks: frameTracks };
     } catch (err) {
       console.error('Processing error:', err);
-      setError(`Error processing frame: ${err}`);
+      if (err instanceof ResponseValidationError) {
+        setError(t('error.invalidResponse', { error: err.message }));
+      } else if (err instanceof ApiError) {
+        setError(err.message);
+      } else {
+        setError(t('error.processing', { error: err instanceof Error ? err.message : String(err) }));
+      }
       setAnnotatedImage(null);
+      // The last cues describe a scene we no longer know about
+      sonifierRef.current.stop();
+      return null;
     } finally {
+      inFlightRef.current = false;
       setIsProcessing(false);
     }
   };
 
+  const handleAutoProcessStatus = (status: AutoProcessStatus) => {
+    if (status.fallbackMode && status.fallbackMode !== autoProcessStatus?.fallbackMode) {
+      announce(t('announce.fallback', { mode: getModeInfo(status.fallbackMode).name }), { priority: 'caution' });
+    }
+    setAutoProcessStatus(status);
+  };
+
+  // Scheduler callbacks outlive renders; route them to the latest closures
+  processFrameRef.current = processFrame;
+  autoProcessStatusRef.current = handleAutoProcessStatus;
+
   useEffect(() => {
+    const speechQueue = speechQueueRef.current;
+    const sonifier = sonifierRef.current;
+    const scheduler = schedulerRef.current;
     return () => {
       stopFrameStreaming();
-      if (processIntervalRef.current) {
-        clearInterval(processIntervalRef.current);
-      }
-      if ('speechSynthesis' in window) {
-        window.speechSynthesis.cancel();
-      }
+      stopMediaStream(mediaStreamRef.current);
+      scheduler.stop();
+      speechQueue.cancel();
+      sonifier.dispose();
     };
   }, []);
 
-  const getModeInfo = (mode: ProcessingMode) => {
-    const info: Record<ProcessingMode, { name: string; icon: string; description: string; time: string }> = {
-      basic: { name: 'Basic', icon: '⚡', description: 'Fast detection only', time: '~1s' },
-      'gpt2': { name: 'GPT-2', icon: '🤖', description: 'Detailed descriptions', time: '~3-5s' },
-      'gpt2-mini': { name: 'GPT-2 Mini', icon: '🏃', description: 'Fast + good quality', time: '~2-3s' },
-      'gpt2-fusion': { name: 'GPT-2 + Fusion', icon: '✨', description: 'Highest quality', time: '~5-8s' },
-      'gpt2-mini-fusion': { name: 'GPT-2 Mini + Fusion', icon: '⭐', description: 'Best balance', time: '~4-6s' },
-    };
-    return info[mode];
+  const addToDataset = async (
+    image: Blob | ImageBitmap | string | null,
+    source: { frame: { width: number; height: number }; objects: DetectedObject[]; mode: ProcessingMode },
+    origin: 'live' | 'session'
+  ) => {
+    // Encoded now, before anything awaits, as the next frame closes the bitmap
+    const encoded = image instanceof ImageBitmap ? captureSnapshot(image, Number.POSITIVE_INFINITY, 0.92) : image;
+    if (!encoded) {
+      setError(t('error.noDatasetImage'));
+      return;
+    }
+    try {
+      const dataUrl = typeof encoded === 'string' ? encoded : await blobToDataUrl(encoded);
+      await datasetStore.put(await createDatasetItem({ image: dataUrl, ...source, source: origin }));
+      setDatasetRevision(revision => revision + 1);
+      announce(t('announce.datasetAdded'));
+    } catch (err) {
+      setError(t('error.datasetAdd', { error: err instanceof Error ? err.message : String(err) }));
+    }
   };
 
-  const parseGuidance = (guidance: string) => {
-    const zones = {
-      left: [] as string[],
-      front: [] as string[],
-      right: [] as string[]
-    };
+  const addRecordedFrameToDataset = (frame: RecordedFrame) =>
+    addToDataset(frame.snapshot, { frame: frame.frame, objects: frame.result.detected_objects, mode: frame.mode }, 'session');
+
+  const selectMode = (mode: ProcessingMode, focus = false) => {
+    setSelectedMode(mode);
+    // An explicit choice overrides a latency fallback
+    schedulerRef.current.resetFallback();
+    if (focus) modeCardRefs.current[mode]?.focus();
+  };
+
+  const stepMode = (step: number, focus = false) => {
+    const idx = availableModes.indexOf(selectedMode);
+    const next = availableModes[(idx + step + availableModes.length) % availableModes.length] ?? selectedMode;
+    selectMode(next, focus);
+    return next;
+  };
 
-    const parts = guidance.split('To your ');
-    parts.forEach(part => {
-      if (part.includes('left:')) {
-        const content = part.split('left:')[1].split('.')[0].trim();
-        zones.left.push(content);
-      } else if (part.includes('front:')) {
-        const content = part.split('front:')[1].split('.')[0].trim();
-        zones.front.push(content);
-      } else if (part.includes('right:')) {
-        const content = part.split('right:')[1].split('.')[0].trim();
-        zones.right.push(content);
+  const handleHotkey = (action: HotkeyAction) => {
+    switch (action) {
+      case 'toggle-camera':
+        if (isCameraRunning) {
+          stopCamera();
+        } else {
+          startCamera();
+        }
+        break;
+      case 'process':
+        if (autoProcess && isCameraRunning) {
+          announce(t('announce.autoAlreadyOn'));
+        } else if (!isProcessing) {
+          processFrame();
+        }
+        break;
+      case 'toggle-auto':
+        changeAutoProcess(!autoProcess);
+        announce(t(autoProcess ? 'announce.autoOff' : 'announce.autoOn'));
+        break;
+      case 'repeat':
+        announce(navigationInstructions?.message ?? t('announce.noInstruction'), { priority: 'caution' });
+        break;
+      case 'describe':
+        describeScene();
+        break;
+      case 'next-mode':
+      case 'previous-mode': {
+        const info = getModeInfo(stepMode(action === 'next-mode' ? 1 : -1));
+        announce(t('announce.mode', { name: info.name, description: info.description }));
+        break;
       }
-    });
+      case 'next-profile': {
+        const idx = profiles.findIndex(profile => profile.id === activeProfileId);
+        switchProfile(profiles[(idx + 1) % profiles.length].id);
+        break;
+      }
+      case 'help':
+        setShowHelp(!showHelp);
+        break;
+    }
+  };
+  hotkeyHandlerRef.current = handleHotkey;
+
+  const handleModeKeyDown = (e: React.KeyboardEvent, mode: ProcessingMode) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      stepMode(1, true);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowLeft') {
+      e.preventDefault();
+      stepMode(-1, true);
+    } else if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      selectMode(mode);
+    }
+  };
 
-    return zones;
+  // Current camera frame as a JPEG, for the benchmark
+  const captureCurrentFrame = async (): Promise<Blob | null> => {
+    if (!isCameraRunning) return null;
+    if (cameraSource === 'browser') {
+      return videoRef.current ? captureVideoFrame(videoRef.current) : null;
+    }
+    const snapshot = imgRef.current ? captureSnapshot(imgRef.current, Number.POSITIVE_INFINITY, 0.92) : null;
+    return snapshot ? (await fetch(snapshot)).blob() : null;
   };
 
-  const getNavigationIcon = (direction: string) => {
-    switch (direction) {
-      case 'left': return '⬅️';
-      case 'right': return '➡️';
-      case 'forward': return '⬆️';
-      case 'stop': return '🛑';
-      default: return '❓';
+  const measuredModeStats = latestModeStats(benchmarkRuns);
+
+  const availableModes = modeCapabilities.filter(mode => mode.available).map(mode => mode.id);
+
+  const getModeInfo = (mode: ProcessingMode) => {
+    const capability = describeMode(modeCapabilities, mode);
+    // Modes we ship are worded by the catalogue; modes only the server knows keep its own wording
+    const wording = isBuiltInMode(mode)
+      ? { name: t(`mode.${mode}.name`), description: t(`mode.${mode}.description`) }
+      : {};
+    const measured = measuredModeStats[mode];
+    let time = t('mode.noEstimate');
+    if (measured) {
+      time = t('mode.measured', { median: formatLatency(measured.p50), p90: formatLatency(measured.p90) });
+    } else if (capability.expectedLatencyMs !== undefined) {
+      // Server figures are its own; built-in ones are guesses
+      time = t(modesFromServer ? 'mode.expected' : 'mode.estimate', { latency: formatLatency(capability.expectedLatencyMs) });
     }
+    return { ...capability, ...wording, time, measured: !!measured };
   };
 
   return (
     <div className="app">
       <header className="header">
-        <h1>🎥 Vision Navigation System for Blind</h1>
-        <p>Real-time AI guidance with directional navigation</p>
+        <h1>🎥 {t('app.title')}</h1>
+        <p>{t('app.subtitle')}</p>
         <div className={`server-status ${serverStatus}`}>
-          {serverStatus === 'checking' && '🔄 Checking server...'}
-          {serverStatus === 'online' && '✅ Server Online'}
-          {serverStatus === 'offline' && '❌ Server Offline'}
+          {serverStatus === 'checking' && `🔄 ${t('server.checking')}`}
+          {serverStatus === 'online' && `✅ ${t('server.online')}${serverHealth.latencyMs !== null ? ` · ${Math.round(serverHealth.latencyMs)} ms` : ''}`}
+          {serverStatus === 'reconnecting' && `⚠️ ${t('server.reconnecting', { attempt: serverHealth.failures })}`}
+          {serverStatus === 'offline' && `❌ ${t('server.offline')}`}
+        </div>
+        {activeMockScenario && (
+          <div className="mock-badge">🧪 {t('app.mockBackend', { scenario: activeMockScenario })}</div>
+        )}
+        <div className="header-actions">
+          <label className="header-select">
+            <span aria-hidden="true">👤</span>
+            <select
+              value={activeProfileId}
+              onChange={(e) => switchProfile(e.target.value)}
+              aria-label={t('app.profile')}
+              aria-keyshortcuts={hotkeyLabel('next-profile')}
+            >
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="header-select">
+            <span aria-hidden="true">🌐</span>
+            <select
+              value={locale}
+              onChange={(e) => changeLocale(e.target.value as Locale)}
+              aria-label={t('app.language')}
+            >
+              {(Object.keys(LOCALES) as Locale[]).map(id => (
+                <option key={id} value={id} lang={id}>{LOCALES[id].name}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            className="header-button"
+            onClick={() => setShowHelp(true)}
+            aria-keyshortcuts={hotkeyLabel('help')}
+          >
+            ⌨️ {t('app.shortcuts', { key: hotkeyLabel('help') })}
+          </button>
+          <button
+            type="button"
+            className="header-button"
+            onClick={() => setToolPanel(toolPanel === 'sessions' ? null : 'sessions')}
+            aria-expanded={toolPanel === 'sessions'}
+          >
+            🎞️ {t('app.sessions')}
+          </button>
+          <button
+            type="button"
+            className="header-button"
+            onClick={() => setToolPanel(toolPanel === 'dataset' ? null : 'dataset')}
+            aria-expanded={toolPanel === 'dataset'}
+          >
+            🏷️ {t('app.dataset')}
+          </button>
+          <button
+            type="button"
+            className="header-button"
+            onClick={() => setToolPanel(toolPanel === 'benchmark' ? null : 'benchmark')}
+            aria-expanded={toolPanel === 'benchmark'}
+          >
+            ⏱️ {t('app.benchmark')}
+          </button>
         </div>
       </header>
 
+      <div className="sr-only" role="status" aria-live="polite">
+        {liveMessages.filter(message => !message.urgent).map(message => <span key={message.id}>{message.text}</span>)}
+      </div>
+      <div className="sr-only" role="alert" aria-live="assertive">
+        {liveMessages.filter(message => message.urgent).map(message => <span key={message.id}>{message.text}</span>)}
+      </div>
+
+      {showHelp && <HotkeyHelp i18n={i18n} onClose={() => setShowHelp(false)} />}
+
+      {/* Available whatever the server status, so recordings can be reviewed offline */}
+      {toolPanel === 'sessions' && (
+        replaySession ? (
+          <SessionReplay
+            key={replaySession.id}
+            session={replaySession}
+            onClose={() => setReplaySession(null)}
+            onAddToDataset={addRecordedFrameToDataset}
+            i18n={i18n}
+          />
+        ) : (
+          <SessionsPanel
+            recording={recordingSession}
+            onReplay={setReplaySession}
+            onClose={() => setToolPanel(null)}
+          />
+        )
+      )}
+
+      {toolPanel === 'dataset' && <DatasetPanel revision={datasetRevision} onClose={() => setToolPanel(null)} />}
+
+      {toolPanel === 'benchmark' && (
+        <BenchmarkPanel
+          modes={availableModes}
+          describeMode={getModeInfo}
+          captureCurrentFrame={captureCurrentFrame}
+          runs={benchmarkRuns}
+          onRunsChange={setBenchmarkRuns}
+          onClose={() => setToolPanel(null)}
+        />
+      )}
+
       {serverStatus === 'offline' && (
         <div className="offline-banner">
-          <h2>⚠️ Backend Server Not Running</h2>
-          <p>Please start the backend server:</p>
+          <h2>⚠️ {t('offline.title')}</h2>
+          <p>{t('offline.start')}</p>
           <code>python main.py</code>
-          <button onClick={checkServerStatus} className="btn btn-primary">
-            🔄 Retry Connection
+          {serverHealth.retryInMs !== null && (
+            <p>{t('offline.retryIn', { seconds: Math.round(serverHealth.retryInMs / 1000) })}</p>
+          )}
+          <button onClick={() => healthMonitorRef.current.start()} className="btn btn-primary">
+            🔄 {t('offline.retry')}
+          </button>
+        </div>
+      )}
+
+      {serverStatus === 'reconnecting' && (
+        <div className="reconnecting-banner" role="alert">
+          ⚠️ {t('reconnecting.message', { seconds: Math.round((serverHealth.retryInMs ?? 0) / 1000) })}
+          {isCameraRunning && ` ${t('reconnecting.resume')}`}
+          <button type="button" className="btn btn-secondary" onClick={() => healthMonitorRef.current.start()}>
+            {t('reconnecting.retryNow')}
           </button>
         </div>
       )}
 
-      {serverStatus === 'online' && (
+      {(serverStatus === 'online' || serverStatus === 'reconnecting') && (
         <div className="container">
           <div className="panel camera-panel">
-            <h2>📷 Camera Stream</h2>
+            <h2>📷 {t('camera.title')}</h2>
 
             <div className="camera-controls">
               <div className="input-group">
-                <label>Camera Index:</label>
-                <input
-                  type="number"
-                  value={cameraIndex}
-                  onChange={(e) => setCameraIndex(parseInt(e.target.value))}
+                <label htmlFor="camera-source">{t('camera.source')}</label>
+                <select
+                  id="camera-source"
+                  value={cameraSource}
+                  onChange={(e) => setCameraSource(e.target.value as CameraSource)}
                   disabled={isCameraRunning}
-                  min="0"
-                  max="5"
-                />
+                >
+                  <option value="browser" disabled={!isBrowserCameraSupported()}>
+                    📱 {t('camera.thisDevice')}
+                  </option>
+                  <option value="server">🖥️ {t('camera.server')}</option>
+                </select>
               </div>
 
+              {cameraSource === 'browser' ? (
+                <div className="input-group">
+                  <label htmlFor="camera-device">{t('camera.device')}</label>
+                  <select
+                    id="camera-device"
+                    value={selectedDeviceId}
+                    onChange={(e) => setSelectedDeviceId(e.target.value)}
+                    disabled={isCameraRunning}
+                  >
+                    <option value="">{t('camera.defaultDevice')}</option>
+                    {videoDevices.map(device => (
+                      <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div className="input-group">
+                  <label htmlFor="camera-index">{t('camera.index')}</label>
+                  <input
+                    id="camera-index"
+                    type="number"
+                    value={cameraIndex}
+                    onChange={(e) => setCameraIndex(parseInt(e.target.value))}
+                    disabled={isCameraRunning}
+                    min="0"
+                    max="5"
+                  />
+                </div>
+              )}
+
+              {cameraSource === 'server' && (
+                <div className="input-group">
+                  <label htmlFor="frame-transport">{t('camera.stream')}</label>
+                  <select
+                    id="frame-transport"
+                    value={transportPreference}
+                    onChange={(e) => {
+                      const preference = e.target.value as FrameTransportPreference;
+                      setTransportPreference(preference);
+                      if (isCameraRunning) startFrameStreaming(preference);
+                    }}
+                  >
+                    <option value="auto">{t('camera.streamAuto')}</option>
+                    <option value="mjpeg">{t('camera.streamMjpeg')}</option>
+                    <option value="websocket">{t('camera.streamWebsocket')}</option>
+                    <option value="polling">{t('camera.streamPolling')}</option>
+                  </select>
+                </div>
+              )}
+
               <div className="button-group">
                 {!isCameraRunning ? (
-                  <button onClick={startCamera} className="btn btn-primary">
-                    ▶️ Start Camera
+                  <button
+                    ref={cameraButtonRef}
+                    onClick={startCamera}
+                    className="btn btn-primary"
+                    aria-keyshortcuts={hotkeyLabel('toggle-camera')}
+                  >
+                    ▶️ {t('camera.start')}
                   </button>
                 ) : (
-                  <button onClick={stopCamera} className="btn btn-danger">
-                    ⏹️ Stop Camera
+                  <button
+                    ref={cameraButtonRef}
+                    onClick={stopCamera}
+                    className="btn btn-danger"
+                    aria-keyshortcuts={hotkeyLabel('toggle-camera')}
+                  >
+                    ⏹️ {t('camera.stop')}
                   </button>
                 )}
               </div>
@@ -615,7 +1186,7 @@ const App: React.FC = () => {
                       }
                     }}
                   />
-                  <span>Show Direction Overlay</span>
+                  <span>{t('toggle.directions')}</span>
                 </label>
 
                 <label className="toggle-label">
@@ -627,17 +1198,42 @@ const App: React.FC = () => {
                       setTimeout(() => drawDirectionOverlay(), 100);
                     }}
                   />
-                  <span>Show Bounding Boxes</span>
+                  <span>{t('toggle.boxes')}</span>
                 </label>
 
                 <label className="toggle-label">
                   <input
                     type="checkbox"
                     checked={autoProcess}
-                    onChange={(e) => setAutoProcess(e.target.checked)}
-                    disabled={!isCameraRunning}
+                    onChange={(e) => changeAutoProcess(e.target.checked)}
+                    aria-keyshortcuts={hotkeyLabel('toggle-auto')}
                   />
-                  <span>Auto-Process (every 3s)</span>
+                  <span>
+                    {autoProcessSettings.policy === 'adaptive'
+                      ? t('toggle.autoAdaptive')
+                      : t('toggle.autoFixed', { seconds: autoProcessSettings.intervalMs / 1000 })}
+                  </span>
+                </label>
+
+                <label className="toggle-label">
+                  <input
+                    type="checkbox"
+                    checked={recordingSession !== null}
+                    onChange={async (e) => {
+                      if (!e.target.checked) {
+                        recorderRef.current.stop();
+                        setRecordingSession(null);
+                        return;
+                      }
+                      try {
+                        setRecordingSession(await recorderRef.current.start());
+                      } catch (err) {
+                        setError(t('error.recording', { error: err instanceof Error ? err.message : String(err) }));
+                      }
+                    }}
+                    disabled={!isSessionStorageSupported()}
+                  />
+                  <span>⏺️ {t('toggle.record')}</span>
                 </label>
 
                 <label className="toggle-label">
@@ -647,28 +1243,141 @@ const App: React.FC = () => {
                     onChange={(e) => {
                       setVoiceEnabled(e.target.checked);
                       if (e.target.checked) {
-                        speak('Voice guidance enabled');
+                        speechQueueRef.current.speak(t('announce.voiceEnabled'));
+                      } else {
+                        speechQueueRef.current.cancel();
                       }
                     }}
                   />
-                  <span>🔊 Voice Guidance</span>
+                  <span>🔊 {t('toggle.voice')}</span>
+                </label>
+
+                <label className="toggle-label">
+                  <input
+                    type="checkbox"
+                    checked={narrateChanges}
+                    onChange={(e) => setNarrateChanges(e.target.checked)}
+                  />
+                  <span>🆕 {t('toggle.narrate')}</span>
                 </label>
               </div>
+
+              <ProfilesPanel
+                profiles={profiles}
+                activeId={activeProfileId}
+                onSelect={switchProfile}
+                onCreate={createProfile}
+                onRename={renameProfile}
+                onDelete={deleteProfile}
+                onExport={exportProfile}
+                onImport={importProfile}
+                hotkey={hotkeyLabel('next-profile')}
+                i18n={i18n}
+              />
+
+              <AutoProcessPanel
+                settings={autoProcessSettings}
+                onChange={(settings) => {
+                  setAutoProcessSettings(settings);
+                  schedulerRef.current.updateSettings(settings);
+                }}
+                modes={availableModes}
+                describeMode={getModeInfo}
+                i18n={i18n}
+              />
+
+              <SpeechSettingsPanel
+                settings={speechSettings}
+                onChange={(settings) => {
+                  setSpeechSettings(settings);
+                  speechQueueRef.current.updateSettings(settings);
+                }}
+                onTest={() => speechQueueRef.current.speak(t('announce.voiceTest'), { priority: 'caution' })}
+                i18n={i18n}
+              />
+
+              <SonificationPanel
+                settings={sonificationSettings}
+                onChange={(settings) => {
+                  // Toggling is a user gesture, which browsers require before audio can start
+                  if (settings.enabled) sonifierRef.current.unlock();
+                  setSonificationSettings(settings);
+                  sonifierRef.current.updateSettings(settings);
+                }}
+                onTestTone={(side) => sonifierRef.current.playTestTone(side)}
+                i18n={i18n}
+              />
+
+              <HapticsPanel
+                settings={hapticSettings}
+                available={hapticsRef.current.available}
+                onChange={(settings) => {
+                  setHapticSettings(settings);
+                  hapticsRef.current.updateSettings(settings);
+                }}
+                onTest={(direction, priority) => hapticsRef.current.test(direction, priority)}
+                i18n={i18n}
+              />
+
+              <StabilizerSettingsPanel
+                settings={stabilizerSettings}
+                onChange={(settings) => {
+                  setStabilizerSettings(settings);
+                  stabilizerRef.current.updateSettings(settings);
+                }}
+                i18n={i18n}
+              />
+
+              <ProximitySettingsPanel
+                settings={proximitySettings}
+                onChange={(settings) => {
+                  setProximitySettings(settings);
+                  setTimeout(() => drawOverlayRef.current(), 100);
+                }}
+                i18n={i18n}
+              />
+
+              <ZoneLayoutSettings
+                layout={zoneLayout}
+                onChange={(layout) => {
+                  setZoneLayout(layout);
+                  sceneDifferRef.current.reset();
+                  setTimeout(() => drawOverlayRef.current(), 100);
+                }}
+                i18n={i18n}
+              />
             </div>
 
             <div className="camera-stream-wrapper">
               <div className="camera-stream">
                 {isCameraRunning ? (
                   <div className="video-container">
-                    <img ref={imgRef} alt="Camera stream" className="camera-image" />
+                    {cameraSource === 'browser' ? (
+                      <video
+                        ref={videoRef}
+                        className="camera-image"
+                        autoPlay
+                        muted
+                        playsInline
+                        onLoadedMetadata={() => drawDirectionOverlay()}
+                      />
+                    ) : (
+                      <img ref={imgRef} alt={t('camera.imageAlt')} className="camera-image" />
+                    )}
                     <canvas ref={canvasRef} className="overlay-canvas" />
-                    <div className="frame-counter">Frames: {frameCount}</div>
+                    <div className="frame-counter">
+                      {cameraSource === 'browser'
+                        ? `📱 ${t('camera.live')}`
+                        : serverOnline
+                          ? `${fps.toFixed(1)} fps${activeTransport ? ` · ${activeTransport}` : ''}`
+                          : `⏸️ ${t('camera.waiting')}`}
+                    </div>
                   </div>
                 ) : (
                   <div className="placeholder">
                     <p>📷</p>
-                    <p>Camera is off</p>
-                    <p className="hint">Click "Start Camera" to begin</p>
+                    <p>{t('camera.off')}</p>
+                    <p className="hint">{t('camera.offHint', { button: t('camera.start'), key: hotkeyLabel('toggle-camera') })}</p>
                   </div>
                 )}
               </div>
@@ -676,51 +1385,37 @@ const App: React.FC = () => {
               {/* Direction Legend */}
               {isCameraRunning && showDirections && (
                 <div className="direction-legend">
-                  <div className="legend-item">
-                    <div className="legend-color" style={{ backgroundColor: '#FF9800' }}></div>
-                    <span>⬅️ LEFT</span>
-                  </div>
-                  <div className="legend-item">
-                    <div className="legend-color" style={{ backgroundColor: '#2196F3' }}></div>
-                    <span>⬆️ FRONT</span>
-                  </div>
-                  <div className="legend-item">
-                    <div className="legend-color" style={{ backgroundColor: '#4CAF50' }}></div>
-                    <span>➡️ RIGHT</span>
-                  </div>
+                  {zoneLayout.zones.map(zone => (
+                    <div key={zone.id} className="legend-item">
+                      <div className="legend-color" style={{ backgroundColor: zone.color }}></div>
+                      <span>{zone.icon} {i18n.zone(zone).toLocaleUpperCase(locale)}</span>
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
 
-            {/* Navigation Instructions for Blind Person */}
-            {navigationInstructions && (
-              <div className={`navigation-panel priority-${navigationInstructions.priority}`}>
-                <div className="navigation-header">
-                  <span className="nav-icon">{getNavigationIcon(navigationInstructions.direction)}</span>
-                  <h3>Navigation Instruction</h3>
-                </div>
-                <div className="navigation-content">
-                  <div className="nav-message">{navigationInstructions.message}</div>
-                  <div className="nav-reason">{navigationInstructions.reason}</div>
-                  <div className="nav-action">
-                    <strong>Action:</strong> {navigationInstructions.direction.toUpperCase()}
-                  </div>
-                </div>
+            {guidanceStale && autoProcess && (
+              <div className="stale-guidance" role="alert">
+                ⚠️ {t('stale.banner', { seconds: autoProcessSettings.staleAfterMs / 1000 })}
               </div>
             )}
 
+            {/* Navigation Instructions for Blind Person */}
+            {navigationInstructions && <NavigationPanel instruction={navigationInstructions} i18n={i18n} />}
+
             {/* Annotated Image with Bounding Boxes */}
             {annotatedImage ? (
               <div className="annotated-image-section">
-                <h3>📦 Processed Image with Bounding Boxes</h3>
+                <h3>📦 {t('annotated.title')}</h3>
                 <img
                   src={annotatedImage}
-                  alt="Annotated"
+                  alt={t('annotated.alt')}
                   className="annotated-image"
-                  onError={(e) => {
+                  onError={() => {
                     console.error('Failed to load annotated image');
                     setAnnotatedImage(null);
-                    setError('Failed to load annotated image');
+                    setError(t('error.annotatedLoad'));
                   }}
                 />
                 <button
@@ -732,17 +1427,17 @@ const App: React.FC = () => {
                     link.click();
                   }}
                 >
-                  💾 Download Image
+                  💾 {t('annotated.download')}
                 </button>
               </div>
             ) : result ? (
               <div className="annotated-image-section">
-                <h3>📦 Processed Image with Bounding Boxes</h3>
+                <h3>📦 {t('annotated.title')}</h3>
                 <div className="image-status">
-                  <p>ℹ️ No annotated image available</p>
-                  <p className="hint">Make sure your backend returns 'annotated_image_base64' in the response</p>
+                  <p>ℹ️ {t('annotated.missing')}</p>
+                  <p className="hint">{t('annotated.missingHint')}</p>
                   <details style={{ marginTop: '10px', cursor: 'pointer' }}>
-                    <summary style={{ fontWeight: 'bold', color: '#667eea' }}>Show Debug Info</summary>
+                    <summary style={{ fontWeight: 'bold', color: '#667eea' }}>{t('annotated.debug')}</summary>
                     <pre style={{
                       background: '#f5f5f5',
                       padding: '10px',
@@ -759,126 +1454,167 @@ const App: React.FC = () => {
             ) : null}
 
             {error && (
-              <div className="error-message">
+              <div className="error-message" role="alert">
                 ⚠️ {error}
               </div>
             )}
           </div>
 
           <div className="panel control-panel">
-            <h2>🎛️ Processing Options</h2>
+            <h2>🎛️ {t('controls.title')}</h2>
 
-            <div className="mode-selection">
-              <h3>Select Processing Mode:</h3>
+            <div className="mode-selection" role="radiogroup" aria-labelledby="mode-selection-title">
+              <h3 id="mode-selection-title">{t('controls.selectMode')}</h3>
 
-              {(['basic', 'gpt2-mini', 'gpt2', 'gpt2-mini-fusion', 'gpt2-fusion'] as ProcessingMode[]).map((mode) => {
+              {modeCapabilities.map(({ id: mode }) => {
                 const info = getModeInfo(mode);
                 return (
                   <div
                     key={mode}
-                    className={`mode-card ${selectedMode === mode ? 'selected' : ''}`}
-                    onClick={() => setSelectedMode(mode)}
+                    ref={(el) => { modeCardRefs.current[mode] = el; }}
+                    role="radio"
+                    aria-checked={selectedMode === mode}
+                    aria-disabled={!info.available}
+                    // Roving tabindex: Tab reaches the group once, arrows move within it
+                    tabIndex={selectedMode === mode ? 0 : -1}
+                    className={`mode-card ${selectedMode === mode ? 'selected' : ''} ${info.available ? '' : 'unavailable'}`}
+                    onClick={() => info.available && selectMode(mode)}
+                    onKeyDown={(e) => handleModeKeyDown(e, mode)}
                   >
                     <div className="mode-header">
                       <span className="mode-icon">{info.icon}</span>
                       <span className="mode-name">{info.name}</span>
+                      {info.fusion && <span className="mode-badge">{t('mode.fusion')}</span>}
                     </div>
                     <div className="mode-description">{info.description}</div>
-                    <div className="mode-time">{info.time}</div>
+                    {info.available ? (
+                      <div className={`mode-time ${info.measured ? 'measured' : ''}`}>{info.time}</div>
+                    ) : (
+                      <div className="mode-unavailable">
+                        {info.unavailableReason ? t('mode.unavailableReason', { reason: info.unavailableReason }) : t('mode.unavailable')}
+                      </div>
+                    )}
                   </div>
                 );
               })}
+
+              {!modesFromServer && serverStatus === 'online' && (
+                <p className="mode-source">{t('mode.builtInOnly')}</p>
+              )}
             </div>
 
+            <SeekPanel
+              target={seekTarget}
+              onTargetChange={changeSeekTarget}
+              settings={seekSettings}
+              onChange={(settings) => {
+                setSeekSettings(settings);
+                seekerRef.current.updateSettings(settings);
+              }}
+              seenLabels={result?.detected_objects?.map(obj => obj.label) ?? []}
+              i18n={i18n}
+            />
+
             <button
-              onClick={processFrame}
+              onClick={() => processFrame()}
               disabled={!isCameraRunning || isProcessing || autoProcess}
               className="btn btn-process"
+              aria-keyshortcuts={hotkeyLabel('process')}
+            >
+              {isProcessing ? `⏳ ${t('process.processing')}` : autoProcess ? `🔄 ${t('process.auto')}` : `🚀 ${t('process.frame')}`}
+            </button>
+
+            {autoProcess && isCameraRunning && autoProcessStatus && (
+              <p className="auto-process-status">
+                {t('process.nextFrame', {
+                  seconds: autoProcessStatus.delayMs / 1000,
+                  reason: t(`cadence.${autoProcessStatus.reason}`),
+                })}
+                {autoProcessStatus.latencyMs !== null && ` · ${t('process.lastTook', { latency: formatLatency(autoProcessStatus.latencyMs) })}`}
+                {autoProcessStatus.fallbackMode && (
+                  <strong> · {t('process.fallback', { mode: getModeInfo(autoProcessStatus.fallbackMode).name })}</strong>
+                )}
+              </p>
+            )}
+
+            <button
+              type="button"
+              onClick={() => lastFrameRef.current && addToDataset(lastFrameRef.current.image, lastFrameRef.current, 'live')}
+              disabled={!result}
+              className="btn btn-secondary btn-dataset"
+            >
+              ➕ {t('dataset.add')}
+            </button>
+
+            <button
+              type="button"
+              onClick={describeScene}
+              disabled={!result}
+              className="btn btn-secondary btn-describe"
+              aria-keyshortcuts={hotkeyLabel('describe')}
             >
-              {isProcessing ? '⏳ Processing...' : autoProcess ? '🔄 Auto-Processing' : '🚀 Process Frame'}
+              🗣️ {t('scene.describe')}
             </button>
 
             {/* Spatial Guidance Panel */}
-            {result && result.guidance && (
-              <div className="guidance-panel">
-                <h3>🧭 Spatial Guidance</h3>
-                <div className="guidance-zones">
-                  {(() => {
-                    const zones = parseGuidance(result.guidance);
-                    return (
-                      <>
-                        <div className="zone-card left-zone">
-                          <div className="zone-header">
-                            <span className="zone-icon">⬅️</span>
-                            <span className="zone-title">LEFT</span>
-                          </div>
-                          <div className="zone-content">
-                            {zones.left.length > 0 ? (
-                              zones.left.map((item, idx) => (
-                                <div key={idx} className="zone-item">{item}</div>
-                              ))
-                            ) : (
-                              <div className="zone-empty">Clear</div>
-                            )}
-                          </div>
-                        </div>
-
-                        <div className="zone-card front-zone">
-                          <div className="zone-header">
-                            <span className="zone-icon">⬆️</span>
-                            <span className="zone-title">FRONT</span>
-                          </div>
-                          <div className="zone-content">
-                            {zones.front.length > 0 ? (
-                              zones.front.map((item, idx) => (
-                                <div key={idx} className="zone-item">{item}</div>
-                              ))
-                            ) : (
-                              <div className="zone-empty">Clear</div>
-                            )}
-                          </div>
-                        </div>
-
-                        <div className="zone-card right-zone">
-                          <div className="zone-header">
-                            <span className="zone-icon">➡️</span>
-                            <span className="zone-title">RIGHT</span>
-                          </div>
-                          <div className="zone-content">
-                            {zones.right.length > 0 ? (
-                              zones.right.map((item, idx) => (
-                                <div key={idx} className="zone-item">{item}</div>
-                              ))
-                            ) : (
-                              <div className="zone-empty">Clear</div>
-                            )}
-                          </div>
-                        </div>
-                      </>
-                    );
-                  })()}
-                </div>
-                <p className="guidance-text">{result.guidance}</p>
-              </div>
+            {result && (result.guidance || result.guidance_zones) && (
+              <GuidancePanel guidance={result.guidance} zones={result.guidance_zones} layout={zoneLayout} i18n={i18n} />
             )}
 
             {result && (
               <div className="results">
-                <h3>📊 Results</h3>
+                <h3>📊 {t('results.title')}</h3>
 
                 <div className="result-section">
-                  <h4>Caption:</h4>
+                  <h4>{t('results.caption')}</h4>
                   <p className="caption">{result.caption}</p>
                 </div>
 
+                {sceneEvents.length > 0 && (
+                  <div className="result-section">
+                    <h4>{t('scene.log')}</h4>
+                    <ol className="scene-log">
+                      {sceneEvents.map((event, idx) => (
+                        <li key={`${event.timestamp}-${idx}`} className={`scene-event scene-${event.kind}`}>
+                          <time dateTime={new Date(event.timestamp).toISOString()}>
+                            {new Date(event.timestamp).toLocaleTimeString(i18n.locale)}
+                          </time>
+                          <span>{event.message}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
                 <div className="result-section">
-                  <h4>Detected Objects ({result.detected_objects.length}):</h4>
+                  <h4>{t('results.objects', { count: result.detected_objects.length })}</h4>
                   <div className="objects-list">
                     {result.detected_objects.map((obj, idx) => (
                       <div key={idx} className="object-item">
-                        <span className="object-label">{obj.label}</span>
+                        <span className="object-label">
+                          {tracks[idx] && <span className="object-track">#{tracks[idx].id}</span>}
+                          {i18n.label(obj.label)}
+                          {describeMotion(tracks[idx]) && (
+                            <span className={`object-motion motion-${tracks[idx].motion}`}>
+                              {describeMotion(tracks[idx], i18n)}
+                            </span>
+                          )}
+                        </span>
                         <span className="object-confidence">
                           {(obj.confidence * 100).toFixed(0)}%
+                          {(() => {
+                            const frame = getFrameMetrics();
+                            const proximity = estimateProximity(
+                              obj,
+                              { width: frame?.naturalWidth || 640, height: frame?.naturalHeight || 480 },
+                              proximitySettings
+                            );
+                            return (
+                              <span className={`object-distance band-${proximity.band}`}>
+                                {formatDistance(proximity)}
+                              </span>
+                            );
+                          })()}
                         </span>
                       </div>
                     ))}
@@ -887,25 +1623,25 @@ const App: React.FC = () => {
 
                 {result.llm_description && (
                   <div className="result-section">
-                    <h4>AI Description:</h4>
+                    <h4>{t('results.description')}</h4>
                     <p className="description">{result.llm_description}</p>
                   </div>
                 )}
 
                 {result.attention_stats && (
                   <div className="result-section">
-                    <h4>Attention Statistics:</h4>
+                    <h4>{t('results.attention')}</h4>
                     <div className="stats">
                       <div className="stat-item">
-                        <span>Mean:</span>
+                        <span>{t('results.mean')}</span>
                         <span>{result.attention_stats.mean.toFixed(4)}</span>
                       </div>
                       <div className="stat-item">
-                        <span>Max:</span>
+                        <span>{t('results.max')}</span>
                         <span>{result.attention_stats.max.toFixed(4)}</span>
                       </div>
                       <div className="stat-item">
-                        <span>Std:</span>
+                        <span>{t('results.std')}</span>
                         <span>{result.attention_stats.std.toFixed(4)}</span>
                       </div>
                     </div>
@@ -913,8 +1649,8 @@ const App: React.FC = () => {
                 )}
 
                 <div className="result-meta">
-                  <span>Model: {result.model_used}</span>
-                  <span>Fusion: {result.fusion_enabled ? '✅' : '❌'}</span>
+                  <span>{t('results.model', { model: result.model_used })}</span>
+                  <span>{t('results.fusion')} {result.fusion_enabled ? '✅' : '❌'}</span>
                 </div>
               </div>
             )}
@@ -0,0 +1,60 @@
+export type HotkeyAction =
+  | 'toggle-camera'
+  | 'process'
+  | 'toggle-auto'
+  | 'repeat'
+  | 'describe'
+  | 'next-mode'
+  | 'previous-mode'
+  | 'next-profile'
+  | 'help';
+
+/** A shortcut; the help overlay describes it with the `hotkey.<action>` message. */
+export interface Hotkey {
+  action: HotkeyAction;
+  /** `KeyboardEvent.key` values that trigger the action. */
+  keys: string[];
+  /** How the key is shown in the help overlay and `aria-keyshortcuts`. */
+  label: string;
+}
+
+export const HOTKEYS: Hotkey[] = [
+  { action: 'toggle-camera', keys: ['c', 'C'], label: 'C' },
+  { action: 'process', keys: ['p', 'P'], label: 'P' },
+  { action: 'toggle-auto', keys: ['a', 'A'], label: 'A' },
+  { action: 'repeat', keys: ['r', 'R'], label: 'R' },
+  { action: 'describe', keys: ['d', 'D'], label: 'D' },
+  { action: 'next-mode', keys: ['m'], label: 'M' },
+  { action: 'previous-mode', keys: ['M'], label: 'Shift+M' },
+  { action: 'next-profile', keys: ['u', 'U'], label: 'U' },
+  { action: 'help', keys: ['?', 'h', 'H'], label: '?' },
+];
+
+export const hotkeyLabel = (action: HotkeyAction) => HOTKEYS.find(hotkey => hotkey.action === action)?.label ?? '';
+
+// Input types that take typed characters; checkboxes, radios, ranges and buttons don't
+const TEXT_INPUT_TYPES = ['text', 'search', 'number', 'email', 'url', 'password', 'tel', 'date', 'time', 'datetime-local', 'month', 'week'];
+
+// Keys typed into these should never trigger shortcuts. A select takes letters to jump between options.
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (
+    target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(target.type))
+  );
+
+const isModalOpen = () => typeof document !== 'undefined' && document.querySelector('[aria-modal="true"]') !== null;
+
+/**
+ * Maps a keydown to an app action. Single keys without Ctrl/Alt/Meta, so
+ * browser and screen-reader shortcuts keep working. Nothing fires while a
+ * text field has focus, and only the help key (to close it) while a modal
+ * dialog is open.
+ */
+export const matchHotkey = (event: KeyboardEvent): HotkeyAction | null => {
+  if (event.ctrlKey || event.altKey || event.metaKey || event.repeat) return null;
+  if (isTextEntry(event.target)) return null;
+  const action = HOTKEYS.find(hotkey => hotkey.keys.includes(event.key))?.action ?? null;
+  return action !== 'help' && isModalOpen() ? null : action;
+};
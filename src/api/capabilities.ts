@@ -0,0 +1,52 @@
+import type { BuiltInProcessingMode, ModeCapability, ProcessingMode } from '../types';
+import type { ApiClient } from './client';
+
+/**
+ * The modes every backend build ships with. Used as-is when the server has no
+ * `/capabilities` endpoint, and to fill in fields a server leaves out.
+ * Latencies are rough guesses for a CPU-only server.
+ */
+export const BUILT_IN_MODES: (ModeCapability & { id: BuiltInProcessingMode })[] = [
+  { id: 'basic', name: 'Basic', icon: '⚡', description: 'Fast detection only', fusion: false, expectedLatencyMs: 1000, available: true, annotate: true },
+  { id: 'gpt2-mini', name: 'GPT-2 Mini', icon: '🏃', description: 'Fast + good quality', fusion: false, expectedLatencyMs: 2500, available: true, annotate: true },
+  { id: 'gpt2', name: 'GPT-2', icon: '🤖', description: 'Detailed descriptions', fusion: false, expectedLatencyMs: 4000, available: true, annotate: true },
+  { id: 'gpt2-mini-fusion', name: 'GPT-2 Mini + Fusion', icon: '⭐', description: 'Best balance', fusion: true, expectedLatencyMs: 5000, available: true, annotate: true },
+  { id: 'gpt2-fusion', name: 'GPT-2 + Fusion', icon: '✨', description: 'Highest quality', fusion: true, expectedLatencyMs: 6500, available: true, annotate: true },
+];
+
+/** Icon for modes the frontend has never heard of. */
+export const DEFAULT_MODE_ICON = '🧩';
+
+export const findBuiltInMode = (id: ProcessingMode): ModeCapability | undefined =>
+  BUILT_IN_MODES.find(mode => mode.id === id);
+
+export const isBuiltInMode = (id: ProcessingMode): id is BuiltInProcessingMode =>
+  BUILT_IN_MODES.some(mode => mode.id === id);
+
+/** Looks a mode up in `modes`, then among the built-ins, then describes it by its id alone. */
+export const describeMode = (modes: ModeCapability[], id: ProcessingMode): ModeCapability =>
+  modes.find(mode => mode.id === id) ?? findBuiltInMode(id) ?? {
+    id,
+    name: id,
+    icon: DEFAULT_MODE_ICON,
+    description: '',
+    fusion: false,
+    available: false,
+    annotate: true,
+  };
+
+/**
+ * The modes to offer: the server's own list, or the built-in one when the
+ * server has no `/capabilities` endpoint, lists nothing or fails to answer.
+ */
+export const loadModeCapabilities = async (
+  client: Pick<ApiClient, 'getCapabilities'>
+): Promise<{ modes: ModeCapability[]; fromServer: boolean }> => {
+  try {
+    const advertised = await client.getCapabilities();
+    if (advertised && advertised.length > 0) return { modes: advertised, fromServer: true };
+  } catch (err) {
+    console.warn('Could not load server capabilities, using built-in modes:', err);
+  }
+  return { modes: BUILT_IN_MODES, fromServer: false };
+};
@@ -0,0 +1,220 @@
+import { getApiBaseUrl, getMockScenarioName } from '../config';
+import { createMockFetch, resolveMockScenario } from '../mock/server';
+import type { ModeCapability, ProcessingMode, ProcessingResult } from '../types';
+import { isRecord, parseCapabilities, parseProcessingResult } from './validation';
+
+export class ApiError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export interface ProcessOptions {
+  annotate?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ProcessResponse {
+  result: ProcessingResult;
+  /** Annotated frame as a data URL, or null when the server sent none. */
+  annotatedImage: string | null;
+}
+
+type FetchFn = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface ApiClientOptions {
+  /** Whether the server can push frames over `/camera/ws`. */
+  websocket?: boolean;
+}
+
+const ANNOTATED_IMAGE_KEYS = ['annotated_image_base64', 'annotated_image'] as const;
+
+const toDataUrl = (image: string): string => {
+  const trimmed = image.trim();
+  return trimmed.startsWith('data:image') ? trimmed : `data:image/jpeg;base64,${trimmed}`;
+};
+
+const findAnnotatedImage = (...sources: Record<string, unknown>[]): string | null => {
+  for (const source of sources) {
+    for (const key of ANNOTATED_IMAGE_KEYS) {
+      const value = source[key];
+      if (typeof value === 'string' && value.trim()) return toDataUrl(value);
+    }
+  }
+  return null;
+};
+
+const readErrorMessage = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const body: unknown = await response.json();
+    if (isRecord(body)) {
+      const message = body.detail ?? body.error ?? body.message;
+      if (typeof message === 'string' && message) return message;
+    }
+  } catch {
+    // Non-JSON error body; use the fallback below.
+  }
+  return `${fallback} (HTTP ${response.status})`;
+};
+
+/**
+ * Thin typed wrapper over the vision backend's HTTP API. All response bodies
+ * are validated before they reach the UI.
+ */
+export class ApiClient {
+  readonly baseUrl: string;
+  private readonly fetchFn: FetchFn;
+  private readonly websocket: boolean;
+
+  constructor(
+    baseUrl: string = getApiBaseUrl(),
+    fetchFn: FetchFn = (input, init) => fetch(input, init),
+    { websocket = true }: ApiClientOptions = {}
+  ) {
+    this.baseUrl = baseUrl;
+    this.fetchFn = fetchFn;
+    this.websocket = websocket;
+  }
+
+  private async request(path: string, init?: RequestInit): Promise<Response> {
+    try {
+      return await this.fetchFn(`${this.baseUrl}${path}`, init);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') throw err;
+      throw new ApiError(`Cannot reach server at ${this.baseUrl}`);
+    }
+  }
+
+  async ping(signal?: AbortSignal): Promise<void> {
+    const response = await this.request('/', { method: 'GET', signal });
+    if (!response.ok) {
+      throw new ApiError('Server returned error', response.status);
+    }
+  }
+
+  /**
+   * Modes the server offers, or null when it predates the `/capabilities`
+   * endpoint and the built-in list applies.
+   */
+  async getCapabilities(signal?: AbortSignal): Promise<ModeCapability[] | null> {
+    const response = await this.request('/capabilities', { signal });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new ApiError(await readErrorMessage(response, 'Failed to load capabilities'), response.status);
+    }
+
+    // Accept the same `{ status, data }` envelope as processing results
+    const body: unknown = await response.json();
+    return isRecord(body) && isRecord(body.data)
+      ? parseCapabilities(body.data, 'response.data')
+      : parseCapabilities(body, 'response');
+  }
+
+  async startCamera(cameraIndex: number): Promise<void> {
+    const response = await this.request(`/camera/start?camera_index=${cameraIndex}`, { method: 'POST' });
+    if (!response.ok) {
+      throw new ApiError(await readErrorMessage(response, 'Failed to start camera'), response.status);
+    }
+  }
+
+  async stopCamera(): Promise<void> {
+    const response = await this.request('/camera/stop', { method: 'POST' });
+    if (!response.ok) {
+      throw new ApiError(await readErrorMessage(response, 'Failed to stop camera'), response.status);
+    }
+  }
+
+  async getFrame(signal?: AbortSignal): Promise<Blob> {
+    const response = await this.request('/camera/frame', { signal });
+    if (!response.ok) {
+      throw new ApiError('Failed to fetch frame', response.status);
+    }
+    return response.blob();
+  }
+
+  /** Opens the server's MJPEG stream; the caller reads the multipart body. */
+  async openFrameStream(signal?: AbortSignal): Promise<Response> {
+    const response = await this.request('/camera/stream', { signal });
+    if (!response.ok) {
+      throw new ApiError('Frame stream unavailable', response.status);
+    }
+    return response;
+  }
+
+  /** WebSocket URL the server pushes frames on, or null when unsupported. */
+  frameSocketUrl(): string | null {
+    if (!this.websocket) return null;
+    const url = new URL(`${this.baseUrl}/camera/ws`, window.location.href);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    return url.toString();
+  }
+
+  async processCamera(mode: ProcessingMode, { annotate = true, signal }: ProcessOptions = {}): Promise<ProcessResponse> {
+    const response = await this.request(
+      `/process_camera/${encodeURIComponent(mode)}?annotate=${annotate}`,
+      { method: 'POST', signal }
+    );
+    if (!response.ok) {
+      throw new ApiError(await readErrorMessage(response, 'Processing failed'), response.status);
+    }
+
+    const body: unknown = await response.json();
+    return parseProcessResponse(body);
+  }
+
+  /** Runs the pipeline on a frame captured by the browser instead of the server camera. */
+  async processImage(mode: ProcessingMode, image: Blob, { annotate = true, signal }: ProcessOptions = {}): Promise<ProcessResponse> {
+    const form = new FormData();
+    form.append('file', image, 'frame.jpg');
+
+    const response = await this.request(
+      `/process/${encodeURIComponent(mode)}?annotate=${annotate}`,
+      { method: 'POST', body: form, signal }
+    );
+    if (!response.ok) {
+      throw new ApiError(await readErrorMessage(response, 'Processing failed'), response.status);
+    }
+
+    const body: unknown = await response.json();
+    return parseProcessResponse(body);
+  }
+}
+
+/**
+ * The backend wraps results as `{ status, data, annotated_image_base64 }`;
+ * older builds return the result fields flat. Both are accepted.
+ */
+export const parseProcessResponse = (body: unknown): ProcessResponse => {
+  if (!isRecord(body)) {
+    return { result: parseProcessingResult(body, 'response'), annotatedImage: null };
+  }
+  if (body.status === 'error') {
+    const message = body.detail ?? body.error;
+    throw new ApiError(typeof message === 'string' ? message : 'Processing failed');
+  }
+
+  const envelope = isRecord(body.data) ? body.data : null;
+  const result = envelope
+    ? parseProcessingResult(envelope, 'response.data')
+    : parseProcessingResult(body, 'response');
+
+  return {
+    result,
+    annotatedImage: envelope ? findAnnotatedImage(body, envelope) : findAnnotatedImage(body),
+  };
+};
+
+const mockScenarioName = getMockScenarioName();
+
+/** Name of the active mock scenario, or null when talking to a real server. */
+export const activeMockScenario = mockScenarioName ? resolveMockScenario(mockScenarioName).name : null;
+
+export const apiClient = new ApiClient(
+  getApiBaseUrl(),
+  activeMockScenario ? createMockFetch(resolveMockScenario(activeMockScenario)) : undefined,
+  { websocket: !activeMockScenario }
+);
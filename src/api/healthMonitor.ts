@@ -0,0 +1,107 @@
+import type { ApiClient } from './client';
+import { ApiError } from './client';
+
+/**
+ * `offline` until the server has answered once this session; a server lost
+ * after that is `reconnecting`, so the UI keeps the user's camera and
+ * settings in place while it waits.
+ */
+export type ServerStatus = 'checking' | 'online' | 'reconnecting' | 'offline';
+
+export interface ServerHealth {
+  status: ServerStatus;
+  /** Round trip of the last successful heartbeat, in ms. */
+  latencyMs: number | null;
+  /** Heartbeats failed in a row. */
+  failures: number;
+  /** Wait before the next attempt while the server is unreachable, in ms. */
+  retryInMs: number | null;
+  /** Why the last heartbeat failed. */
+  error: string | null;
+}
+
+export const INITIAL_SERVER_HEALTH: ServerHealth = {
+  status: 'checking',
+  latencyMs: null,
+  failures: 0,
+  retryInMs: null,
+  error: null,
+};
+
+const HEARTBEAT_INTERVAL_MS = 5000;
+// A server slower than this to answer `/` is treated as down
+const HEARTBEAT_TIMEOUT_MS = 4000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+/** 1 s, 2 s, 4 s, … up to 30 s between reconnect attempts. */
+export const reconnectDelay = (failures: number) =>
+  Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** Math.max(0, failures - 1));
+
+/**
+ * Pings the server every few seconds while it is up, and with exponential
+ * backoff while it is down. Reports every heartbeat, with the previous
+ * health so callers can react to transitions.
+ */
+export class HealthMonitor {
+  private readonly client: Pick<ApiClient, 'ping'>;
+  private readonly onChange: (health: ServerHealth, previous: ServerHealth) => void;
+  private health: ServerHealth = INITIAL_SERVER_HEALTH;
+  private everOnline = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on every start/stop so a heartbeat settling late is ignored
+  private session = 0;
+
+  constructor(
+    client: Pick<ApiClient, 'ping'>,
+    onChange: (health: ServerHealth, previous: ServerHealth) => void
+  ) {
+    this.client = client;
+    this.onChange = onChange;
+  }
+
+  /** Checks right away, then keeps checking; also the manual "retry now". */
+  start() {
+    this.stop();
+    void this.beat(this.session);
+  }
+
+  stop() {
+    this.session++;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private async beat(session: number) {
+    this.timer = null;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), HEARTBEAT_TIMEOUT_MS);
+    const startedAt = performance.now();
+
+    let next: ServerHealth;
+    try {
+      await this.client.ping(controller.signal);
+      next = { status: 'online', latencyMs: performance.now() - startedAt, failures: 0, retryInMs: null, error: null };
+    } catch (err) {
+      const failures = this.health.failures + 1;
+      next = {
+        status: this.everOnline ? 'reconnecting' : 'offline',
+        latencyMs: null,
+        failures,
+        retryInMs: reconnectDelay(failures),
+        error: err instanceof ApiError && err.status
+          ? 'Server returned error'
+          : controller.signal.aborted ? 'Server did not answer in time' : 'Cannot connect to server',
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+    if (session !== this.session) return;
+
+    this.everOnline ||= next.status === 'online';
+    const previous = this.health;
+    this.health = next;
+    this.onChange(next, previous);
+    this.timer = setTimeout(() => this.beat(session), next.retryInMs ?? HEARTBEAT_INTERVAL_MS);
+  }
+}
@@ -0,0 +1,161 @@
+import type {
+  AttentionStats,
+  DetectedObject,
+  ModeCapability,
+  ProcessingResult,
+  ZoneGuidance,
+  ZoneGuidanceObject,
+} from '../types';
+import { DEFAULT_MODE_ICON, findBuiltInMode } from './capabilities';
+
+export class ResponseValidationError extends Error {
+  readonly path: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    super(`${path}: expected ${expected}, got ${describe(value)}`);
+    this.name = 'ResponseValidationError';
+    this.path = path;
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const expectRecord = (value: unknown, path: string): Record<string, unknown> => {
+  if (!isRecord(value)) throw new ResponseValidationError(path, 'object', value);
+  return value;
+};
+
+export const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') throw new ResponseValidationError(path, 'string', value);
+  return value;
+};
+
+export const expectNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ResponseValidationError(path, 'number', value);
+  }
+  return value;
+};
+
+export const expectBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') throw new ResponseValidationError(path, 'boolean', value);
+  return value;
+};
+
+export const optional = <T>(value: unknown, path: string, parse: (v: unknown, p: string) => T): T | undefined =>
+  value === undefined || value === null ? undefined : parse(value, path);
+
+export const parseDetectedObject = (value: unknown, path: string): DetectedObject => {
+  const obj = expectRecord(value, path);
+  const box = obj.bounding_box;
+  if (!Array.isArray(box) || box.length !== 4) {
+    throw new ResponseValidationError(`${path}.bounding_box`, '[x1, y1, x2, y2]', box);
+  }
+
+  return {
+    label: expectString(obj.label, `${path}.label`),
+    confidence: expectNumber(obj.confidence, `${path}.confidence`),
+    bounding_box: [
+      expectNumber(box[0], `${path}.bounding_box[0]`),
+      expectNumber(box[1], `${path}.bounding_box[1]`),
+      expectNumber(box[2], `${path}.bounding_box[2]`),
+      expectNumber(box[3], `${path}.bounding_box[3]`),
+    ],
+  };
+};
+
+const parseAttentionStats = (value: unknown, path: string): AttentionStats => {
+  const stats = expectRecord(value, path);
+  return {
+    mean: expectNumber(stats.mean, `${path}.mean`),
+    max: expectNumber(stats.max, `${path}.max`),
+    std: expectNumber(stats.std, `${path}.std`),
+  };
+};
+
+const parseZoneGuidanceObject = (value: unknown, path: string): ZoneGuidanceObject => {
+  const obj = expectRecord(value, path);
+  return {
+    label: expectString(obj.label, `${path}.label`),
+    count: expectNumber(obj.count ?? 1, `${path}.count`),
+    confidence: optional(obj.confidence, `${path}.confidence`, expectNumber),
+    hazard: expectBoolean(obj.hazard ?? false, `${path}.hazard`),
+  };
+};
+
+const parseZoneGuidance = (value: unknown, path: string): ZoneGuidance[] => {
+  if (!Array.isArray(value)) throw new ResponseValidationError(path, 'array', value);
+  return value.map((entry, idx) => {
+    const zone = expectRecord(entry, `${path}[${idx}]`);
+    const objects = zone.objects;
+    if (!Array.isArray(objects)) {
+      throw new ResponseValidationError(`${path}[${idx}].objects`, 'array', objects);
+    }
+    return {
+      zone: expectString(zone.zone, `${path}[${idx}].zone`),
+      objects: objects.map((obj, objIdx) => parseZoneGuidanceObject(obj, `${path}[${idx}].objects[${objIdx}]`)),
+    };
+  });
+};
+
+/**
+ * Checks a backend payload against the ProcessingResult shape and returns a
+ * copy holding only the known fields. Throws ResponseValidationError naming
+ * the first offending field.
+ */
+export const parseProcessingResult = (value: unknown, path = 'result'): ProcessingResult => {
+  const data = expectRecord(value, path);
+  const objects = data.detected_objects;
+  if (!Array.isArray(objects)) {
+    throw new ResponseValidationError(`${path}.detected_objects`, 'array', objects);
+  }
+
+  return {
+    caption: expectString(data.caption, `${path}.caption`),
+    detected_objects: objects.map((obj, idx) => parseDetectedObject(obj, `${path}.detected_objects[${idx}]`)),
+    guidance: expectString(data.guidance ?? '', `${path}.guidance`),
+    guidance_zones: optional(data.guidance_zones, `${path}.guidance_zones`, parseZoneGuidance),
+    model_used: expectString(data.model_used ?? '', `${path}.model_used`),
+    fusion_enabled: expectBoolean(data.fusion_enabled ?? false, `${path}.fusion_enabled`),
+    llm_description: optional(data.llm_description, `${path}.llm_description`, expectString),
+    attention_stats: optional(data.attention_stats, `${path}.attention_stats`, parseAttentionStats),
+  };
+};
+
+/**
+ * Checks one `/capabilities` mode entry. Only `id` is required; missing
+ * display fields come from the built-in mode of the same id.
+ */
+export const parseModeCapability = (value: unknown, path: string): ModeCapability => {
+  const mode = expectRecord(value, path);
+  const id = expectString(mode.id, `${path}.id`);
+  const known = findBuiltInMode(id);
+  const options = optional(mode.options, `${path}.options`, expectRecord) ?? {};
+
+  return {
+    id,
+    name: optional(mode.name, `${path}.name`, expectString) ?? known?.name ?? id,
+    icon: optional(mode.icon, `${path}.icon`, expectString) ?? known?.icon ?? DEFAULT_MODE_ICON,
+    description: optional(mode.description, `${path}.description`, expectString) ?? known?.description ?? '',
+    fusion: optional(mode.fusion, `${path}.fusion`, expectBoolean) ?? known?.fusion ?? false,
+    expectedLatencyMs: optional(mode.expected_latency_ms, `${path}.expected_latency_ms`, expectNumber) ?? known?.expectedLatencyMs,
+    available: optional(mode.available, `${path}.available`, expectBoolean) ?? true,
+    unavailableReason: optional(mode.unavailable_reason, `${path}.unavailable_reason`, expectString),
+    annotate: optional(options.annotate, `${path}.options.annotate`, expectBoolean) ?? true,
+  };
+};
+
+export const parseCapabilities = (value: unknown, path = 'capabilities'): ModeCapability[] => {
+  const data = expectRecord(value, path);
+  if (!Array.isArray(data.modes)) {
+    throw new ResponseValidationError(`${path}.modes`, 'array', data.modes);
+  }
+  return data.modes.map((mode, idx) => parseModeCapability(mode, `${path}.modes[${idx}]`));
+};
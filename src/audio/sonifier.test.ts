@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { DetectedObject } from '../types';
+import { planSonification } from './sonifier';
+
+const frame = { width: 640, height: 480 };
+
+// Mirrored default layout: image x 280–360 is the front zone, 480–560 the user's left
+const detect = (label: string, [x1, x2]: [number, number], [y1, y2]: [number, number] = [140, 340]): DetectedObject => ({
+  label,
+  confidence: 0.9,
+  bounding_box: [x1, y1, x2, y2],
+});
+
+describe('planSonification', () => {
+  it('is silent when nothing is detected', () => {
+    expect(planSonification({ objects: [], frame })).toEqual([]);
+  });
+
+  it('is silent for a scene of non-hazards', () => {
+    expect(planSonification({ objects: [detect('cup', [280, 360]), detect('book', [480, 560])], frame })).toEqual([]);
+  });
+
+  it('is silent for hazards in a band weighted zero', () => {
+    expect(planSonification({ objects: [detect('person', [280, 360], [190, 290])], frame })).toEqual([]);
+  });
+
+  it('gives one cue per zone for its most significant hazard', () => {
+    const cues = planSonification({
+      objects: [detect('cup', [280, 360]), detect('person', [290, 350]), detect('car', [480, 560])],
+      frame,
+    });
+    expect(cues.map(({ zoneId, timbre }) => ({ zoneId, timbre }))).toEqual([
+      { zoneId: 'left', timbre: 'sawtooth' },
+      { zoneId: 'front', timbre: 'square' },
+    ]);
+    expect(cues[0].pan).toBeLessThan(0);
+  });
+});
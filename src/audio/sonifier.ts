@@ -0,0 +1,227 @@
+import type { NavigationInput } from '../navigation/engine';
+import { DEFAULT_PROXIMITY_SETTINGS, estimateProximity } from '../navigation/proximity';
+import type { ProximityEstimate, ProximitySettings } from '../navigation/proximity';
+import { DEFAULT_NAVIGATION_RULES, hazardSeverity, hazardWeight } from '../navigation/rules';
+import type { NavigationRules } from '../navigation/rules';
+import { DEFAULT_ZONE_LAYOUT, groupByZone } from '../navigation/zones';
+
+export interface SonificationSettings {
+  enabled: boolean;
+  /** Play tones instead of speaking navigation guidance (status messages are still spoken). */
+  replaceSpeech: boolean;
+  /** Master volume, 0–1. */
+  volume: number;
+}
+
+export const DEFAULT_SONIFICATION_SETTINGS: SonificationSettings = {
+  enabled: false,
+  replaceSpeech: false,
+  volume: 0.5,
+};
+
+/** One pulsing tone, standing for the most significant obstacle in a zone. */
+export interface SonificationCue {
+  zoneId: string;
+  /** Stereo position, -1 (user's left) to 1 (user's right). */
+  pan: number;
+  frequency: number;
+  /** Time between pulses; shorter when closer. */
+  pulseIntervalMs: number;
+  /** Sawtooth for high-severity hazards, square for the others. */
+  timbre: OscillatorType;
+}
+
+const MIN_FREQUENCY = 220;
+const MAX_PULSE_INTERVAL_MS = 1000;
+const MIN_PULSE_INTERVAL_MS = 150;
+
+// 0 = far away, 1 = right in front of the user
+const closeness = ({ distanceM, band }: ProximityEstimate, settings: ProximitySettings) => {
+  if (distanceM === null) return band === 'near' ? 0.9 : band === 'mid' ? 0.5 : 0.15;
+  return Math.min(1, Math.max(0, 1 - distanceM / (settings.midMaxM * 2)));
+};
+
+/**
+ * Maps a frame's detections to tones: for each zone, the obstacle with the
+ * highest hazard weight (nearest on ties) becomes one cue. Non-hazards and
+ * hazards in a band weighted zero make no sound, so a scene the engine calls
+ * clear returns no cues.
+ */
+export const planSonification = (
+  { objects, frame, layout = DEFAULT_ZONE_LAYOUT, proximity = DEFAULT_PROXIMITY_SETTINGS }: NavigationInput,
+  rules: NavigationRules = DEFAULT_NAVIGATION_RULES
+): SonificationCue[] => {
+  const confident = objects.filter(obj => obj.confidence >= rules.minConfidence);
+  const groups = groupByZone(confident, frame.width, layout);
+
+  return layout.zones.flatMap(zone => {
+    const ranked = groups[zone.id]
+      .map(obj => {
+        const estimate = estimateProximity(obj, frame, proximity);
+        return { obj, estimate, weight: hazardWeight(obj, estimate, rules), near: closeness(estimate, proximity) };
+      })
+      .filter(({ weight }) => weight > 0)
+      .sort((a, b) => b.weight - a.weight || b.near - a.near);
+    if (ranked.length === 0) return [];
+
+    const { obj, near } = ranked[0];
+    const [x1, , x2] = obj.bounding_box;
+    const imageFraction = (x1 + x2) / 2 / frame.width;
+    const userFraction = layout.mirror ? 1 - imageFraction : imageFraction;
+    const severity = hazardSeverity(obj, rules);
+
+    return [{
+      zoneId: zone.id,
+      pan: Math.min(1, Math.max(-1, userFraction * 2 - 1)),
+      // Two octaves, low when far and high when close
+      frequency: MIN_FREQUENCY * Math.pow(2, 2 * near),
+      pulseIntervalMs: MAX_PULSE_INTERVAL_MS - (MAX_PULSE_INTERVAL_MS - MIN_PULSE_INTERVAL_MS) * near,
+      timbre: severity === 'high' ? 'sawtooth' : 'square',
+    }];
+  });
+};
+
+export const isWebAudioSupported = () => typeof window !== 'undefined' && 'AudioContext' in window;
+
+// How often the scheduler runs, and how far ahead it books pulses
+const SCHEDULER_INTERVAL_MS = 25;
+const LOOKAHEAD_S = 0.1;
+const PULSE_DURATION_S = 0.08;
+
+/** How long cues keep pulsing without a newer frame, unless `play` is given another lifetime. */
+export const DEFAULT_CUE_TTL_MS = 3000;
+
+interface ScheduledCue {
+  cue: SonificationCue;
+  nextPulseAt: number;
+}
+
+/**
+ * Plays sonification cues as short stereo-panned pulses through Web Audio.
+ * Cues keep pulsing until replaced or until their lifetime runs out, so the
+ * soundscape stays continuous between processed frames but never outlives
+ * the scene it describes by long. The AudioContext is created lazily and must
+ * first be touched from a user gesture (`unlock`).
+ */
+export class Sonifier {
+  private settings: SonificationSettings;
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private scheduled: ScheduledCue[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private expiresAt = 0;
+
+  constructor(settings: SonificationSettings = DEFAULT_SONIFICATION_SETTINGS) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: SonificationSettings) {
+    this.settings = settings;
+    if (this.master) this.master.gain.value = settings.volume;
+    if (!settings.enabled) this.stop();
+  }
+
+  /** Creates or resumes the AudioContext; call from a click or key handler. */
+  unlock() {
+    const context = this.ensureContext();
+    if (context?.state === 'suspended') void context.resume();
+  }
+
+  /** Replaces the current cues, which fall silent after `ttlMs`; an empty list mutes. */
+  play(cues: SonificationCue[], ttlMs = DEFAULT_CUE_TTL_MS) {
+    if (!this.settings.enabled || cues.length === 0) {
+      this.stop();
+      return;
+    }
+    const context = this.ensureContext();
+    if (!context) return;
+
+    // Keep each zone's rhythm when it is still sounding; stagger new ones so pulses don't stack
+    const previous = new Map(this.scheduled.map(item => [item.cue.zoneId, item.nextPulseAt]));
+    this.scheduled = cues.map((cue, idx) => ({
+      cue,
+      nextPulseAt: previous.get(cue.zoneId) ?? context.currentTime + idx * 0.05,
+    }));
+    this.expiresAt = performance.now() + ttlMs;
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.schedule(), SCHEDULER_INTERVAL_MS);
+    }
+  }
+
+  stop() {
+    this.scheduled = [];
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Three pulses panned hard to one side, for checking headphones and orientation. */
+  playTestTone(side: 'left' | 'front' | 'right') {
+    this.unlock();
+    const context = this.context;
+    if (!context) return;
+    const pan = side === 'left' ? -1 : side === 'right' ? 1 : 0;
+    for (let i = 0; i < 3; i++) {
+      this.pulse({ zoneId: side, pan, frequency: 440, pulseIntervalMs: 250, timbre: 'sine' }, context.currentTime + i * 0.25);
+    }
+  }
+
+  dispose() {
+    this.stop();
+    void this.context?.close();
+    this.context = null;
+    this.master = null;
+  }
+
+  private ensureContext() {
+    if (!this.context && isWebAudioSupported()) {
+      this.context = new AudioContext();
+      this.master = this.context.createGain();
+      this.master.gain.value = this.settings.volume;
+      this.master.connect(this.context.destination);
+    }
+    return this.context;
+  }
+
+  private schedule() {
+    const context = this.context;
+    if (!context) return;
+    if (performance.now() >= this.expiresAt) {
+      this.stop();
+      return;
+    }
+    const horizon = context.currentTime + LOOKAHEAD_S;
+    for (const item of this.scheduled) {
+      // Don't replay a backlog after the tab was throttled
+      if (item.nextPulseAt < context.currentTime) item.nextPulseAt = context.currentTime;
+      while (item.nextPulseAt < horizon) {
+        this.pulse(item.cue, item.nextPulseAt);
+        item.nextPulseAt += item.cue.pulseIntervalMs / 1000;
+      }
+    }
+  }
+
+  private pulse(cue: SonificationCue, at: number) {
+    const context = this.context;
+    if (!context || !this.master) return;
+
+    const oscillator = context.createOscillator();
+    oscillator.type = cue.timbre;
+    oscillator.frequency.value = cue.frequency;
+
+    // Short attack and exponential decay avoid clicks
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0.0001, at);
+    envelope.gain.exponentialRampToValueAtTime(cue.timbre === 'sine' ? 0.6 : 0.3, at + 0.005);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, at + PULSE_DURATION_S);
+
+    const panner = context.createStereoPanner();
+    panner.pan.value = cue.pan;
+
+    oscillator.connect(envelope).connect(panner).connect(this.master);
+    oscillator.start(at);
+    oscillator.stop(at + PULSE_DURATION_S + 0.01);
+  }
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadBenchmarkRuns, parseBenchmarkRun, saveBenchmarkRuns } from './benchmark';
+import type { BenchmarkRun } from './benchmark';
+
+const run: BenchmarkRun = {
+  id: 'run-1',
+  startedAt: 1700000000000,
+  source: 'Current camera frame',
+  frameCount: 1,
+  repetitions: 2,
+  results: {
+    basic: {
+      samples: [120, 140],
+      errors: 0,
+      stats: { count: 2, mean: 130, min: 120, p50: 120, p90: 140, p95: 140, max: 140 },
+      outputs: [{ caption: 'a chair', labels: ['chair'] }],
+    },
+    gpt2: {
+      samples: [],
+      errors: 2,
+      stats: null,
+      outputs: [{ caption: '', labels: [], error: 'timeout' }],
+    },
+  },
+};
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('parseBenchmarkRun', () => {
+  it('accepts a run as the benchmark stores it', () => {
+    expect(parseBenchmarkRun(JSON.parse(JSON.stringify(run)))).toEqual(run);
+  });
+
+  it('names the first field that is off', () => {
+    const broken = { ...run, results: { basic: { ...run.results.basic, samples: [120, '140'] } } };
+    expect(() => parseBenchmarkRun(broken)).toThrow('run.results.basic.samples[1]: expected number, got string');
+  });
+});
+
+describe('stored benchmark runs', () => {
+  it('round-trips through storage', () => {
+    expect(saveBenchmarkRuns([run])).toBe(true);
+    expect(loadBenchmarkRuns()).toEqual([run]);
+  });
+
+  it('drops malformed runs and keeps the rest', () => {
+    storage.set('vision-nav-benchmarks', JSON.stringify([{ id: 'old', results: null }, run, 42]));
+    expect(loadBenchmarkRuns()).toEqual([run]);
+  });
+
+  it('reports a storage failure instead of throwing', () => {
+    vi.stubGlobal('localStorage', {
+      setItem: () => { throw new DOMException('Quota exceeded', 'QuotaExceededError'); },
+    });
+    expect(saveBenchmarkRuns([run])).toBe(false);
+  });
+});
@@ -0,0 +1,275 @@
+import type { ApiClient } from '../api/client';
+import { expectNumber, expectRecord, expectString, optional, ResponseValidationError } from '../api/validation';
+import type { ProcessingMode } from '../types';
+
+export interface LatencyStats {
+  count: number;
+  mean: number;
+  min: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  max: number;
+}
+
+/** What one mode said about one frame. */
+export interface ModeOutput {
+  caption: string;
+  llmDescription?: string;
+  labels: string[];
+  /** Set instead of the fields above when the request failed. */
+  error?: string;
+}
+
+export interface ModeBenchmark {
+  /** Round-trip times of successful requests, in ms. */
+  samples: number[];
+  errors: number;
+  stats: LatencyStats | null;
+  /** Output for each frame, from the first repetition. */
+  outputs: ModeOutput[];
+}
+
+export interface BenchmarkRun {
+  id: string;
+  startedAt: number;
+  /** Human-readable description of the frames used, e.g. "Current camera frame". */
+  source: string;
+  frameCount: number;
+  repetitions: number;
+  results: Partial<Record<ProcessingMode, ModeBenchmark>>;
+}
+
+export interface BenchmarkOptions {
+  frames: Blob[];
+  modes: ProcessingMode[];
+  repetitions: number;
+  source: string;
+  /** Send one untimed request per mode first, so model loading isn't measured. */
+  warmUp?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** Nearest-rank percentile of an ascending list. */
+export const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+
+export const computeLatencyStats = (samples: number[]): LatencyStats | null => {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length,
+    min: sorted[0],
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+export interface LabelDiff {
+  /** Labels found by both, with multiplicity. */
+  common: string[];
+  /** Found only by the baseline. */
+  missing: string[];
+  /** Found only by the compared mode. */
+  extra: string[];
+}
+
+/** Multiset difference of two label lists, e.g. two chairs against one gives one extra chair. */
+export const diffLabels = (baseline: string[], compared: string[]): LabelDiff => {
+  const remaining = new Map<string, number>();
+  baseline.forEach(label => remaining.set(label, (remaining.get(label) ?? 0) + 1));
+
+  const common: string[] = [];
+  const extra: string[] = [];
+  compared.forEach(label => {
+    const count = remaining.get(label) ?? 0;
+    if (count > 0) {
+      common.push(label);
+      remaining.set(label, count - 1);
+    } else {
+      extra.push(label);
+    }
+  });
+  const missing = [...remaining].flatMap(([label, count]) => Array<string>(count).fill(label));
+  return { common: common.sort(), missing: missing.sort(), extra: extra.sort() };
+};
+
+/**
+ * Sends every frame through every mode `repetitions` times. Modes are
+ * interleaved per frame so drift in server load affects them all alike.
+ * Requests run one at a time; failures are counted, not thrown.
+ */
+export const runBenchmark = async (
+  client: ApiClient,
+  { frames, modes, repetitions, source, warmUp = true, signal, onProgress }: BenchmarkOptions
+): Promise<BenchmarkRun> => {
+  const results: Partial<Record<ProcessingMode, ModeBenchmark>> = {};
+  const benchFor = (mode: ProcessingMode): ModeBenchmark => {
+    const bench = results[mode];
+    if (!bench) throw new Error(`No benchmark slot for mode "${mode}"`);
+    return bench;
+  };
+  modes.forEach(mode => { results[mode] = { samples: [], errors: 0, stats: null, outputs: [] }; });
+
+  const total = modes.length * frames.length * repetitions + (warmUp ? modes.length : 0);
+  let done = 0;
+  const step = () => onProgress?.(++done, total);
+
+  if (warmUp && frames.length > 0) {
+    for (const mode of modes) {
+      signal?.throwIfAborted();
+      await client.processImage(mode, frames[0], { annotate: false, signal }).catch(() => undefined);
+      step();
+    }
+  }
+
+  for (let rep = 0; rep < repetitions; rep++) {
+    for (let frameIdx = 0; frameIdx < frames.length; frameIdx++) {
+      for (const mode of modes) {
+        signal?.throwIfAborted();
+        const bench = benchFor(mode);
+        const started = performance.now();
+        try {
+          const { result } = await client.processImage(mode, frames[frameIdx], { annotate: false, signal });
+          bench.samples.push(performance.now() - started);
+          if (rep === 0) {
+            bench.outputs[frameIdx] = {
+              caption: result.caption,
+              llmDescription: result.llm_description,
+              labels: result.detected_objects.map(obj => obj.label).sort(),
+            };
+          }
+        } catch (err) {
+          if (signal?.aborted) throw err;
+          bench.errors++;
+          if (rep === 0) {
+            bench.outputs[frameIdx] = { caption: '', labels: [], error: err instanceof Error ? err.message : String(err) };
+          }
+        }
+        step();
+      }
+    }
+  }
+
+  modes.forEach(mode => {
+    const bench = benchFor(mode);
+    bench.stats = computeLatencyStats(bench.samples);
+  });
+
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    startedAt: Date.now(),
+    source,
+    frameCount: frames.length,
+    repetitions,
+    results,
+  };
+};
+
+const STORAGE_KEY = 'vision-nav-benchmarks';
+// Older runs are dropped beyond this
+const MAX_STORED_RUNS = 10;
+
+const expectNumbers = (value: unknown, path: string): number[] => {
+  if (!Array.isArray(value)) throw new ResponseValidationError(path, 'array', value);
+  return value.map((item, idx) => expectNumber(item, `${path}[${idx}]`));
+};
+
+const parseLatencyStats = (value: unknown, path: string): LatencyStats => {
+  const stats = expectRecord(value, path);
+  return {
+    count: expectNumber(stats.count, `${path}.count`),
+    mean: expectNumber(stats.mean, `${path}.mean`),
+    min: expectNumber(stats.min, `${path}.min`),
+    p50: expectNumber(stats.p50, `${path}.p50`),
+    p90: expectNumber(stats.p90, `${path}.p90`),
+    p95: expectNumber(stats.p95, `${path}.p95`),
+    max: expectNumber(stats.max, `${path}.max`),
+  };
+};
+
+const parseModeOutput = (value: unknown, path: string): ModeOutput => {
+  const output = expectRecord(value, path);
+  if (!Array.isArray(output.labels)) throw new ResponseValidationError(`${path}.labels`, 'array', output.labels);
+  return {
+    caption: expectString(output.caption, `${path}.caption`),
+    llmDescription: optional(output.llmDescription, `${path}.llmDescription`, expectString),
+    labels: output.labels.map((label, idx) => expectString(label, `${path}.labels[${idx}]`)),
+    error: optional(output.error, `${path}.error`, expectString),
+  };
+};
+
+const parseModeBenchmark = (value: unknown, path: string): ModeBenchmark => {
+  const bench = expectRecord(value, path);
+  if (!Array.isArray(bench.outputs)) throw new ResponseValidationError(`${path}.outputs`, 'array', bench.outputs);
+  return {
+    samples: expectNumbers(bench.samples, `${path}.samples`),
+    errors: expectNumber(bench.errors, `${path}.errors`),
+    stats: optional(bench.stats, `${path}.stats`, parseLatencyStats) ?? null,
+    outputs: bench.outputs.map((output, idx) => parseModeOutput(output, `${path}.outputs[${idx}]`)),
+  };
+};
+
+/** A stored run, checked field by field; throws ResponseValidationError on the first bad one. */
+export const parseBenchmarkRun = (value: unknown, path = 'run'): BenchmarkRun => {
+  const run = expectRecord(value, path);
+  const results = expectRecord(run.results, `${path}.results`);
+  return {
+    id: expectString(run.id, `${path}.id`),
+    startedAt: expectNumber(run.startedAt, `${path}.startedAt`),
+    source: expectString(run.source, `${path}.source`),
+    frameCount: expectNumber(run.frameCount, `${path}.frameCount`),
+    repetitions: expectNumber(run.repetitions, `${path}.repetitions`),
+    results: Object.fromEntries(
+      Object.entries(results).map(([mode, bench]) => [mode, parseModeBenchmark(bench, `${path}.results.${mode}`)])
+    ),
+  };
+};
+
+/** Newest first. Runs that don't parse, e.g. from an older build, are dropped. */
+export const loadBenchmarkRuns = (): BenchmarkRun[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((value, idx) => {
+      try {
+        return [parseBenchmarkRun(value, `runs[${idx}]`)];
+      } catch (err) {
+        console.error('Dropping an unreadable benchmark run:', err);
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+/** False when storage refused the runs, e.g. over quota; they then last only until reload. */
+export const saveBenchmarkRuns = (runs: BenchmarkRun[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(runs.slice(0, MAX_STORED_RUNS)));
+    return true;
+  } catch (err) {
+    console.error('Could not save benchmark runs:', err);
+    return false;
+  }
+};
+
+/** The most recent measured latency of each mode, across all stored runs. */
+export const latestModeStats = (runs: BenchmarkRun[]): Partial<Record<ProcessingMode, LatencyStats>> => {
+  const latest: Partial<Record<ProcessingMode, LatencyStats>> = {};
+  runs.forEach(run => {
+    (Object.keys(run.results) as ProcessingMode[]).forEach(mode => {
+      const stats = run.results[mode]?.stats;
+      if (stats && !latest[mode]) latest[mode] = stats;
+    });
+  });
+  return latest;
+};
+
+/** e.g. "850 ms" or "2.4 s". */
+export const formatLatency = (ms: number) => (ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
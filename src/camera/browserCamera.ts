@@ -0,0 +1,99 @@
+export type CameraSource = 'server' | 'browser';
+
+export interface VideoDevice {
+  deviceId: string;
+  label: string;
+}
+
+export const isBrowserCameraSupported = (): boolean =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Lists the device's video inputs. Labels stay empty until the user has
+ * granted camera permission once, so placeholders are filled in.
+ */
+export const listVideoDevices = async (): Promise<VideoDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput')
+    .map((device, idx) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Camera ${idx + 1}`,
+    }));
+};
+
+export const openBrowserCamera = async (deviceId?: string): Promise<MediaStream> => {
+  if (!isBrowserCameraSupported()) {
+    throw new Error('This browser cannot open the camera (a secure https:// or localhost page is required)');
+  }
+  return navigator.mediaDevices.getUserMedia({
+    audio: false,
+    video: deviceId
+      ? { deviceId: { exact: deviceId }, width: { ideal: 640 }, height: { ideal: 480 } }
+      // Without an explicit pick, prefer the rear camera on phones.
+      : { facingMode: { ideal: 'environment' }, width: { ideal: 640 }, height: { ideal: 480 } },
+  });
+};
+
+export const stopMediaStream = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach(track => track.stop());
+};
+
+/** Grabs the video element's current frame as a JPEG blob at native resolution. */
+export const captureVideoFrame = (video: HTMLVideoElement, quality = 0.85): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    if (!video.videoWidth || !video.videoHeight) {
+      reject(new Error('Camera is not delivering frames yet'));
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error('Canvas is not available'));
+      return;
+    }
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode frame'))),
+      'image/jpeg',
+      quality
+    );
+  });
+
+/**
+ * Small JPEG data URL of whatever a video or image element (or a bitmap copied
+ * from one) is showing, for keeping alongside recorded results. Null when
+ * there is no frame yet or the image is cross-origin and cannot be read back.
+ */
+export const captureSnapshot = (
+  source: HTMLVideoElement | HTMLImageElement | ImageBitmap,
+  maxWidth = 640,
+  quality = 0.7
+): string | null => {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth
+    : source instanceof HTMLImageElement ? source.naturalWidth
+    : source.width;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight
+    : source instanceof HTMLImageElement ? source.naturalHeight
+    : source.height;
+  if (!width || !height) return null;
+
+  const scale = Math.min(1, maxWidth / width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  try {
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,32 @@
+/** Frames per second over a sliding window of recent frame timestamps. */
+export class FpsMeter {
+  private timestamps: number[] = [];
+  private readonly windowMs: number;
+
+  constructor(windowMs = 2000) {
+    this.windowMs = windowMs;
+  }
+
+  tick(now = performance.now()) {
+    this.timestamps.push(now);
+    this.prune(now);
+  }
+
+  fps(now = performance.now()): number {
+    this.prune(now);
+    if (this.timestamps.length < 2) return 0;
+    const span = now - this.timestamps[0];
+    return span > 0 ? ((this.timestamps.length - 1) * 1000) / span : 0;
+  }
+
+  reset() {
+    this.timestamps = [];
+  }
+
+  private prune(now: number) {
+    const cutoff = now - this.windowMs;
+    while (this.timestamps.length > 0 && this.timestamps[0] < cutoff) {
+      this.timestamps.shift();
+    }
+  }
+}
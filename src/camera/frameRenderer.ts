@@ -0,0 +1,74 @@
+/**
+ * Shows frame blobs in an <img> with latest-frame-wins backpressure: while a
+ * frame is decoding, newer frames replace the pending one instead of queueing.
+ * Every object URL is revoked once it is no longer on screen.
+ */
+export class FrameRenderer {
+  private readonly getImage: () => HTMLImageElement | null;
+  private readonly onRendered: () => void;
+  private currentUrl: string | null = null;
+  private pending: Blob | null = null;
+  private busy = false;
+  private disposed = false;
+
+  constructor(getImage: () => HTMLImageElement | null, onRendered: () => void) {
+    this.getImage = getImage;
+    this.onRendered = onRendered;
+  }
+
+  push(blob: Blob) {
+    if (this.disposed) return;
+    if (this.busy) {
+      this.pending = blob;
+      return;
+    }
+    this.show(blob);
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.pending = null;
+    const img = this.getImage();
+    if (img) {
+      img.onload = null;
+      img.onerror = null;
+    }
+    this.revoke();
+  }
+
+  private show(blob: Blob) {
+    const img = this.getImage();
+    if (!img) return;
+
+    this.busy = true;
+    const url = URL.createObjectURL(blob);
+    const settle = (rendered: boolean) => {
+      if (this.disposed) {
+        URL.revokeObjectURL(url);
+        return;
+      }
+      if (rendered) {
+        this.revoke();
+        this.currentUrl = url;
+        this.onRendered();
+      } else {
+        URL.revokeObjectURL(url);
+      }
+      this.busy = false;
+      const next = this.pending;
+      this.pending = null;
+      if (next) this.show(next);
+    };
+
+    img.onload = () => settle(true);
+    img.onerror = () => settle(false);
+    img.src = url;
+  }
+
+  private revoke() {
+    if (this.currentUrl) {
+      URL.revokeObjectURL(this.currentUrl);
+      this.currentUrl = null;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ApiClient } from '../api/client';
+import { MjpegTransport, PollingTransport } from './frameTransport';
+
+const part = (body: string) =>
+  new TextEncoder().encode(`--frame\r\nContent-Type: image/jpeg\r\nContent-Length: ${body.length}\r\n\r\n${body}\r\n`);
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('MjpegTransport', () => {
+  it('cancels the stream and delivers nothing more once stopped', async () => {
+    let push: (chunk: Uint8Array) => void = () => {};
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => { push = chunk => controller.enqueue(chunk); },
+      cancel,
+    });
+    const client = {
+      openFrameStream: async () =>
+        new Response(body, { headers: { 'Content-Type': 'multipart/x-mixed-replace; boundary=frame' } }),
+    } as unknown as ApiClient;
+    const onFrame = vi.fn();
+    const transport = new MjpegTransport(client, { onFrame, onClosed: vi.fn() });
+
+    const started = transport.start();
+    push(part('one'));
+    await started;
+    expect(onFrame).toHaveBeenCalledTimes(1);
+
+    // Already queued when stopped: read, but not delivered
+    push(part('two'));
+    transport.stop();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(cancel).toHaveBeenCalled();
+    expect(onFrame).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('PollingTransport', () => {
+  it('logs a run of failed polls once rather than on every poll', async () => {
+    vi.useFakeTimers();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    let calls = 0;
+    const client = {
+      getFrame: async () => {
+        if (calls++ === 0) return new Blob(['first']);
+        throw new Error('offline');
+      },
+    } as unknown as ApiClient;
+    const transport = new PollingTransport(client, { onFrame: vi.fn(), onClosed: vi.fn() }, 100);
+
+    await transport.start();
+    await vi.advanceTimersByTimeAsync(2000);
+    transport.stop();
+
+    expect(calls).toBeGreaterThan(10);
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,252 @@
+import type { ApiClient } from '../api/client';
+import { getMultipartBoundary, MjpegParser } from './mjpegParser';
+
+export type FrameTransportKind = 'mjpeg' | 'websocket' | 'polling';
+export type FrameTransportPreference = FrameTransportKind | 'auto';
+
+export interface FrameTransportHandlers {
+  onFrame: (frame: Blob) => void;
+  /** The transport dropped after it had started delivering frames. */
+  onClosed: (reason: unknown) => void;
+}
+
+export interface FrameTransport {
+  readonly kind: FrameTransportKind;
+  /** Resolves once the first frame has arrived; rejects if the transport cannot deliver frames. */
+  start(): Promise<void>;
+  stop(): void;
+}
+
+const FIRST_FRAME_TIMEOUT_MS = 3000;
+// A failing poll loop logs at most once per this interval
+const POLL_ERROR_LOG_INTERVAL_MS = 10000;
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      err => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+
+/**
+ * Fetches `/camera/frame` in a sequential loop: the next request is only sent
+ * after the previous one finished, so slow networks never pile up requests.
+ */
+export class PollingTransport implements FrameTransport {
+  readonly kind = 'polling';
+  private readonly client: ApiClient;
+  private readonly handlers: FrameTransportHandlers;
+  private readonly intervalMs: number;
+  private controller: AbortController | null = null;
+
+  constructor(client: ApiClient, handlers: FrameTransportHandlers, intervalMs = 100) {
+    this.client = client;
+    this.handlers = handlers;
+    this.intervalMs = intervalMs;
+  }
+
+  async start() {
+    const controller = new AbortController();
+    this.controller = controller;
+    const { signal } = controller;
+
+    // The first frame doubles as the connectivity check
+    this.handlers.onFrame(await this.client.getFrame(signal));
+
+    void (async () => {
+      let failures = 0;
+      let loggedAt = Number.NEGATIVE_INFINITY;
+      while (!signal.aborted) {
+        const started = performance.now();
+        try {
+          const frame = await this.client.getFrame(signal);
+          if (signal.aborted) return;
+          this.handlers.onFrame(frame);
+          failures = 0;
+        } catch (err) {
+          if (signal.aborted) return;
+          failures++;
+          if (started - loggedAt >= POLL_ERROR_LOG_INTERVAL_MS) {
+            loggedAt = started;
+            console.error(`Error fetching frame (${failures} in a row):`, err);
+          }
+        }
+        await sleep(Math.max(0, this.intervalMs - (performance.now() - started)), signal);
+      }
+    })();
+  }
+
+  stop() {
+    this.controller?.abort();
+    this.controller = null;
+  }
+}
+
+/** Reads the server's `multipart/x-mixed-replace` stream from `/camera/stream`. */
+export class MjpegTransport implements FrameTransport {
+  readonly kind = 'mjpeg';
+  private readonly client: ApiClient;
+  private readonly handlers: FrameTransportHandlers;
+  private controller: AbortController | null = null;
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+  constructor(client: ApiClient, handlers: FrameTransportHandlers) {
+    this.client = client;
+    this.handlers = handlers;
+  }
+
+  async start() {
+    const controller = new AbortController();
+    this.controller = controller;
+
+    const response = await this.client.openFrameStream(controller.signal);
+    const boundary = getMultipartBoundary(response.headers.get('Content-Type'));
+    if (!boundary || !response.body) {
+      controller.abort();
+      throw new Error('Server did not return a multipart stream');
+    }
+
+    const reader = response.body.getReader();
+    this.reader = reader;
+    const parser = new MjpegParser(boundary);
+
+    let resolveFirstFrame: () => void = () => {};
+    const firstFrameArrived = new Promise<void>(resolve => { resolveFirstFrame = resolve; });
+
+    void (async () => {
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) throw new Error('Stream ended');
+          for (const frame of parser.push(value)) {
+            if (controller.signal.aborted) return;
+            this.handlers.onFrame(frame);
+            resolveFirstFrame();
+          }
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) this.handlers.onClosed(err);
+      }
+    })();
+
+    try {
+      await withTimeout(firstFrameArrived, FIRST_FRAME_TIMEOUT_MS, 'No frames on MJPEG stream');
+    } catch (err) {
+      this.stop();
+      throw err;
+    }
+  }
+
+  stop() {
+    this.controller?.abort();
+    this.controller = null;
+    // Aborting the fetch doesn't always end a pending read; cancelling releases the connection
+    this.reader?.cancel().catch(() => undefined);
+    this.reader = null;
+  }
+}
+
+/** Receives binary frames pushed by the server over `/camera/ws`. */
+export class WebSocketTransport implements FrameTransport {
+  readonly kind = 'websocket';
+  private readonly url: string | null;
+  private readonly handlers: FrameTransportHandlers;
+  private socket: WebSocket | null = null;
+
+  constructor(client: ApiClient, handlers: FrameTransportHandlers) {
+    this.url = client.frameSocketUrl();
+    this.handlers = handlers;
+  }
+
+  start() {
+    const url = this.url;
+    if (!url || typeof WebSocket === 'undefined') {
+      return Promise.reject(new Error('WebSocket frames are not available'));
+    }
+
+    const connected = new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(url);
+      socket.binaryType = 'blob';
+      this.socket = socket;
+      let open = false;
+
+      socket.onmessage = (event) => {
+        if (!(event.data instanceof Blob)) return;
+        this.handlers.onFrame(event.data);
+        if (!open) {
+          open = true;
+          resolve();
+        }
+      };
+      socket.onclose = (event) => {
+        if (this.socket !== socket) return;
+        const reason = new Error(`WebSocket closed (${event.code})`);
+        if (open) this.handlers.onClosed(reason);
+        else reject(reason);
+      };
+    });
+
+    return withTimeout(connected, FIRST_FRAME_TIMEOUT_MS, 'No frames on WebSocket').catch(err => {
+      this.stop();
+      throw err;
+    });
+  }
+
+  stop() {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+}
+
+const createTransport = (kind: FrameTransportKind, client: ApiClient, handlers: FrameTransportHandlers): FrameTransport => {
+  switch (kind) {
+    case 'mjpeg': return new MjpegTransport(client, handlers);
+    case 'websocket': return new WebSocketTransport(client, handlers);
+    case 'polling': return new PollingTransport(client, handlers);
+  }
+};
+
+const AUTO_ORDER: FrameTransportKind[] = ['mjpeg', 'websocket', 'polling'];
+
+/**
+ * Starts the preferred transport. `auto` tries MJPEG, then WebSocket, then
+ * falls back to polling, returning whichever delivered a first frame.
+ */
+export const startFrameTransport = async (
+  preference: FrameTransportPreference,
+  client: ApiClient,
+  handlers: FrameTransportHandlers
+): Promise<FrameTransport> => {
+  const candidates = preference === 'auto' ? AUTO_ORDER : [preference];
+  let lastError: unknown = null;
+
+  for (const kind of candidates) {
+    const transport = createTransport(kind, client, handlers);
+    try {
+      await transport.start();
+      return transport;
+    } catch (err) {
+      console.warn(`Frame transport "${kind}" unavailable:`, err);
+      lastError = err;
+    }
+  }
+  throw lastError;
+};
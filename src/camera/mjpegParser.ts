@@ -0,0 +1,76 @@
+const HEADER_END = [13, 10, 13, 10]; // \r\n\r\n
+
+const indexOfBytes = (haystack: Uint8Array, needle: ArrayLike<number>, from = 0): number => {
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+export const getMultipartBoundary = (contentType: string | null): string | null => {
+  const match = contentType?.match(/boundary="?([^";]+)"?/i);
+  return match ? match[1].replace(/^--/, '') : null;
+};
+
+/**
+ * Incremental parser for `multipart/x-mixed-replace` bodies (MJPEG). Feed it
+ * chunks as they arrive and it returns every complete part. Parts are sized
+ * from their Content-Length header when present, otherwise by scanning for
+ * the next boundary.
+ */
+export class MjpegParser {
+  private buffer = new Uint8Array(0);
+  private readonly boundary: Uint8Array;
+
+  constructor(boundary: string) {
+    this.boundary = new TextEncoder().encode(`--${boundary}`);
+  }
+
+  push(chunk: Uint8Array): Blob[] {
+    const merged = new Uint8Array(this.buffer.length + chunk.length);
+    merged.set(this.buffer);
+    merged.set(chunk, this.buffer.length);
+    this.buffer = merged;
+
+    const parts: Blob[] = [];
+    let part = this.nextPart();
+    while (part) {
+      parts.push(part);
+      part = this.nextPart();
+    }
+    return parts;
+  }
+
+  private nextPart(): Blob | null {
+    const start = indexOfBytes(this.buffer, this.boundary);
+    if (start < 0) return null;
+    const headerEnd = indexOfBytes(this.buffer, HEADER_END, start);
+    if (headerEnd < 0) return null;
+
+    const headers = new TextDecoder().decode(this.buffer.subarray(start + this.boundary.length, headerEnd));
+    const type = headers.match(/content-type:\s*([^\r\n]+)/i)?.[1].trim() ?? 'image/jpeg';
+    const lengthMatch = headers.match(/content-length:\s*(\d+)/i);
+    const bodyStart = headerEnd + HEADER_END.length;
+
+    let bodyEnd: number;
+    let consumed: number;
+    if (lengthMatch) {
+      bodyEnd = bodyStart + Number(lengthMatch[1]);
+      if (bodyEnd > this.buffer.length) return null;
+      consumed = bodyEnd;
+    } else {
+      const next = indexOfBytes(this.buffer, this.boundary, bodyStart);
+      if (next < 0) return null;
+      // Drop the CRLF that precedes the next boundary
+      bodyEnd = this.buffer[next - 2] === 13 && this.buffer[next - 1] === 10 ? next - 2 : next;
+      consumed = next;
+    }
+
+    const body = this.buffer.slice(bodyStart, bodyEnd);
+    this.buffer = this.buffer.slice(consumed);
+    return new Blob([body], { type });
+  }
+}
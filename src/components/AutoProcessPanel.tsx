@@ -0,0 +1,136 @@
+import React from 'react';
+import type { Translator } from '../i18n/i18n';
+import type { AutoProcessPolicy, AutoProcessSettings } from '../scheduler/autoProcess';
+import type { ProcessingMode } from '../types';
+
+interface AutoProcessPanelProps {
+  settings: AutoProcessSettings;
+  onChange: (settings: AutoProcessSettings) => void;
+  modes: ProcessingMode[];
+  describeMode: (mode: ProcessingMode) => { name: string; icon: string };
+  i18n: Translator;
+}
+
+// 0 turns the budget off
+const BUDGET_OPTIONS = [0, 1000, 2000, 3000, 5000, 8000];
+
+const STALE_OPTIONS = [10000, 15000, 20000, 30000];
+
+const AutoProcessPanel: React.FC<AutoProcessPanelProps> = ({ settings, onChange, modes, describeMode, i18n: { t } }) => {
+  const seconds = (ms: number) => t('common.seconds', { seconds: ms / 1000 });
+
+  // Keep min ≤ interval ≤ max whichever slider moved
+  const setIntervals = (changes: Partial<Pick<AutoProcessSettings, 'intervalMs' | 'minIntervalMs' | 'maxIntervalMs'>>) => {
+    const next = { ...settings, ...changes };
+    if (changes.intervalMs !== undefined) {
+      next.minIntervalMs = Math.min(next.minIntervalMs, next.intervalMs);
+      next.maxIntervalMs = Math.max(next.maxIntervalMs, next.intervalMs);
+    }
+    if (changes.minIntervalMs !== undefined) next.intervalMs = Math.max(next.intervalMs, next.minIntervalMs);
+    if (changes.maxIntervalMs !== undefined) next.intervalMs = Math.min(next.intervalMs, next.maxIntervalMs);
+    onChange(next);
+  };
+
+  return (
+    <details className="settings-section">
+      <summary>🔄 {t('autoProcess.title')}</summary>
+
+      <div className="input-group">
+        <label htmlFor="auto-process-policy">{t('autoProcess.cadence')}</label>
+        <select
+          id="auto-process-policy"
+          value={settings.policy}
+          onChange={(e) => onChange({ ...settings, policy: e.target.value as AutoProcessPolicy })}
+        >
+          <option value="adaptive">{t('autoProcess.adaptive')}</option>
+          <option value="fixed">{t('autoProcess.fixed')}</option>
+        </select>
+      </div>
+
+      <label className="range-label">
+        <span>{t(settings.policy === 'adaptive' ? 'autoProcess.steady' : 'autoProcess.every', { interval: seconds(settings.intervalMs) })}</span>
+        <input
+          type="range"
+          min={500}
+          max={10000}
+          step={500}
+          value={settings.intervalMs}
+          onChange={(e) => setIntervals({ intervalMs: Number(e.target.value) })}
+        />
+      </label>
+
+      {settings.policy === 'adaptive' && (
+        <>
+          <label className="range-label">
+            <span>{t('autoProcess.changing', { interval: seconds(settings.minIntervalMs) })}</span>
+            <input
+              type="range"
+              min={500}
+              max={10000}
+              step={250}
+              value={settings.minIntervalMs}
+              onChange={(e) => setIntervals({ minIntervalMs: Number(e.target.value) })}
+            />
+          </label>
+
+          <label className="range-label">
+            <span>{t('autoProcess.static', { interval: seconds(settings.maxIntervalMs) })}</span>
+            <input
+              type="range"
+              min={1000}
+              max={20000}
+              step={1000}
+              value={settings.maxIntervalMs}
+              onChange={(e) => setIntervals({ maxIntervalMs: Number(e.target.value) })}
+            />
+          </label>
+        </>
+      )}
+
+      <div className="input-group">
+        <label htmlFor="latency-budget">{t('autoProcess.budget')}</label>
+        <select
+          id="latency-budget"
+          value={settings.latencyBudgetMs}
+          onChange={(e) => onChange({ ...settings, latencyBudgetMs: Number(e.target.value) })}
+        >
+          {BUDGET_OPTIONS.map(ms => (
+            <option key={ms} value={ms}>{ms === 0 ? t('common.off') : seconds(ms)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="fallback-mode">{t('autoProcess.fallback')}</label>
+        <select
+          id="fallback-mode"
+          value={settings.fallbackMode}
+          disabled={settings.latencyBudgetMs === 0}
+          onChange={(e) => onChange({ ...settings, fallbackMode: e.target.value as ProcessingMode })}
+        >
+          {modes.map(mode => {
+            const info = describeMode(mode);
+            return <option key={mode} value={mode}>{info.icon} {info.name}</option>;
+          })}
+        </select>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="stale-after">{t('autoProcess.staleAfter')}</label>
+        <select
+          id="stale-after"
+          value={settings.staleAfterMs}
+          onChange={(e) => onChange({ ...settings, staleAfterMs: Number(e.target.value) })}
+        >
+          {STALE_OPTIONS.map(ms => (
+            <option key={ms} value={ms}>{seconds(ms)}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="hint">{t('autoProcess.hint')}</p>
+    </details>
+  );
+};
+
+export default AutoProcessPanel;
@@ -0,0 +1,300 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { apiClient } from '../api/client';
+import { diffLabels, formatLatency, runBenchmark, saveBenchmarkRuns } from '../benchmark/benchmark';
+import type { BenchmarkRun } from '../benchmark/benchmark';
+import { sessionStore } from '../session/sessionStore';
+import type { SessionInfo } from '../session/sessionStore';
+import type { ProcessingMode } from '../types';
+
+interface BenchmarkPanelProps {
+  modes: ProcessingMode[];
+  describeMode: (mode: ProcessingMode) => { name: string; icon: string };
+  /** Current camera frame as a JPEG, or null when the camera isn't running. */
+  captureCurrentFrame: () => Promise<Blob | null>;
+  runs: BenchmarkRun[];
+  onRunsChange: (runs: BenchmarkRun[]) => void;
+  onClose: () => void;
+}
+
+// A recorded session contributes at most this many frames, spread over its length
+const MAX_SESSION_FRAMES = 10;
+
+const CURRENT_FRAME = 'current';
+
+const UNSAVED_RUNS = 'Could not save the benchmark results; they will be lost on reload.';
+
+const sampleEvenly = <T,>(items: T[], count: number): T[] =>
+  items.length <= count ? items : Array.from({ length: count }, (_, idx) => items[Math.floor((idx * items.length) / count)]);
+
+const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({
+  modes,
+  describeMode,
+  captureCurrentFrame,
+  runs,
+  onRunsChange,
+  onClose,
+}) => {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [source, setSource] = useState<string>(CURRENT_FRAME);
+  const [selectedModes, setSelectedModes] = useState<ProcessingMode[]>(modes);
+  const [repetitions, setRepetitions] = useState<number>(3);
+  const [warmUp, setWarmUp] = useState<boolean>(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [viewRunId, setViewRunId] = useState<string | null>(runs[0]?.id ?? null);
+  const [frameIdx, setFrameIdx] = useState<number>(0);
+  const [baseline, setBaseline] = useState<ProcessingMode | null>(null);
+  const [error, setError] = useState<string>('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    sessionStore.listSessions()
+      .then(list => setSessions(list.filter(session => session.frameCount > 0)))
+      .catch(() => setSessions([]));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const loadFrames = async (): Promise<{ frames: Blob[]; label: string }> => {
+    if (source === CURRENT_FRAME) {
+      const frame = await captureCurrentFrame();
+      if (!frame) throw new Error('Start the camera to benchmark the current frame');
+      return { frames: [frame], label: 'Current camera frame' };
+    }
+    const session = sessions.find(candidate => candidate.id === source);
+    const recorded = (await sessionStore.getFrames(source)).filter(frame => frame.snapshot);
+    if (recorded.length === 0) throw new Error('This session has no frame images');
+    const frames = await Promise.all(
+      sampleEvenly(recorded, MAX_SESSION_FRAMES).map(frame => fetch(frame.snapshot!).then(res => res.blob()))
+    );
+    return { frames, label: `Session ${session ? new Date(session.startedAt).toLocaleString() : source}` };
+  };
+
+  const handleRun = async () => {
+    setError('');
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const { frames, label } = await loadFrames();
+      const ordered = modes.filter(mode => selectedModes.includes(mode));
+      setProgress({ done: 0, total: 1 });
+      const run = await runBenchmark(apiClient, {
+        frames,
+        modes: ordered,
+        repetitions,
+        source: label,
+        warmUp,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      const updated = [run, ...runs];
+      if (!saveBenchmarkRuns(updated)) setError(UNSAVED_RUNS);
+      onRunsChange(updated);
+      setViewRunId(run.id);
+      setFrameIdx(0);
+      setBaseline(null);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(`Benchmark failed: ${err instanceof Error ? err.message : err}`);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const deleteRun = (id: string) => {
+    const updated = runs.filter(run => run.id !== id);
+    setError(saveBenchmarkRuns(updated) ? '' : UNSAVED_RUNS);
+    onRunsChange(updated);
+    if (viewRunId === id) setViewRunId(updated[0]?.id ?? null);
+  };
+
+  const run = runs.find(candidate => candidate.id === viewRunId) ?? null;
+  const runModes = run ? modes.filter(mode => run.results[mode]) : [];
+  const baselineMode = baseline && runModes.includes(baseline) ? baseline : runModes[0];
+  const baselineLabels = run && baselineMode ? run.results[baselineMode]?.outputs[frameIdx]?.labels ?? [] : [];
+
+  return (
+    <div className="panel benchmark-panel">
+      <div className="sessions-header">
+        <h2>⏱️ Mode Benchmark</h2>
+        <button type="button" className="btn btn-secondary" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="benchmark-setup">
+        <div className="input-group">
+          <label htmlFor="benchmark-source">Frames:</label>
+          <select id="benchmark-source" value={source} onChange={(e) => setSource(e.target.value)} disabled={!!progress}>
+            <option value={CURRENT_FRAME}>Current camera frame</option>
+            {sessions.map(session => (
+              <option key={session.id} value={session.id}>
+                Session {new Date(session.startedAt).toLocaleString()} ({Math.min(session.frameCount, MAX_SESSION_FRAMES)} frames)
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="input-group">
+          <label htmlFor="benchmark-repetitions">Repetitions:</label>
+          <input
+            id="benchmark-repetitions"
+            type="number"
+            min={1}
+            max={20}
+            value={repetitions}
+            onChange={(e) => setRepetitions(Math.min(20, Math.max(1, Number(e.target.value) || 1)))}
+            disabled={!!progress}
+          />
+        </div>
+
+        <fieldset className="benchmark-modes" disabled={!!progress}>
+          <legend>Modes</legend>
+          {modes.map(mode => (
+            <label key={mode} className="toggle-label">
+              <input
+                type="checkbox"
+                checked={selectedModes.includes(mode)}
+                onChange={(e) => setSelectedModes(e.target.checked
+                  ? [...selectedModes, mode]
+                  : selectedModes.filter(selected => selected !== mode))}
+              />
+              <span>{describeMode(mode).icon} {describeMode(mode).name}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        <label className="toggle-label">
+          <input type="checkbox" checked={warmUp} onChange={(e) => setWarmUp(e.target.checked)} disabled={!!progress} />
+          <span>Warm up each mode first (not timed)</span>
+        </label>
+
+        {progress ? (
+          <div className="benchmark-progress">
+            <progress value={progress.done} max={progress.total} aria-label="Benchmark progress" />
+            <span>{progress.done}/{progress.total} requests</span>
+            <button type="button" className="btn btn-danger" onClick={() => abortRef.current?.abort()}>
+              ⏹️ Cancel
+            </button>
+          </div>
+        ) : (
+          <button type="button" className="btn btn-primary" onClick={handleRun} disabled={selectedModes.length === 0}>
+            ▶️ Run Benchmark
+          </button>
+        )}
+      </div>
+
+      {error && <div className="error-message" role="alert">⚠️ {error}</div>}
+
+      {runs.length > 0 && (
+        <div className="input-group">
+          <label htmlFor="benchmark-run">Results:</label>
+          <select id="benchmark-run" value={viewRunId ?? ''} onChange={(e) => { setViewRunId(e.target.value); setFrameIdx(0); }}>
+            {runs.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>
+                {new Date(candidate.startedAt).toLocaleString()} · {candidate.source}
+              </option>
+            ))}
+          </select>
+          {run && (
+            <button type="button" className="btn btn-secondary" onClick={() => deleteRun(run.id)}>🗑️</button>
+          )}
+        </div>
+      )}
+
+      {run && (
+        <>
+          <table className="benchmark-table">
+            <caption>
+              {run.frameCount} frame{run.frameCount === 1 ? '' : 's'} × {run.repetitions} repetition{run.repetitions === 1 ? '' : 's'}
+            </caption>
+            <thead>
+              <tr>
+                <th scope="col">Mode</th>
+                <th scope="col">p50</th>
+                <th scope="col">p90</th>
+                <th scope="col">p95</th>
+                <th scope="col">Mean</th>
+                <th scope="col">Max</th>
+                <th scope="col">Errors</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runModes.map(mode => {
+                const stats = run.results[mode]?.stats;
+                return (
+                  <tr key={mode}>
+                    <th scope="row">{describeMode(mode).icon} {describeMode(mode).name}</th>
+                    <td>{stats ? formatLatency(stats.p50) : '—'}</td>
+                    <td>{stats ? formatLatency(stats.p90) : '—'}</td>
+                    <td>{stats ? formatLatency(stats.p95) : '—'}</td>
+                    <td>{stats ? formatLatency(stats.mean) : '—'}</td>
+                    <td>{stats ? formatLatency(stats.max) : '—'}</td>
+                    <td>{run.results[mode]?.errors ?? 0}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="benchmark-compare-controls">
+            {run.frameCount > 1 && (
+              <div className="input-group">
+                <label htmlFor="benchmark-frame">Frame:</label>
+                <select id="benchmark-frame" value={frameIdx} onChange={(e) => setFrameIdx(Number(e.target.value))}>
+                  {Array.from({ length: run.frameCount }, (_, idx) => (
+                    <option key={idx} value={idx}>Frame {idx + 1}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="input-group">
+              <label htmlFor="benchmark-baseline">Diff labels against:</label>
+              <select
+                id="benchmark-baseline"
+                value={baselineMode ?? ''}
+                onChange={(e) => setBaseline(e.target.value as ProcessingMode)}
+              >
+                {runModes.map(mode => (
+                  <option key={mode} value={mode}>{describeMode(mode).name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="benchmark-compare">
+            {runModes.map(mode => {
+              const output = run.results[mode]?.outputs[frameIdx];
+              const diff = diffLabels(baselineLabels, output?.labels ?? []);
+              return (
+                <div key={mode} className={`benchmark-output ${mode === baselineMode ? 'baseline' : ''}`}>
+                  <h4>{describeMode(mode).icon} {describeMode(mode).name}</h4>
+                  {!output ? (
+                    <p className="hint">No output</p>
+                  ) : output.error ? (
+                    <p className="benchmark-error">⚠️ {output.error}</p>
+                  ) : (
+                    <>
+                      <div className="benchmark-labels">
+                        {diff.common.map((label, idx) => <span key={`c${idx}`} className="label-chip">{label}</span>)}
+                        {mode !== baselineMode && diff.extra.map((label, idx) => (
+                          <span key={`e${idx}`} className="label-chip extra" title="Not found by the baseline">+{label}</span>
+                        ))}
+                        {mode !== baselineMode && diff.missing.map((label, idx) => (
+                          <span key={`m${idx}`} className="label-chip missing" title="Found only by the baseline">−{label}</span>
+                        ))}
+                        {output.labels.length === 0 && diff.missing.length === 0 && <span className="hint">No detections</span>}
+                      </div>
+                      <p className="caption">{output.caption}</p>
+                      {output.llmDescription && <p className="description">{output.llmDescription}</p>}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BenchmarkPanel;
@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { DatasetItem } from '../dataset/datasetStore';
+import type { DetectedObject } from '../types';
+
+interface DatasetItemEditorProps {
+  item: DatasetItem;
+  /** Known class names, offered as suggestions. */
+  classes: string[];
+  onChange: (item: DatasetItem) => void;
+  onDelete: () => void;
+}
+
+type Box = DetectedObject['bounding_box'];
+
+const COORDINATES = ['x1', 'y1', 'x2', 'y2'];
+
+// Drags shorter than this (in image pixels) are treated as clicks
+const MIN_DRAG = 5;
+
+const DatasetItemEditor: React.FC<DatasetItemEditorProps> = ({ item, classes, onChange, onDelete }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Box | null>(null);
+  const imgRef = useRef<HTMLImageElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const updateObjects = (objects: DetectedObject[]) => onChange({ ...item, objects });
+
+  const updateObject = (idx: number, patch: Partial<DetectedObject>) =>
+    updateObjects(item.objects.map((obj, i) => (i === idx ? { ...obj, ...patch } : obj)));
+
+  const drawBoxes = () => {
+    const canvas = canvasRef.current;
+    const img = imgRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !img || !ctx) return;
+
+    canvas.width = img.clientWidth;
+    canvas.height = img.clientHeight;
+    const scale = canvas.width / item.width;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const boxes: { box: Box; label: string; color: string }[] = item.objects.map((obj, idx) => ({
+      box: obj.bounding_box,
+      label: obj.label || '(unlabelled)',
+      color: idx === selected ? '#FF9800' : '#667eea',
+    }));
+    if (draft) boxes.push({ box: draft, label: '', color: '#4CAF50' });
+
+    ctx.font = 'bold 14px Arial';
+    boxes.forEach(({ box: [x1, y1, x2, y2], label, color }) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x1 * scale, y1 * scale, (x2 - x1) * scale, (y2 - y1) * scale);
+      if (!label) return;
+      ctx.fillStyle = color;
+      ctx.fillRect(x1 * scale, y1 * scale - 20, ctx.measureText(label).width + 8, 20);
+      ctx.fillStyle = 'white';
+      ctx.fillText(label, x1 * scale + 4, y1 * scale - 5);
+    });
+  };
+
+  useEffect(drawBoxes);
+
+  // Pointer position in image pixels
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = item.width / rect.width;
+    return [(e.clientX - rect.left) * scale, (e.clientY - rect.top) * scale];
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const [x1, y1, x2, y2] = draft;
+    setDraft(null);
+    const [px, py] = toImagePoint(e);
+
+    if (Math.abs(x2 - x1) < MIN_DRAG && Math.abs(y2 - y1) < MIN_DRAG) {
+      // Click: select the smallest box under the pointer
+      const hits = item.objects
+        .map((obj, idx) => ({ idx, box: obj.bounding_box }))
+        .filter(({ box }) => px >= box[0] && px <= box[2] && py >= box[1] && py <= box[3])
+        .sort((a, b) => (a.box[2] - a.box[0]) * (a.box[3] - a.box[1]) - (b.box[2] - b.box[0]) * (b.box[3] - b.box[1]));
+      setSelected(hits[0]?.idx ?? null);
+      return;
+    }
+
+    const box: Box = [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+    updateObjects([...item.objects, { label: '', confidence: 1, bounding_box: box }]);
+    setSelected(item.objects.length);
+  };
+
+  return (
+    <div className="dataset-editor">
+      <div className="image-wrapper">
+        <img ref={imgRef} src={item.image} alt="Dataset frame" className="camera-image" onLoad={drawBoxes} />
+        <canvas
+          ref={canvasRef}
+          className="overlay-canvas dataset-canvas"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            const [x, y] = toImagePoint(e);
+            setDraft([x, y, x, y]);
+          }}
+          onPointerMove={(e) => {
+            if (!draft) return;
+            const [x, y] = toImagePoint(e);
+            setDraft([draft[0], draft[1], x, y]);
+          }}
+          onPointerUp={handlePointerUp}
+        />
+      </div>
+      <p className="hint">Drag on the image to add a box; click a box to select it.</p>
+
+      <div className="review-flags">
+        <label className="toggle-label">
+          <input
+            type="checkbox"
+            checked={item.falsePositive}
+            onChange={(e) => onChange({ ...item, falsePositive: e.target.checked })}
+          />
+          <span>False positive (model saw something that isn't there)</span>
+        </label>
+        <label className="toggle-label">
+          <input
+            type="checkbox"
+            checked={item.falseNegative}
+            onChange={(e) => onChange({ ...item, falseNegative: e.target.checked })}
+          />
+          <span>False negative (model missed something)</span>
+        </label>
+      </div>
+
+      <datalist id="dataset-classes">
+        {classes.map(name => <option key={name} value={name} />)}
+      </datalist>
+
+      <div className="dataset-boxes">
+        {item.objects.map((obj, idx) => (
+          <div
+            key={idx}
+            className={`dataset-box ${idx === selected ? 'selected' : ''}`}
+            onFocus={() => setSelected(idx)}
+          >
+            <input
+              type="text"
+              list="dataset-classes"
+              value={obj.label}
+              placeholder="label"
+              aria-label={`Box ${idx + 1} label`}
+              aria-invalid={obj.label.trim() === ''}
+              onChange={(e) => updateObject(idx, { label: e.target.value })}
+            />
+            {obj.bounding_box.map((value, coord) => (
+              <input
+                key={coord}
+                type="number"
+                value={Math.round(value)}
+                aria-label={`Box ${idx + 1} ${COORDINATES[coord]}`}
+                onChange={(e) => {
+                  const box: Box = [...obj.bounding_box];
+                  box[coord] = Number(e.target.value);
+                  updateObject(idx, { bounding_box: box });
+                }}
+              />
+            ))}
+            <button
+              type="button"
+              className="btn btn-danger"
+              aria-label={`Remove box ${idx + 1}`}
+              onClick={() => {
+                updateObjects(item.objects.filter((_, i) => i !== idx));
+                setSelected(null);
+              }}
+            >
+              ✖
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button type="button" className="btn btn-danger" onClick={onDelete}>
+        🗑️ Remove Frame from Dataset
+      </button>
+    </div>
+  );
+};
+
+export default DatasetItemEditor;
@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { datasetStore } from '../dataset/datasetStore';
+import type { DatasetItem } from '../dataset/datasetStore';
+import { collectClasses, exportDatasetZip } from '../dataset/formats';
+import DatasetItemEditor from './DatasetItemEditor';
+
+// Label and box edits arrive per keystroke; each frame is written once they pause
+const SAVE_DELAY_MS = 500;
+
+interface DatasetPanelProps {
+  /** Bumped by the app whenever it adds a frame, so the list reloads. */
+  revision: number;
+  onClose: () => void;
+}
+
+const DatasetPanel: React.FC<DatasetPanelProps> = ({ revision, onClose }) => {
+  const [items, setItems] = useState<DatasetItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+  const pendingSaves = useRef(new Map<string, { item: DatasetItem; timer: ReturnType<typeof setTimeout> }>());
+
+  useEffect(() => {
+    datasetStore.list()
+      .then(setItems)
+      .catch(err => setError(`Could not read the dataset: ${err instanceof Error ? err.message : err}`));
+  }, [revision]);
+
+  const selected = items.find(item => item.id === selectedId) ?? null;
+
+  const persist = (item: DatasetItem) =>
+    datasetStore.put(item).catch(err => setError(`Could not save: ${err instanceof Error ? err.message : err}`));
+
+  const cancelSave = (id: string) => {
+    const pending = pendingSaves.current.get(id);
+    if (pending) clearTimeout(pending.timer);
+    pendingSaves.current.delete(id);
+  };
+
+  const save = (item: DatasetItem) => {
+    setItems(items.map(existing => (existing.id === item.id ? item : existing)));
+    cancelSave(item.id);
+    const timer = setTimeout(() => {
+      pendingSaves.current.delete(item.id);
+      persist(item);
+    }, SAVE_DELAY_MS);
+    pendingSaves.current.set(item.id, { item, timer });
+  };
+
+  // Closing the panel writes whatever edits are still waiting
+  useEffect(() => {
+    const pending = pendingSaves.current;
+    return () => {
+      pending.forEach(({ item, timer }) => {
+        clearTimeout(timer);
+        persist(item);
+      });
+      pending.clear();
+    };
+  }, []);
+
+  const remove = async (item: DatasetItem) => {
+    cancelSave(item.id);
+    try {
+      await datasetStore.delete(item.id);
+      setItems(items.filter(existing => existing.id !== item.id));
+      setSelectedId(null);
+    } catch (err) {
+      setError(`Could not delete: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(exportDatasetZip(items));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dataset_${new Date().toISOString().slice(0, 10)}.zip`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(`Remove all ${items.length} frames from the dataset?`)) return;
+    [...pendingSaves.current.keys()].forEach(cancelSave);
+    try {
+      await datasetStore.clear();
+      setItems([]);
+      setSelectedId(null);
+    } catch (err) {
+      setError(`Could not clear: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const unlabelled = items.some(item => item.objects.some(obj => obj.label.trim() === ''));
+
+  return (
+    <div className="panel dataset-panel">
+      <div className="sessions-header">
+        <h2>🏷️ Dataset ({items.length} frame{items.length === 1 ? '' : 's'})</h2>
+        <button type="button" className="btn btn-secondary" onClick={onClose}>Close</button>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="hint">
+          No frames yet. Use "Add to Dataset" after processing a frame, or while replaying a session.
+        </p>
+      ) : (
+        <>
+          <div className="dataset-thumbnails" role="listbox" aria-label="Dataset frames">
+            {items.map((item, idx) => (
+              <button
+                key={item.id}
+                type="button"
+                role="option"
+                aria-selected={item.id === selectedId}
+                className={`dataset-thumbnail ${item.id === selectedId ? 'selected' : ''}`}
+                onClick={() => setSelectedId(item.id === selectedId ? null : item.id)}
+              >
+                <img src={item.image} alt={`Frame ${idx + 1}`} />
+                <span>
+                  #{idx + 1} · {item.objects.length} box{item.objects.length === 1 ? '' : 'es'}
+                  {item.falsePositive && ' · FP'}
+                  {item.falseNegative && ' · FN'}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <DatasetItemEditor
+              key={selected.id}
+              item={selected}
+              classes={collectClasses(items)}
+              onChange={save}
+              onDelete={() => remove(selected)}
+            />
+          )}
+
+          {unlabelled && <p className="hint">⚠️ Boxes without a label are left out of the export.</p>}
+
+          <div className="button-group">
+            <button type="button" className="btn btn-primary" onClick={handleExport}>
+              📦 Export COCO + YOLO (.zip)
+            </button>
+            <button type="button" className="btn btn-danger" onClick={handleClear}>
+              🗑️ Clear Dataset
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <div className="error-message" role="alert">⚠️ {error}</div>}
+    </div>
+  );
+};
+
+export default DatasetPanel;
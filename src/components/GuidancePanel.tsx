@@ -0,0 +1,60 @@
+import React from 'react';
+import type { Translator } from '../i18n/i18n';
+import { zoneEntries } from '../navigation/guidance';
+import type { ZoneLayout } from '../navigation/zones';
+import type { ZoneGuidance } from '../types';
+
+interface GuidancePanelProps {
+  guidance: string;
+  /** Structured per-zone guidance; the zone cards fall back to parsing `guidance` without it. */
+  zones?: ZoneGuidance[];
+  layout: ZoneLayout;
+  i18n: Translator;
+}
+
+const GuidancePanel: React.FC<GuidancePanelProps> = ({ guidance, zones: structured, layout, i18n }) => {
+  const { t } = i18n;
+  const zones = zoneEntries({ guidance, guidance_zones: structured }, layout);
+
+  return (
+    <div className="guidance-panel">
+      <h3>🧭 {t('guidance.title')}</h3>
+      <div
+        className="guidance-zones"
+        style={{ '--zone-columns': Math.min(layout.zones.length, 3) } as React.CSSProperties}
+      >
+        {layout.zones.map(zone => (
+          <div key={zone.id} className="zone-card" style={{ borderInlineStartColor: zone.color }}>
+            <div className="zone-header">
+              <span className="zone-icon">{zone.icon}</span>
+              <span className="zone-title">{i18n.zone(zone).toLocaleUpperCase(i18n.locale)}</span>
+            </div>
+            <div className="zone-content">
+              {zones[zone.id].length > 0 ? (
+                zones[zone.id].map((item, idx) => (
+                  <div key={idx} className={`zone-item ${item.hazard ? 'hazard' : ''}`}>
+                    {item.hazard && <span aria-label={t('guidance.hazard')}>⚠️ </span>}
+                    {/* Structured entries are detector labels; parsed ones are the server's own sentences */}
+                    {item.count === undefined
+                      ? item.text
+                      : item.count > 1
+                        ? t('guidance.count', { count: item.count, label: i18n.label(item.text, item.count) })
+                        : i18n.label(item.text)}
+                    {item.confidence !== undefined && (
+                      <span className="zone-item-confidence">{(item.confidence * 100).toFixed(0)}%</span>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <div className="zone-empty">{t('guidance.clear')}</div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      {guidance && <p className="guidance-text">{guidance}</p>}
+    </div>
+  );
+};
+
+export default GuidancePanel;
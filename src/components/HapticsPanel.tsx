@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { DEFAULT_HAPTIC_PATTERNS, formatPattern, parsePattern } from '../haptics/haptics';
+import type { HapticDirection, HapticPriority, HapticSettings } from '../haptics/haptics';
+import type { Translator } from '../i18n/i18n';
+
+interface HapticsPanelProps {
+  settings: HapticSettings;
+  available: boolean;
+  onChange: (settings: HapticSettings) => void;
+  onTest: (direction: HapticDirection, priority: HapticPriority) => void;
+  i18n: Translator;
+}
+
+const DIRECTIONS: { direction: HapticDirection; icon: string }[] = [
+  { direction: 'left', icon: '⬅️' },
+  { direction: 'right', icon: '➡️' },
+  { direction: 'forward', icon: '⬆️' },
+  { direction: 'stop', icon: '🛑' },
+];
+
+const HapticsPanel: React.FC<HapticsPanelProps> = ({ settings, available, onChange, onTest, i18n: { t } }) => {
+  // Raw text per field, so a half-typed pattern isn't rejected mid-edit
+  const [drafts, setDrafts] = useState<Partial<Record<HapticDirection, string>>>({});
+  const [testPriority, setTestPriority] = useState<HapticPriority>('safe');
+
+  if (!available) {
+    return (
+      <details className="settings-section">
+        <summary>📳 {t('haptics.title')}</summary>
+        <p className="hint">{t('haptics.unsupported')}</p>
+      </details>
+    );
+  }
+
+  const editPattern = (direction: HapticDirection, text: string) => {
+    setDrafts({ ...drafts, [direction]: text });
+    const pattern = parsePattern(text);
+    if (pattern) {
+      onChange({ ...settings, patterns: { ...settings.patterns, [direction]: pattern } });
+    }
+  };
+
+  return (
+    <details className="settings-section">
+      <summary>📳 {t('haptics.title')}</summary>
+
+      <label className="toggle-label">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+        />
+        <span>{t('haptics.enable')}</span>
+      </label>
+
+      <div className="input-group">
+        <label htmlFor="haptic-priority">{t('haptics.testAs')}</label>
+        <select
+          id="haptic-priority"
+          value={testPriority}
+          onChange={(e) => setTestPriority(e.target.value as HapticPriority)}
+        >
+          <option value="safe">{t('priority.safe')}</option>
+          <option value="caution">{t('priority.caution')}</option>
+          <option value="danger">{t('priority.danger')}</option>
+        </select>
+      </div>
+
+      {DIRECTIONS.map(({ direction, icon }) => {
+        const text = drafts[direction] ?? formatPattern(settings.patterns[direction]);
+        const invalid = parsePattern(text) === null;
+        return (
+          <div key={direction} className="haptic-pattern">
+            <label htmlFor={`haptic-${direction}`}>{icon} {t(`direction.${direction}`)}</label>
+            <input
+              id={`haptic-${direction}`}
+              type="text"
+              inputMode="numeric"
+              value={text}
+              aria-invalid={invalid}
+              onChange={(e) => editPattern(direction, e.target.value)}
+            />
+            <button
+              type="button"
+              className="btn btn-secondary"
+              aria-label={t('haptics.test', { direction: t(`direction.${direction}`) })}
+              onClick={() => onTest(direction, testPriority)}
+            >
+              ▶️
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        className="btn btn-secondary"
+        onClick={() => {
+          setDrafts({});
+          onChange({ ...settings, patterns: DEFAULT_HAPTIC_PATTERNS });
+        }}
+      >
+        {t('haptics.reset')}
+      </button>
+
+      <p className="hint">{t('haptics.hint')}</p>
+    </details>
+  );
+};
+
+export default HapticsPanel;
@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+import { HOTKEYS } from '../accessibility/hotkeys';
+import type { Translator } from '../i18n/i18n';
+
+interface HotkeyHelpProps {
+  i18n: Translator;
+  onClose: () => void;
+}
+
+const HotkeyHelp: React.FC<HotkeyHelpProps> = ({ i18n: { t }, onClose }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  // Move focus into the dialog, and hand it back to wherever it was on close
+  useEffect(() => {
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    closeRef.current?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  return (
+    <div className="help-backdrop" onClick={onClose}>
+      <div
+        className="help-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="help-title"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+          // Only one focusable element, so Tab stays on it
+          if (e.key === 'Tab') {
+            e.preventDefault();
+            closeRef.current?.focus();
+          }
+        }}
+      >
+        <h2 id="help-title">⌨️ {t('help.title')}</h2>
+        <dl className="help-list">
+          {HOTKEYS.map(hotkey => (
+            <React.Fragment key={hotkey.action}>
+              <dt><kbd>{hotkey.label}</kbd></dt>
+              <dd>{t(`hotkey.${hotkey.action}`)}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+        <p className="hint">{t('help.hint')}</p>
+        <button ref={closeRef} type="button" className="btn btn-primary" onClick={onClose}>
+          {t('help.close')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HotkeyHelp;
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { Translator } from '../i18n/i18n';
+import { toClockHour } from '../navigation/corridor';
+import type { NavigationInstruction } from '../types';
+
+interface NavigationPanelProps {
+  instruction: NavigationInstruction;
+  i18n: Translator;
+}
+
+const getNavigationIcon = (direction: string) => {
+  switch (direction) {
+    case 'left': return '⬅️';
+    case 'right': return '➡️';
+    case 'forward': return '⬆️';
+    case 'stop': return '🛑';
+    default: return '❓';
+  }
+};
+
+const NavigationPanel: React.FC<NavigationPanelProps> = ({ instruction, i18n: { t, locale } }) => {
+  return (
+    <div className={`navigation-panel priority-${instruction.priority}`}>
+      <div className="navigation-header">
+        <span className="nav-icon">{getNavigationIcon(instruction.direction)}</span>
+        <h3>{t('nav.title')}</h3>
+      </div>
+      <div className="navigation-content">
+        <div className="nav-message">{instruction.message}</div>
+        <div className="nav-reason">{instruction.reason}</div>
+        <div className="nav-action">
+          <strong>{t('nav.action')}</strong> {t(`direction.${instruction.direction}`).toLocaleUpperCase(locale)}
+        </div>
+        {instruction.heading !== undefined && (
+          <div className="nav-action">
+            <strong>{t('nav.heading')}</strong>
+            {Math.abs(instruction.heading) < 5
+              ? t('nav.straight')
+              : t(instruction.heading < 0 ? 'nav.headingLeft' : 'nav.headingRight', {
+                degrees: Math.round(Math.abs(instruction.heading)),
+              })}
+            {` ${t('nav.clock', { count: toClockHour(instruction.heading) })}`}
+            {instruction.corridorWidth !== undefined && (
+              <span className="nav-corridor"> · {t('nav.corridor', { degrees: Math.round(instruction.corridorWidth) })}</span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NavigationPanel;
@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import type { Translator } from '../i18n/i18n';
+import { ProfileImportError } from '../profiles/profiles';
+import type { ProfileSummary } from '../profiles/profiles';
+
+interface ProfilesPanelProps {
+  profiles: ProfileSummary[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  /** Saves the current settings as a new profile and switches to it. */
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  /** Resolves with the settings that were invalid and reset. */
+  onImport: (file: File) => Promise<{ name: string; invalid: string[] }>;
+  /** Key that switches to the next profile. */
+  hotkey: string;
+  i18n: Translator;
+}
+
+const ProfilesPanel: React.FC<ProfilesPanelProps> = ({
+  profiles,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onExport,
+  onImport,
+  hotkey,
+  i18n: { t },
+}) => {
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const active = profiles.find(profile => profile.id === activeId);
+
+  const handleCreate = () => {
+    const name = window.prompt(t('profiles.newPrompt'));
+    if (name?.trim()) onCreate(name);
+  };
+
+  const handleRename = () => {
+    if (!active) return;
+    const name = window.prompt(t('profiles.renamePrompt', { name: active.name }), active.name);
+    if (name?.trim()) onRename(active.id, name);
+  };
+
+  const handleDelete = () => {
+    if (active && window.confirm(t('profiles.deleteConfirm', { name: active.name }))) onDelete(active.id);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { name, invalid } = await onImport(file);
+      setNotice(invalid.length > 0
+        ? { text: t('profiles.invalid', { count: invalid.length, fields: invalid.join(', ') }), error: true }
+        : { text: t('profiles.imported', { name }), error: false });
+    } catch (err) {
+      setNotice({
+        text: err instanceof ProfileImportError
+          ? t(`profiles.error.${err.reason}`)
+          : err instanceof Error ? err.message : String(err),
+        error: true,
+      });
+    }
+  };
+
+  return (
+    <details className="settings-section">
+      <summary>👤 {t('profiles.title')}</summary>
+
+      <div className="input-group">
+        <label htmlFor="active-profile">{t('profiles.active')}</label>
+        <select id="active-profile" value={activeId} onChange={(e) => onSelect(e.target.value)}>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="profile-actions">
+        <button type="button" className="btn btn-secondary" onClick={handleCreate}>➕ {t('profiles.new')}</button>
+        <button type="button" className="btn btn-secondary" onClick={handleRename}>✏️ {t('profiles.rename')}</button>
+        <button type="button" className="btn btn-secondary" onClick={() => onExport(activeId)}>💾 {t('profiles.export')}</button>
+        <button type="button" className="btn btn-secondary" onClick={() => fileInputRef.current?.click()}>
+          📂 {t('profiles.import')}
+        </button>
+        <button type="button" className="btn btn-danger" onClick={handleDelete} disabled={profiles.length <= 1}>
+          🗑️ {t('profiles.delete')}
+        </button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = '';
+        }}
+      />
+
+      {notice && (
+        <p className={notice.error ? 'profile-notice error' : 'profile-notice'} role="status">{notice.text}</p>
+      )}
+
+      <p className="hint">{t('profiles.hint', { key: hotkey })}</p>
+    </details>
+  );
+};
+
+export default ProfilesPanel;
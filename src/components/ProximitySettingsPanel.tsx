@@ -0,0 +1,73 @@
+import React from 'react';
+import type { Translator } from '../i18n/i18n';
+import type { ProximitySettings } from '../navigation/proximity';
+
+interface ProximitySettingsPanelProps {
+  settings: ProximitySettings;
+  onChange: (settings: ProximitySettings) => void;
+  i18n: Translator;
+}
+
+const ProximitySettingsPanel: React.FC<ProximitySettingsPanelProps> = ({ settings, onChange, i18n: { t } }) => {
+  const update = (patch: Partial<ProximitySettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <details className="settings-section">
+      <summary>📏 {t('proximity.title')}</summary>
+
+      <div className="input-group">
+        <label htmlFor="camera-fov">{t('proximity.fov')}</label>
+        <input
+          id="camera-fov"
+          type="number"
+          min={20}
+          max={120}
+          value={settings.verticalFovDeg}
+          onChange={(e) => update({ verticalFovDeg: Number(e.target.value) || settings.verticalFovDeg })}
+        />
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="camera-height">{t('proximity.cameraHeight')}</label>
+        <input
+          id="camera-height"
+          type="number"
+          min={0}
+          max={3}
+          step={0.05}
+          placeholder={t('proximity.unknown')}
+          value={settings.cameraHeightM ?? ''}
+          onChange={(e) => update({ cameraHeightM: e.target.value === '' ? null : Number(e.target.value) })}
+        />
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="near-max">{t('proximity.nearMax')}</label>
+        <input
+          id="near-max"
+          type="number"
+          min={0.5}
+          step={0.5}
+          value={settings.nearMaxM}
+          onChange={(e) => update({ nearMaxM: Math.min(Number(e.target.value), settings.midMaxM) })}
+        />
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="mid-max">{t('proximity.midMax')}</label>
+        <input
+          id="mid-max"
+          type="number"
+          min={1}
+          step={0.5}
+          value={settings.midMaxM}
+          onChange={(e) => update({ midMaxM: Math.max(Number(e.target.value), settings.nearMaxM) })}
+        />
+      </div>
+
+      <p className="hint">{t('proximity.hint')}</p>
+    </details>
+  );
+};
+
+export default ProximitySettingsPanel;
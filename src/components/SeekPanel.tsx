@@ -0,0 +1,57 @@
+import React from 'react';
+import type { Translator } from '../i18n/i18n';
+import { seekableLabels } from '../navigation/seek';
+import type { SeekSettings } from '../navigation/seek';
+
+interface SeekPanelProps {
+  /** Detector class being sought, or null for obstacle avoidance. */
+  target: string | null;
+  onTargetChange: (target: string | null) => void;
+  settings: SeekSettings;
+  onChange: (settings: SeekSettings) => void;
+  /** Labels in the latest result, so classes outside the built-in list can be picked too. */
+  seenLabels: string[];
+  i18n: Translator;
+}
+
+const SeekPanel: React.FC<SeekPanelProps> = ({ target, onTargetChange, settings, onChange, seenLabels, i18n }) => {
+  const { t } = i18n;
+  const labels = seekableLabels(target ? [...seenLabels, target] : seenLabels)
+    .sort((a, b) => i18n.label(a).localeCompare(i18n.label(b), i18n.locale));
+
+  return (
+    <details className="settings-section" open>
+      <summary>🎯 {t('seek.title')}</summary>
+
+      <div className="input-group">
+        <label htmlFor="seek-target">{t('seek.target')}</label>
+        <select
+          id="seek-target"
+          value={target ?? ''}
+          onChange={(e) => onTargetChange(e.target.value || null)}
+        >
+          <option value="">{t('seek.off')}</option>
+          {labels.map(label => (
+            <option key={label} value={label}>{i18n.label(label)}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="range-label">
+        <span>{t('seek.arrival', { percent: Math.round(settings.arrivalCoverage * 100) })}</span>
+        <input
+          type="range"
+          min={0.05}
+          max={0.6}
+          step={0.05}
+          value={settings.arrivalCoverage}
+          onChange={(e) => onChange({ ...settings, arrivalCoverage: Number(e.target.value) })}
+        />
+      </label>
+
+      <p className="hint">{t('seek.hint')}</p>
+    </details>
+  );
+};
+
+export default SeekPanel;
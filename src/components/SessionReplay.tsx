@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Translator } from '../i18n/i18n';
+import { drawNavigationOverlay } from '../navigation/overlay';
+import { formatElapsed, sessionStore } from '../session/sessionStore';
+import type { RecordedFrame, SessionInfo } from '../session/sessionStore';
+import GuidancePanel from './GuidancePanel';
+import NavigationPanel from './NavigationPanel';
+
+interface SessionReplayProps {
+  session: SessionInfo;
+  onClose: () => void;
+  onAddToDataset: (frame: RecordedFrame) => void;
+  /** For the shared navigation and guidance panels; recorded instructions keep the language they were spoken in. */
+  i18n: Translator;
+}
+
+// Long pauses between frames are shortened during playback
+const MAX_PLAYBACK_GAP_MS = 3000;
+
+const SessionReplay: React.FC<SessionReplayProps> = ({ session, onClose, onAddToDataset, i18n }) => {
+  const [frames, setFrames] = useState<RecordedFrame[]>([]);
+  const [position, setPosition] = useState<number>(0);
+  const [playing, setPlaying] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const imgRef = useRef<HTMLImageElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // Mounted per session (keyed by id), so loading once is enough
+  useEffect(() => {
+    sessionStore.getFrames(session.id)
+      .then(setFrames)
+      .catch(err => setError(`Could not load session: ${err instanceof Error ? err.message : err}`));
+  }, [session.id]);
+
+  const current = frames[position];
+  const last = Math.max(frames.length - 1, 0);
+  // Playback stops by itself on the last frame
+  const isPlaying = playing && position < last;
+
+  // Advance in real time, as the frames were originally processed
+  useEffect(() => {
+    if (!isPlaying) return;
+    const gap = frames[position + 1].timestamp - frames[position].timestamp;
+    const timer = setTimeout(() => setPosition(position + 1), Math.min(Math.max(gap, 100), MAX_PLAYBACK_GAP_MS));
+    return () => clearTimeout(timer);
+  }, [isPlaying, position, frames]);
+
+  const drawOverlay = () => {
+    const canvas = canvasRef.current;
+    const img = imgRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !img || !ctx || !current) return;
+
+    canvas.width = img.clientWidth;
+    canvas.height = img.clientHeight;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // The annotated image already has the backend's boxes drawn in
+    if (!current.snapshot) return;
+    drawNavigationOverlay(ctx, {
+      objects: current.result.detected_objects,
+      tracks: current.tracks,
+      frame: current.frame,
+      layout: current.layout,
+      proximity: current.proximity,
+      instruction: current.instruction,
+      rules: current.rules,
+      i18n,
+    });
+  };
+
+  useEffect(drawOverlay);
+
+  if (error) {
+    return (
+      <div className="panel replay-panel">
+        <div className="error-message" role="alert">⚠️ {error}</div>
+        <button type="button" className="btn btn-secondary" onClick={onClose}>Close</button>
+      </div>
+    );
+  }
+
+  const image = current?.snapshot ?? current?.annotatedImage ?? null;
+  const seek = (idx: number) => setPosition(Math.min(last, Math.max(0, idx)));
+
+  return (
+    <div className="panel replay-panel">
+      <div className="sessions-header">
+        <h2>🎞️ Replay: {new Date(session.startedAt).toLocaleString()}</h2>
+        <button type="button" className="btn btn-secondary" onClick={onClose}>Close</button>
+      </div>
+
+      {!current ? (
+        <p className="hint">Loading frames...</p>
+      ) : (
+        <>
+          <div className="camera-container">
+            {image ? (
+              <div className="image-wrapper">
+                <img ref={imgRef} src={image} alt={`Recorded frame ${position + 1}`} className="camera-image" onLoad={drawOverlay} />
+                <canvas ref={canvasRef} className="overlay-canvas" />
+                <div className="frame-counter">{current.mode} · {Math.round(current.latencyMs)} ms</div>
+              </div>
+            ) : (
+              <div className="placeholder">
+                <p>🖼️</p>
+                <p>No image was captured for this frame</p>
+              </div>
+            )}
+          </div>
+
+          {/* One tick per frame, coloured by the instruction's priority */}
+          <div className="replay-ticks" aria-hidden="true">
+            {frames.map((frame, idx) => (
+              <div
+                key={frame.seq}
+                className={`replay-tick priority-${frame.instruction?.priority ?? 'none'} ${idx === position ? 'current' : ''}`}
+                onClick={() => seek(idx)}
+              />
+            ))}
+          </div>
+
+          <div className="replay-controls">
+            <button type="button" className="btn btn-secondary" onClick={() => seek(0)} aria-label="First frame">⏮️</button>
+            <button type="button" className="btn btn-secondary" onClick={() => seek(position - 1)} aria-label="Previous frame">⏪</button>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={() => {
+                if (!isPlaying && position >= last) setPosition(0);
+                setPlaying(!isPlaying);
+              }}
+              aria-label={isPlaying ? 'Pause' : 'Play'}
+            >
+              {isPlaying ? '⏸️' : '▶️'}
+            </button>
+            <button type="button" className="btn btn-secondary" onClick={() => seek(position + 1)} aria-label="Next frame">⏩</button>
+            <button type="button" className="btn btn-secondary" onClick={() => seek(last)} aria-label="Last frame">⏭️</button>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => onAddToDataset(current)}
+              disabled={!current.snapshot}
+            >
+              ➕ Add to Dataset
+            </button>
+            <span className="replay-time">
+              {formatElapsed(current.timestamp - session.startedAt)} · frame {position + 1}/{frames.length}
+            </span>
+          </div>
+
+          <input
+            type="range"
+            className="replay-timeline"
+            min={0}
+            max={last}
+            value={position}
+            onChange={(e) => {
+              setPlaying(false);
+              seek(Number(e.target.value));
+            }}
+            aria-label="Timeline"
+            aria-valuetext={`Frame ${position + 1} of ${frames.length}, ${formatElapsed(current.timestamp - session.startedAt)}`}
+          />
+
+          {current.instruction && <NavigationPanel instruction={current.instruction} i18n={i18n} />}
+
+          {(current.result.guidance || current.result.guidance_zones) && (
+            <GuidancePanel guidance={current.result.guidance} zones={current.result.guidance_zones} layout={current.layout} i18n={i18n} />
+          )}
+
+          <div className="results">
+            <div className="result-section">
+              <h4>Caption:</h4>
+              <p className="caption">{current.result.caption}</p>
+            </div>
+            {current.result.llm_description && (
+              <div className="result-section">
+                <h4>AI Description:</h4>
+                <p className="description">{current.result.llm_description}</p>
+              </div>
+            )}
+            <div className="result-meta">
+              <span>Objects: {current.result.detected_objects.length}</span>
+              <span>Model: {current.result.model_used}</span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionReplay;
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatElapsed, SessionArchiveError, sessionStore } from '../session/sessionStore';
+import type { SessionInfo } from '../session/sessionStore';
+
+interface SessionsPanelProps {
+  /** Session being recorded right now, refreshed as it grows. */
+  recording: SessionInfo | null;
+  onReplay: (session: SessionInfo) => void;
+  onClose: () => void;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const SessionsPanel: React.FC<SessionsPanelProps> = ({ recording, onReplay, onClose }) => {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [error, setError] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    sessionStore.listSessions()
+      .then(setSessions)
+      .catch(err => setError(`Could not read recorded sessions: ${err instanceof Error ? err.message : err}`));
+  };
+
+  useEffect(refresh, [recording]);
+
+  const handleExport = async (session: SessionInfo) => {
+    try {
+      const blob = await sessionStore.exportSession(session.id);
+      downloadBlob(blob, `session_${new Date(session.startedAt).toISOString().replace(/[:.]/g, '-')}.json`);
+    } catch (err) {
+      setError(`Export failed: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const handleDelete = async (session: SessionInfo) => {
+    if (!window.confirm(`Delete the session from ${new Date(session.startedAt).toLocaleString()}?`)) return;
+    try {
+      await sessionStore.deleteSession(session.id);
+      refresh();
+    } catch (err) {
+      setError(`Delete failed: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const session = await sessionStore.importSession(file);
+      setError('');
+      refresh();
+      onReplay(session);
+    } catch (err) {
+      setError(err instanceof SessionArchiveError || err instanceof Error
+        ? `Import failed: ${err.message}`
+        : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="panel sessions-panel">
+      <div className="sessions-header">
+        <h2>🎞️ Recorded Sessions</h2>
+        <button type="button" className="btn btn-secondary" onClick={onClose}>Close</button>
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="hint">No sessions yet. Turn on "Record Session" next to the camera controls to capture one.</p>
+      ) : (
+        <ul className="session-list">
+          {sessions.map(session => (
+            <li key={session.id} className="session-item">
+              <div className="session-info">
+                <strong>{new Date(session.startedAt).toLocaleString()}</strong>
+                <span>
+                  {session.frameCount} frame{session.frameCount === 1 ? '' : 's'} · {formatElapsed(session.endedAt - session.startedAt)}
+                  {recording?.id === session.id && <span className="session-recording"> ⏺ recording</span>}
+                </span>
+              </div>
+              <div className="session-actions">
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  onClick={() => onReplay(session)}
+                  disabled={session.frameCount === 0}
+                >
+                  ▶️ Replay
+                </button>
+                <button type="button" className="btn btn-secondary" onClick={() => handleExport(session)}>
+                  💾 Export
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-danger"
+                  onClick={() => handleDelete(session)}
+                  disabled={recording?.id === session.id}
+                >
+                  🗑️
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = '';
+        }}
+      />
+      <button type="button" className="btn btn-secondary" onClick={() => fileInputRef.current?.click()}>
+        📂 Import Session
+      </button>
+
+      {error && <div className="error-message" role="alert">⚠️ {error}</div>}
+    </div>
+  );
+};
+
+export default SessionsPanel;
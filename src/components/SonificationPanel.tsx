@@ -0,0 +1,62 @@
+import React from 'react';
+import { isWebAudioSupported } from '../audio/sonifier';
+import type { SonificationSettings } from '../audio/sonifier';
+import type { Translator } from '../i18n/i18n';
+
+interface SonificationPanelProps {
+  settings: SonificationSettings;
+  onChange: (settings: SonificationSettings) => void;
+  onTestTone: (side: 'left' | 'front' | 'right') => void;
+  i18n: Translator;
+}
+
+const SonificationPanel: React.FC<SonificationPanelProps> = ({ settings, onChange, onTestTone, i18n: { t } }) => {
+  if (!isWebAudioSupported()) return null;
+
+  return (
+    <details className="settings-section">
+      <summary>🎧 {t('sonification.title')}</summary>
+
+      <label className="toggle-label">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+        />
+        <span>{t('sonification.enable')}</span>
+      </label>
+
+      <label className="toggle-label">
+        <input
+          type="checkbox"
+          checked={settings.replaceSpeech}
+          disabled={!settings.enabled}
+          onChange={(e) => onChange({ ...settings, replaceSpeech: e.target.checked })}
+        />
+        <span>{t('sonification.replaceSpeech')}</span>
+      </label>
+
+      <label className="range-label">
+        <span>{t('common.volume', { volume: Math.round(settings.volume * 100) })}</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.volume}
+          onChange={(e) => onChange({ ...settings, volume: Number(e.target.value) })}
+        />
+      </label>
+
+      <div className="calibration-tones" role="group" aria-label={t('sonification.tones')}>
+        <button type="button" className="btn btn-secondary" onClick={() => onTestTone('left')}>◀️ {t('sonification.left')}</button>
+        <button type="button" className="btn btn-secondary" onClick={() => onTestTone('front')}>🔼 {t('sonification.front')}</button>
+        <button type="button" className="btn btn-secondary" onClick={() => onTestTone('right')}>{t('sonification.right')} ▶️</button>
+      </div>
+
+      <p className="hint">{t('sonification.hint')}</p>
+    </details>
+  );
+};
+
+export default SonificationPanel;
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { LOCALES } from '../i18n/i18n';
+import type { Translator } from '../i18n/i18n';
+import { isSpeechSupported, voiceSpeaks } from '../speech/speechQueue';
+import type { SpeechSettings } from '../speech/speechQueue';
+
+interface SpeechSettingsPanelProps {
+  settings: SpeechSettings;
+  onChange: (settings: SpeechSettings) => void;
+  onTest: () => void;
+  i18n: Translator;
+}
+
+const SpeechSettingsPanel: React.FC<SpeechSettingsPanelProps> = ({ settings, onChange, onTest, i18n: { t, locale } }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+
+  if (!isSpeechSupported()) return null;
+
+  const update = (patch: Partial<SpeechSettings>) => onChange({ ...settings, ...patch });
+  const { name: language, speechLang } = LOCALES[locale];
+  const matching = voices.filter(voice => voiceSpeaks(voice, speechLang));
+  const others = voices.filter(voice => !voiceSpeaks(voice, speechLang));
+  const chosen = voices.find(voice => voice.voiceURI === settings.voiceURI);
+  const voiceOption = (voice: SpeechSynthesisVoice) => (
+    <option key={voice.voiceURI} value={voice.voiceURI}>
+      {voice.name} ({voice.lang})
+    </option>
+  );
+
+  return (
+    <details className="settings-section">
+      <summary>🗣️ {t('speech.title')}</summary>
+
+      <div className="input-group">
+        <label htmlFor="speech-voice">{t('speech.voice')}</label>
+        <select
+          id="speech-voice"
+          value={settings.voiceURI ?? ''}
+          onChange={(e) => update({ voiceURI: e.target.value || null })}
+        >
+          <option value="">{t('speech.automatic', { language })}</option>
+          {matching.map(voiceOption)}
+          {others.length > 0 && <optgroup label={t('speech.otherLanguages')}>{others.map(voiceOption)}</optgroup>}
+        </select>
+      </div>
+
+      {chosen && !voiceSpeaks(chosen, speechLang) && (
+        <p className="hint">{t('speech.mismatch', { language })}</p>
+      )}
+
+      <label className="range-label">
+        <span>{t('speech.rate', { rate: settings.rate })}</span>
+        <input
+          type="range"
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={settings.rate}
+          onChange={(e) => update({ rate: Number(e.target.value) })}
+        />
+      </label>
+
+      <label className="range-label">
+        <span>{t('speech.pitch', { pitch: settings.pitch })}</span>
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={settings.pitch}
+          onChange={(e) => update({ pitch: Number(e.target.value) })}
+        />
+      </label>
+
+      <label className="range-label">
+        <span>{t('common.volume', { volume: Math.round(settings.volume * 100) })}</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.volume}
+          onChange={(e) => update({ volume: Number(e.target.value) })}
+        />
+      </label>
+
+      <button type="button" className="btn btn-secondary" onClick={onTest}>
+        ▶️ {t('speech.test')}
+      </button>
+    </details>
+  );
+};
+
+export default SpeechSettingsPanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { Translator } from '../i18n/i18n';
+import type { StabilizerSettings } from '../navigation/stabilizer';
+
+interface StabilizerSettingsPanelProps {
+  settings: StabilizerSettings;
+  onChange: (settings: StabilizerSettings) => void;
+  i18n: Translator;
+}
+
+// 0 turns the reassurance off
+const REASSURANCE_OPTIONS = [0, 10000, 20000, 30000, 60000];
+
+const StabilizerSettingsPanel: React.FC<StabilizerSettingsPanelProps> = ({ settings, onChange, i18n: { t } }) => {
+  const reassuranceLabel = (ms: number) =>
+    ms === 0 ? t('common.off') : ms === 60000 ? t('stabilizer.everyMinute') : t('stabilizer.every', { seconds: ms / 1000 });
+
+  return (
+    <details className="settings-section">
+      <summary>🎚️ {t('stabilizer.title')}</summary>
+
+      <label className="range-label">
+        <span>{t('stabilizer.persist', { count: settings.persistFrames })}</span>
+        <input
+          type="range"
+          min={1}
+          max={5}
+          value={settings.persistFrames}
+          onChange={(e) => onChange({ ...settings, persistFrames: Number(e.target.value) })}
+        />
+      </label>
+
+      <div className="input-group">
+        <label htmlFor="reassurance">{t('stabilizer.reassurance')}</label>
+        <select
+          id="reassurance"
+          value={settings.reassuranceIntervalMs}
+          onChange={(e) => onChange({ ...settings, reassuranceIntervalMs: Number(e.target.value) })}
+        >
+          {REASSURANCE_OPTIONS.map(ms => (
+            <option key={ms} value={ms}>{reassuranceLabel(ms)}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="hint">{t('stabilizer.hint')}</p>
+    </details>
+  );
+};
+
+export default StabilizerSettingsPanel;
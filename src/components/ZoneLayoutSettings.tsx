@@ -0,0 +1,68 @@
+import React from 'react';
+import type { Translator } from '../i18n/i18n';
+import { createZoneLayout, moveBoundary, ZONE_COUNTS } from '../navigation/zones';
+import type { ZoneCount, ZoneLayout } from '../navigation/zones';
+
+interface ZoneLayoutSettingsProps {
+  layout: ZoneLayout;
+  onChange: (layout: ZoneLayout) => void;
+  i18n: Translator;
+}
+
+const ZoneLayoutSettings: React.FC<ZoneLayoutSettingsProps> = ({ layout, onChange, i18n }) => {
+  const { t } = i18n;
+  return (
+    <details className="settings-section">
+      <summary>🧭 {t('zones.title')}</summary>
+
+      <div className="input-group">
+        <label htmlFor="zone-count">{t('zones.count')}</label>
+        <select
+          id="zone-count"
+          value={layout.zones.length}
+          onChange={(e) => onChange(createZoneLayout(Number(e.target.value) as ZoneCount, layout.mirror))}
+        >
+          {ZONE_COUNTS.map(count => (
+            <option key={count} value={count}>{t('zones.option', { count })}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="toggle-label">
+        <input
+          type="checkbox"
+          checked={layout.mirror}
+          onChange={(e) => onChange({ ...layout, mirror: e.target.checked })}
+        />
+        <span>{t('zones.mirror')}</span>
+      </label>
+
+      <div className="zone-boundaries">
+        {layout.boundaries.map((boundary, idx) => (
+          <label key={idx} className="range-label">
+            <span>
+              {i18n.zone(layout.zones[idx])} | {i18n.zone(layout.zones[idx + 1])}: {(boundary * 100).toFixed(0)}%
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(boundary * 100)}
+              onChange={(e) => onChange(moveBoundary(layout, idx, Number(e.target.value) / 100))}
+            />
+          </label>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        className="btn btn-secondary"
+        onClick={() => onChange(createZoneLayout(layout.zones.length as ZoneCount, layout.mirror))}
+      >
+        {t('zones.reset')}
+      </button>
+    </details>
+  );
+};
+
+export default ZoneLayoutSettings;
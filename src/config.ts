@@ -0,0 +1,29 @@
+const DEFAULT_API_BASE_URL = 'http://localhost:5000';
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+/**
+ * Resolves the backend base URL. Runtime config (public/config.js) wins over
+ * the build-time VITE_API_BASE_URL so a deployed bundle can be re-pointed
+ * without rebuilding.
+ */
+export const getApiBaseUrl = (): string => {
+  const runtimeUrl = typeof window !== 'undefined' ? window.__APP_CONFIG__?.apiBaseUrl : undefined;
+  const url = runtimeUrl || import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL;
+  return trimTrailingSlash(url);
+};
+
+/**
+ * Name of the mock backend scenario to run instead of the real server, or
+ * null. Set with `?mock=<scenario>` in the page URL, `mockScenario` in
+ * public/config.js, or VITE_API_MOCK at build time; a bare `?mock` picks the
+ * default scenario.
+ */
+export const getMockScenarioName = (): string | null => {
+  if (typeof window !== 'undefined') {
+    const params = new URLSearchParams(window.location.search);
+    if (params.has('mock')) return params.get('mock') || 'walk';
+    if (window.__APP_CONFIG__?.mockScenario) return window.__APP_CONFIG__.mockScenario;
+  }
+  return import.meta.env.VITE_API_MOCK || null;
+};
@@ -0,0 +1,120 @@
+import type { FrameSize } from '../navigation/engine';
+import { completion, isIndexedDbSupported, LazyDatabase, request } from '../storage/indexedDb';
+import type { DetectedObject, ProcessingMode } from '../types';
+
+export type DatasetSource = 'live' | 'session';
+
+/** One frame queued for export, with its (possibly corrected) annotations. */
+export interface DatasetItem {
+  id: string;
+  addedAt: number;
+  source: DatasetSource;
+  mode: ProcessingMode;
+  /** Image data URL, as captured. */
+  image: string;
+  width: number;
+  height: number;
+  /** Boxes in image pixels. Start as the model's detections; the editor may change them. */
+  objects: DetectedObject[];
+  /** The model reported something that isn't there. */
+  falsePositive: boolean;
+  /** The model missed something that is there. */
+  falseNegative: boolean;
+}
+
+const DB_NAME = 'vision-nav-dataset';
+const DB_VERSION = 1;
+const ITEMS = 'items';
+
+export const isDatasetStorageSupported = isIndexedDbSupported;
+
+const loadImageSize = (src: string) =>
+  new Promise<FrameSize>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Could not decode the frame image'));
+    img.src = src;
+  });
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Builds a dataset item from a processed frame. Detections are expressed in
+ * `frame` coordinates; the stored image may be smaller (e.g. a recording
+ * snapshot), so boxes are rescaled to the image.
+ */
+export const createDatasetItem = async ({ image, frame, objects, mode, source }: {
+  image: string;
+  frame: FrameSize;
+  objects: DetectedObject[];
+  mode: ProcessingMode;
+  source: DatasetSource;
+}): Promise<DatasetItem> => {
+  const size = await loadImageSize(image);
+  const scaleX = size.width / frame.width;
+  const scaleY = size.height / frame.height;
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    addedAt: Date.now(),
+    source,
+    mode,
+    image,
+    width: size.width,
+    height: size.height,
+    objects: objects.map(obj => ({
+      ...obj,
+      bounding_box: [
+        obj.bounding_box[0] * scaleX,
+        obj.bounding_box[1] * scaleY,
+        obj.bounding_box[2] * scaleX,
+        obj.bounding_box[3] * scaleY,
+      ],
+    })),
+    falsePositive: false,
+    falseNegative: false,
+  };
+};
+
+/** Frames collected for export, in IndexedDB. */
+export class DatasetStore {
+  private readonly database = new LazyDatabase(DB_NAME, DB_VERSION, db => {
+    db.createObjectStore(ITEMS, { keyPath: 'id' });
+  });
+
+  /** Adds or replaces an item. */
+  async put(item: DatasetItem): Promise<void> {
+    const db = await this.database.get();
+    const tx = db.transaction(ITEMS, 'readwrite');
+    tx.objectStore(ITEMS).put(item);
+    await completion(tx);
+  }
+
+  /** Oldest first, the order they are exported in. */
+  async list(): Promise<DatasetItem[]> {
+    const db = await this.database.get();
+    const items = await request<DatasetItem[]>(db.transaction(ITEMS).objectStore(ITEMS).getAll());
+    return items.sort((a, b) => a.addedAt - b.addedAt);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.database.get();
+    const tx = db.transaction(ITEMS, 'readwrite');
+    tx.objectStore(ITEMS).delete(id);
+    await completion(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.database.get();
+    const tx = db.transaction(ITEMS, 'readwrite');
+    tx.objectStore(ITEMS).clear();
+    await completion(tx);
+  }
+}
+
+export const datasetStore = new DatasetStore();
@@ -0,0 +1,119 @@
+import type { DetectedObject } from '../types';
+import type { DatasetItem } from './datasetStore';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+
+/** Detections with an empty label are placeholders from the editor and are never exported. */
+const exportable = (objects: DetectedObject[]) => objects.filter(obj => obj.label.trim() !== '');
+
+/** Every class in the dataset, sorted, so ids are stable for the same set of labels. */
+export const collectClasses = (items: DatasetItem[]): string[] =>
+  [...new Set(items.flatMap(item => exportable(item.objects).map(obj => obj.label.trim())))].sort();
+
+const extensionFor = (dataUrl: string) => (dataUrl.startsWith('data:image/png') ? 'png' : 'jpg');
+
+// Names are positional so the images and label files pair up
+export const fileStem = (index: number) => `frame_${String(index + 1).padStart(4, '0')}`;
+
+const clampBox = (item: DatasetItem, [x1, y1, x2, y2]: DetectedObject['bounding_box']) => {
+  const left = Math.max(0, Math.min(x1, x2));
+  const top = Math.max(0, Math.min(y1, y2));
+  const right = Math.min(item.width, Math.max(x1, x2));
+  const bottom = Math.min(item.height, Math.max(y1, y2));
+  return { left, top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+};
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+/** COCO "instances" JSON. Review flags ride along as extra image fields. */
+export const buildCocoDataset = (items: DatasetItem[], classes = collectClasses(items)) => {
+  let annotationId = 1;
+  return {
+    info: {
+      description: 'Vision navigation dataset export',
+      date_created: new Date().toISOString(),
+    },
+    images: items.map((item, idx) => ({
+      id: idx + 1,
+      file_name: `images/${fileStem(idx)}.${extensionFor(item.image)}`,
+      width: item.width,
+      height: item.height,
+      false_positive: item.falsePositive,
+      false_negative: item.falseNegative,
+    })),
+    annotations: items.flatMap((item, idx) =>
+      exportable(item.objects).map(obj => {
+        const box = clampBox(item, obj.bounding_box);
+        return {
+          id: annotationId++,
+          image_id: idx + 1,
+          category_id: classes.indexOf(obj.label.trim()) + 1,
+          bbox: [round(box.left, 2), round(box.top, 2), round(box.width, 2), round(box.height, 2)],
+          area: round(box.width * box.height, 2),
+          iscrowd: 0,
+        };
+      })
+    ),
+    categories: classes.map((name, idx) => ({ id: idx + 1, name, supercategory: 'object' })),
+  };
+};
+
+/** One YOLO label file: `class cx cy w h` per line, normalised to the image size. */
+export const buildYoloLabels = (item: DatasetItem, classes: string[]): string =>
+  exportable(item.objects)
+    .map(obj => {
+      const box = clampBox(item, obj.bounding_box);
+      const cx = (box.left + box.width / 2) / item.width;
+      const cy = (box.top + box.height / 2) / item.height;
+      return [
+        classes.indexOf(obj.label.trim()),
+        cx.toFixed(6),
+        cy.toFixed(6),
+        (box.width / item.width).toFixed(6),
+        (box.height / item.height).toFixed(6),
+      ].join(' ');
+    })
+    .join('\n');
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Zip with both layouts over the same images:
+ *   images/frame_0001.jpg
+ *   annotations.coco.json
+ *   labels/frame_0001.txt, data.yaml   (YOLO)
+ *   review.csv                         (false positive / negative flags)
+ */
+export const exportDatasetZip = (items: DatasetItem[]): Blob => {
+  const encoder = new TextEncoder();
+  const classes = collectClasses(items);
+  const text = (name: string, content: string): ZipEntry => ({ name, data: encoder.encode(content) });
+
+  const yaml = [
+    'path: .',
+    'train: images',
+    'val: images',
+    `nc: ${classes.length}`,
+    `names: [${classes.map(name => JSON.stringify(name)).join(', ')}]`,
+    '',
+  ].join('\n');
+
+  const review = [
+    'file_name,false_positive,false_negative',
+    ...items.map((item, idx) => `${fileStem(idx)}.${extensionFor(item.image)},${item.falsePositive},${item.falseNegative}`),
+    '',
+  ].join('\n');
+
+  return createZip([
+    ...items.map((item, idx) => ({ name: `images/${fileStem(idx)}.${extensionFor(item.image)}`, data: dataUrlToBytes(item.image) })),
+    ...items.map((item, idx) => text(`labels/${fileStem(idx)}.txt`, buildYoloLabels(item, classes))),
+    text('annotations.coco.json', JSON.stringify(buildCocoDataset(items, classes), null, 2)),
+    text('data.yaml', yaml),
+    text('review.csv', review),
+  ]);
+};
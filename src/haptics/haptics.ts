@@ -0,0 +1,125 @@
+import type { NavigationInstruction } from '../types';
+
+export type HapticDirection = NavigationInstruction['direction'];
+export type HapticPriority = NavigationInstruction['priority'];
+
+/** Alternating vibrate/pause durations in ms, as taken by `navigator.vibrate`. */
+export type HapticPattern = number[];
+
+/**
+ * Something that can play a vibration pattern. The phone's Vibration API is
+ * one; a BLE wearable would be another, translating patterns to its motors.
+ */
+export interface HapticOutput {
+  readonly name: string;
+  isAvailable(): boolean;
+  play(pattern: HapticPattern): void;
+  stop(): void;
+}
+
+export interface HapticSettings {
+  enabled: boolean;
+  patterns: Record<HapticDirection, HapticPattern>;
+}
+
+export const DEFAULT_HAPTIC_PATTERNS: Record<HapticDirection, HapticPattern> = {
+  left: [150, 100, 150],
+  right: [150, 100, 150, 100, 150],
+  forward: [400],
+  stop: [800],
+};
+
+export const DEFAULT_HAPTIC_SETTINGS: HapticSettings = {
+  enabled: false,
+  patterns: DEFAULT_HAPTIC_PATTERNS,
+};
+
+// Longest single vibration we accept from the editor
+const MAX_DURATION_MS = 5000;
+
+// The Vibration API has no amplitude control, so intensity means longer pulses and urgency means repeats
+const PRIORITY_SCALING: Record<HapticPriority, { pulse: number; pause: number; repeats: number }> = {
+  safe: { pulse: 1, pause: 1, repeats: 1 },
+  caution: { pulse: 1.25, pause: 1, repeats: 2 },
+  danger: { pulse: 1.5, pause: 0.5, repeats: 3 },
+};
+
+// Gap between repeats of a whole pattern
+const REPEAT_GAP_MS = 250;
+
+/** Stretches a direction pattern for a priority: stronger pulses, shorter gaps and repeats as urgency rises. */
+export const scalePattern = (pattern: HapticPattern, priority: HapticPriority): HapticPattern => {
+  const { pulse, pause, repeats } = PRIORITY_SCALING[priority];
+  const scaled = pattern.map((ms, idx) => Math.round(Math.min(MAX_DURATION_MS, ms * (idx % 2 === 0 ? pulse : pause))));
+  const result: HapticPattern = [];
+  for (let i = 0; i < repeats; i++) {
+    if (i > 0) result.push(Math.round(REPEAT_GAP_MS * pause));
+    result.push(...scaled);
+  }
+  return result;
+};
+
+/** A non-empty list of whole durations, none longer than we accept from the editor. */
+export const isValidPattern = (value: unknown): value is HapticPattern =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(ms => Number.isInteger(ms) && ms >= 0 && ms <= MAX_DURATION_MS);
+
+/** Parses "150, 100, 150" into a pattern; null when malformed. */
+export const parsePattern = (text: string): HapticPattern | null => {
+  const pattern = text.split(/[\s,]+/).filter(Boolean).map(Number);
+  return isValidPattern(pattern) ? pattern : null;
+};
+
+export const formatPattern = (pattern: HapticPattern) => pattern.join(', ');
+
+/** The phone's own vibration motor, via `navigator.vibrate`. */
+export class VibrationOutput implements HapticOutput {
+  readonly name = 'Vibration';
+
+  isAvailable() {
+    return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+  }
+
+  play(pattern: HapticPattern) {
+    if (this.isAvailable()) navigator.vibrate(pattern);
+  }
+
+  stop() {
+    if (this.isAvailable()) navigator.vibrate(0);
+  }
+}
+
+/** Delivers navigation instructions as vibration patterns on a `HapticOutput`. */
+export class HapticFeedback {
+  private settings: HapticSettings;
+  private readonly output: HapticOutput;
+
+  constructor(output: HapticOutput = new VibrationOutput(), settings: HapticSettings = DEFAULT_HAPTIC_SETTINGS) {
+    this.output = output;
+    this.settings = settings;
+  }
+
+  get available() {
+    return this.output.isAvailable();
+  }
+
+  updateSettings(settings: HapticSettings) {
+    this.settings = settings;
+    if (!settings.enabled) this.output.stop();
+  }
+
+  notify({ direction, priority }: Pick<NavigationInstruction, 'direction' | 'priority'>) {
+    if (!this.settings.enabled) return;
+    this.test(direction, priority);
+  }
+
+  /** Plays a direction's pattern regardless of the enabled setting, for the test panel. */
+  test(direction: HapticDirection, priority: HapticPriority) {
+    this.output.play(scalePattern(this.settings.patterns[direction], priority));
+  }
+
+  stop() {
+    this.output.stop();
+  }
+}
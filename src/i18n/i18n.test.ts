@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getTranslator, isLocale } from './i18n';
+
+describe('isLocale', () => {
+  it('accepts the supported locales', () => {
+    expect(['en', 'fr', 'ar'].every(isLocale)).toBe(true);
+  });
+
+  it('rejects unknown values and inherited object keys', () => {
+    ['de', '', 'toString', 'constructor', '__proto__', 7, null].forEach(value => {
+      expect(isLocale(value)).toBe(false);
+    });
+  });
+});
+
+describe('Translator', () => {
+  const en = getTranslator('en');
+
+  it('falls back to the raw label for unknown and inherited keys', () => {
+    expect(en.label('chair')).toBe('chair');
+    expect(en.label('chair', 2)).toBe('chairs');
+    expect(en.label('constructor')).toBe('constructor');
+    expect(en.label('toString', 2)).toBe('toString');
+  });
+
+  it('falls back to the zone label when the catalogue has no such zone', () => {
+    expect(en.zone({ id: 'left', label: 'ignored' })).toBe('left');
+    expect(en.zone({ id: 'constructor', label: 'custom' })).toBe('custom');
+  });
+
+  it('picks the plural form from the count', () => {
+    expect(getTranslator('fr').label('chair', 3)).toBe('chaises');
+    expect(getTranslator('ar').t('distance.about', { count: 2 })).toBe('على بعد مترين تقريبًا');
+  });
+});
@@ -0,0 +1,124 @@
+import { LABELS } from './labels';
+import { ar } from './messages/ar';
+import { en } from './messages/en';
+import { fr } from './messages/fr';
+
+export type Locale = 'en' | 'fr' | 'ar';
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+/** A plain template, or one template per plural category of the `count` param. */
+export type Message = string | (Partial<Record<PluralCategory, string>> & { other: string });
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+export interface LocaleInfo {
+  /** The language's own name, as shown in the switcher. */
+  name: string;
+  dir: 'ltr' | 'rtl';
+  /** BCP 47 tag given to speech synthesis. */
+  speechLang: string;
+  /** Plural categories that take the plural noun in `LABELS`; every other category takes the singular. */
+  pluralNouns: PluralCategory[];
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { name: 'English', dir: 'ltr', speechLang: 'en-US', pluralNouns: ['other'] },
+  fr: { name: 'Français', dir: 'ltr', speechLang: 'fr-FR', pluralNouns: ['many', 'other'] },
+  // 11 and up count with the singular: "١١ كرسيًا"
+  ar: { name: 'العربية', dir: 'rtl', speechLang: 'ar-SA', pluralNouns: ['two', 'few'] },
+};
+
+const CATALOGS: Record<Locale, Catalog> = { en, fr, ar };
+
+export interface Translator {
+  locale: Locale;
+  dir: LocaleInfo['dir'];
+  /**
+   * The message for `key` with `{name}` placeholders filled from `params`.
+   * Numbers are formatted for the locale, and a numeric `count` param picks
+   * the plural form.
+   */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  /** A detector class name in this language, plural for `count` where the language wants it. Unknown classes are returned as-is. */
+  label: (label: string, count?: number) => string;
+  /** A zone's spoken/displayed name, falling back to its own label for zones the catalogue doesn't know. */
+  zone: (zone: { id: string; label: string }) => string;
+}
+
+const isMessageKey = (key: string): key is MessageKey => Object.hasOwn(en, key);
+
+const createTranslator = (locale: Locale): Translator => {
+  const catalog = CATALOGS[locale];
+  const { dir, pluralNouns } = LOCALES[locale];
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 });
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message = catalog[key];
+    const template = typeof message === 'string'
+      ? message
+      : message[typeof params.count === 'number' ? plurals.select(params.count) as PluralCategory : 'other'] ?? message.other;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    });
+  };
+
+  return {
+    locale,
+    dir,
+    t,
+    label: (label, count = 1) => {
+      const key = label.toLowerCase();
+      // Own keys only: a detector label like "constructor" must not reach Object.prototype
+      if (!Object.hasOwn(LABELS[locale], key)) return label;
+      const forms = LABELS[locale][key];
+      return pluralNouns.includes(plurals.select(count) as PluralCategory) ? forms[1] : forms[0];
+    },
+    zone: zone => {
+      const key = `zone.${zone.id}`;
+      return isMessageKey(key) ? t(key) : zone.label;
+    },
+  };
+};
+
+const translators: Partial<Record<Locale, Translator>> = {};
+
+/** One shared translator per locale. */
+export const getTranslator = (locale: Locale): Translator =>
+  (translators[locale] ??= createTranslator(locale));
+
+/** English, for callers that don't pass a translator. */
+export const defaultTranslator = getTranslator('en');
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && Object.hasOwn(LOCALES, value);
+
+// Where the choice lived before it became part of the user profile
+const LEGACY_STORAGE_KEY = 'vision-nav-locale';
+
+/**
+ * The language for a new profile: the choice made before profiles existed,
+ * else the browser's language when we have it, else English.
+ */
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage disabled; fall through to the browser language
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language.split('-')[0] : '';
+  return isLocale(browser) ? browser : 'en';
+};
+
+/** Sets `lang` and `dir` on the page, so the layout mirrors and screen readers switch voice. */
+export const applyDocumentLocale = (locale: Locale) => {
+  document.documentElement.lang = locale;
+  document.documentElement.dir = LOCALES[locale].dir;
+};
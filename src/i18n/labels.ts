@@ -0,0 +1,257 @@
+import type { Locale } from './i18n';
+
+/** Singular and plural noun for each detector class; see `LocaleInfo.pluralNouns` for which counts take which. */
+export type LabelForms = [singular: string, plural: string];
+
+// The 80 COCO classes, plus "table", which some detector builds emit for dining table
+export const LABELS: Record<Locale, Record<string, LabelForms>> = {
+  en: {
+    person: ['person', 'people'],
+    bicycle: ['bicycle', 'bicycles'],
+    car: ['car', 'cars'],
+    motorcycle: ['motorcycle', 'motorcycles'],
+    airplane: ['airplane', 'airplanes'],
+    bus: ['bus', 'buses'],
+    train: ['train', 'trains'],
+    truck: ['truck', 'trucks'],
+    boat: ['boat', 'boats'],
+    'traffic light': ['traffic light', 'traffic lights'],
+    'fire hydrant': ['fire hydrant', 'fire hydrants'],
+    'stop sign': ['stop sign', 'stop signs'],
+    'parking meter': ['parking meter', 'parking meters'],
+    bench: ['bench', 'benches'],
+    bird: ['bird', 'birds'],
+    cat: ['cat', 'cats'],
+    dog: ['dog', 'dogs'],
+    horse: ['horse', 'horses'],
+    sheep: ['sheep', 'sheep'],
+    cow: ['cow', 'cows'],
+    elephant: ['elephant', 'elephants'],
+    bear: ['bear', 'bears'],
+    zebra: ['zebra', 'zebras'],
+    giraffe: ['giraffe', 'giraffes'],
+    backpack: ['backpack', 'backpacks'],
+    umbrella: ['umbrella', 'umbrellas'],
+    handbag: ['handbag', 'handbags'],
+    tie: ['tie', 'ties'],
+    suitcase: ['suitcase', 'suitcases'],
+    frisbee: ['frisbee', 'frisbees'],
+    skis: ['skis', 'skis'],
+    snowboard: ['snowboard', 'snowboards'],
+    'sports ball': ['ball', 'balls'],
+    kite: ['kite', 'kites'],
+    'baseball bat': ['baseball bat', 'baseball bats'],
+    'baseball glove': ['baseball glove', 'baseball gloves'],
+    skateboard: ['skateboard', 'skateboards'],
+    surfboard: ['surfboard', 'surfboards'],
+    'tennis racket': ['tennis racket', 'tennis rackets'],
+    bottle: ['bottle', 'bottles'],
+    'wine glass': ['wine glass', 'wine glasses'],
+    cup: ['cup', 'cups'],
+    fork: ['fork', 'forks'],
+    knife: ['knife', 'knives'],
+    spoon: ['spoon', 'spoons'],
+    bowl: ['bowl', 'bowls'],
+    banana: ['banana', 'bananas'],
+    apple: ['apple', 'apples'],
+    sandwich: ['sandwich', 'sandwiches'],
+    orange: ['orange', 'oranges'],
+    broccoli: ['broccoli', 'broccoli'],
+    carrot: ['carrot', 'carrots'],
+    'hot dog': ['hot dog', 'hot dogs'],
+    pizza: ['pizza', 'pizzas'],
+    donut: ['donut', 'donuts'],
+    cake: ['cake', 'cakes'],
+    chair: ['chair', 'chairs'],
+    couch: ['couch', 'couches'],
+    'potted plant': ['potted plant', 'potted plants'],
+    bed: ['bed', 'beds'],
+    'dining table': ['table', 'tables'],
+    table: ['table', 'tables'],
+    toilet: ['toilet', 'toilets'],
+    tv: ['TV', 'TVs'],
+    laptop: ['laptop', 'laptops'],
+    mouse: ['mouse', 'mice'],
+    remote: ['remote', 'remotes'],
+    keyboard: ['keyboard', 'keyboards'],
+    'cell phone': ['phone', 'phones'],
+    microwave: ['microwave', 'microwaves'],
+    oven: ['oven', 'ovens'],
+    toaster: ['toaster', 'toasters'],
+    sink: ['sink', 'sinks'],
+    refrigerator: ['refrigerator', 'refrigerators'],
+    book: ['book', 'books'],
+    clock: ['clock', 'clocks'],
+    vase: ['vase', 'vases'],
+    scissors: ['scissors', 'scissors'],
+    'teddy bear': ['teddy bear', 'teddy bears'],
+    'hair drier': ['hair dryer', 'hair dryers'],
+    toothbrush: ['toothbrush', 'toothbrushes'],
+  },
+  fr: {
+    person: ['personne', 'personnes'],
+    bicycle: ['vélo', 'vélos'],
+    car: ['voiture', 'voitures'],
+    motorcycle: ['moto', 'motos'],
+    airplane: ['avion', 'avions'],
+    bus: ['bus', 'bus'],
+    train: ['train', 'trains'],
+    truck: ['camion', 'camions'],
+    boat: ['bateau', 'bateaux'],
+    'traffic light': ['feu de circulation', 'feux de circulation'],
+    'fire hydrant': ['bouche d’incendie', 'bouches d’incendie'],
+    'stop sign': ['panneau stop', 'panneaux stop'],
+    'parking meter': ['parcmètre', 'parcmètres'],
+    bench: ['banc', 'bancs'],
+    bird: ['oiseau', 'oiseaux'],
+    cat: ['chat', 'chats'],
+    dog: ['chien', 'chiens'],
+    horse: ['cheval', 'chevaux'],
+    sheep: ['mouton', 'moutons'],
+    cow: ['vache', 'vaches'],
+    elephant: ['éléphant', 'éléphants'],
+    bear: ['ours', 'ours'],
+    zebra: ['zèbre', 'zèbres'],
+    giraffe: ['girafe', 'girafes'],
+    backpack: ['sac à dos', 'sacs à dos'],
+    umbrella: ['parapluie', 'parapluies'],
+    handbag: ['sac à main', 'sacs à main'],
+    tie: ['cravate', 'cravates'],
+    suitcase: ['valise', 'valises'],
+    frisbee: ['frisbee', 'frisbees'],
+    skis: ['skis', 'skis'],
+    snowboard: ['snowboard', 'snowboards'],
+    'sports ball': ['ballon', 'ballons'],
+    kite: ['cerf-volant', 'cerfs-volants'],
+    'baseball bat': ['batte de baseball', 'battes de baseball'],
+    'baseball glove': ['gant de baseball', 'gants de baseball'],
+    skateboard: ['skateboard', 'skateboards'],
+    surfboard: ['planche de surf', 'planches de surf'],
+    'tennis racket': ['raquette de tennis', 'raquettes de tennis'],
+    bottle: ['bouteille', 'bouteilles'],
+    'wine glass': ['verre à vin', 'verres à vin'],
+    cup: ['tasse', 'tasses'],
+    fork: ['fourchette', 'fourchettes'],
+    knife: ['couteau', 'couteaux'],
+    spoon: ['cuillère', 'cuillères'],
+    bowl: ['bol', 'bols'],
+    banana: ['banane', 'bananes'],
+    apple: ['pomme', 'pommes'],
+    sandwich: ['sandwich', 'sandwichs'],
+    orange: ['orange', 'oranges'],
+    broccoli: ['brocoli', 'brocolis'],
+    carrot: ['carotte', 'carottes'],
+    'hot dog': ['hot-dog', 'hot-dogs'],
+    pizza: ['pizza', 'pizzas'],
+    donut: ['beignet', 'beignets'],
+    cake: ['gâteau', 'gâteaux'],
+    chair: ['chaise', 'chaises'],
+    couch: ['canapé', 'canapés'],
+    'potted plant': ['plante en pot', 'plantes en pot'],
+    bed: ['lit', 'lits'],
+    'dining table': ['table', 'tables'],
+    table: ['table', 'tables'],
+    toilet: ['toilettes', 'toilettes'],
+    tv: ['télévision', 'télévisions'],
+    laptop: ['ordinateur portable', 'ordinateurs portables'],
+    mouse: ['souris', 'souris'],
+    remote: ['télécommande', 'télécommandes'],
+    keyboard: ['clavier', 'claviers'],
+    'cell phone': ['téléphone', 'téléphones'],
+    microwave: ['micro-ondes', 'micro-ondes'],
+    oven: ['four', 'fours'],
+    toaster: ['grille-pain', 'grille-pain'],
+    sink: ['évier', 'éviers'],
+    refrigerator: ['réfrigérateur', 'réfrigérateurs'],
+    book: ['livre', 'livres'],
+    clock: ['horloge', 'horloges'],
+    vase: ['vase', 'vases'],
+    scissors: ['ciseaux', 'ciseaux'],
+    'teddy bear': ['ours en peluche', 'ours en peluche'],
+    'hair drier': ['sèche-cheveux', 'sèche-cheveux'],
+    toothbrush: ['brosse à dents', 'brosses à dents'],
+  },
+  ar: {
+    person: ['شخص', 'أشخاص'],
+    bicycle: ['دراجة', 'دراجات'],
+    car: ['سيارة', 'سيارات'],
+    motorcycle: ['دراجة نارية', 'دراجات نارية'],
+    airplane: ['طائرة', 'طائرات'],
+    bus: ['حافلة', 'حافلات'],
+    train: ['قطار', 'قطارات'],
+    truck: ['شاحنة', 'شاحنات'],
+    boat: ['قارب', 'قوارب'],
+    'traffic light': ['إشارة مرور', 'إشارات مرور'],
+    'fire hydrant': ['صنبور إطفاء', 'صنابير إطفاء'],
+    'stop sign': ['إشارة توقف', 'إشارات توقف'],
+    'parking meter': ['عداد موقف', 'عدادات مواقف'],
+    bench: ['مقعد', 'مقاعد'],
+    bird: ['طائر', 'طيور'],
+    cat: ['قطة', 'قطط'],
+    dog: ['كلب', 'كلاب'],
+    horse: ['حصان', 'أحصنة'],
+    sheep: ['خروف', 'خراف'],
+    cow: ['بقرة', 'أبقار'],
+    elephant: ['فيل', 'فيلة'],
+    bear: ['دب', 'دببة'],
+    zebra: ['حمار وحشي', 'حمير وحشية'],
+    giraffe: ['زرافة', 'زرافات'],
+    backpack: ['حقيبة ظهر', 'حقائب ظهر'],
+    umbrella: ['مظلة', 'مظلات'],
+    handbag: ['حقيبة يد', 'حقائب يد'],
+    tie: ['ربطة عنق', 'ربطات عنق'],
+    suitcase: ['حقيبة سفر', 'حقائب سفر'],
+    frisbee: ['قرص طائر', 'أقراص طائرة'],
+    skis: ['زلاجات', 'زلاجات'],
+    snowboard: ['لوح تزلج', 'ألواح تزلج'],
+    'sports ball': ['كرة', 'كرات'],
+    kite: ['طائرة ورقية', 'طائرات ورقية'],
+    'baseball bat': ['مضرب بيسبول', 'مضارب بيسبول'],
+    'baseball glove': ['قفاز بيسبول', 'قفازات بيسبول'],
+    skateboard: ['لوح تزلج', 'ألواح تزلج'],
+    surfboard: ['لوح ركوب أمواج', 'ألواح ركوب أمواج'],
+    'tennis racket': ['مضرب تنس', 'مضارب تنس'],
+    bottle: ['زجاجة', 'زجاجات'],
+    'wine glass': ['كأس', 'كؤوس'],
+    cup: ['كوب', 'أكواب'],
+    fork: ['شوكة', 'شوك'],
+    knife: ['سكين', 'سكاكين'],
+    spoon: ['ملعقة', 'ملاعق'],
+    bowl: ['وعاء', 'أوعية'],
+    banana: ['موزة', 'موزات'],
+    apple: ['تفاحة', 'تفاحات'],
+    sandwich: ['شطيرة', 'شطائر'],
+    orange: ['برتقالة', 'برتقالات'],
+    broccoli: ['بروكلي', 'بروكلي'],
+    carrot: ['جزرة', 'جزرات'],
+    'hot dog': ['نقانق', 'نقانق'],
+    pizza: ['بيتزا', 'بيتزا'],
+    donut: ['دونات', 'دونات'],
+    cake: ['كعكة', 'كعكات'],
+    chair: ['كرسي', 'كراسي'],
+    couch: ['أريكة', 'أرائك'],
+    'potted plant': ['نبتة في أصيص', 'نباتات في أصص'],
+    bed: ['سرير', 'أسرّة'],
+    'dining table': ['طاولة', 'طاولات'],
+    table: ['طاولة', 'طاولات'],
+    toilet: ['مرحاض', 'مراحيض'],
+    tv: ['تلفاز', 'أجهزة تلفاز'],
+    laptop: ['حاسوب محمول', 'حواسيب محمولة'],
+    mouse: ['فأرة', 'فأرات'],
+    remote: ['جهاز تحكم', 'أجهزة تحكم'],
+    keyboard: ['لوحة مفاتيح', 'لوحات مفاتيح'],
+    'cell phone': ['هاتف', 'هواتف'],
+    microwave: ['ميكروويف', 'أجهزة ميكروويف'],
+    oven: ['فرن', 'أفران'],
+    toaster: ['محمصة', 'محامص'],
+    sink: ['مغسلة', 'مغاسل'],
+    refrigerator: ['ثلاجة', 'ثلاجات'],
+    book: ['كتاب', 'كتب'],
+    clock: ['ساعة', 'ساعات'],
+    vase: ['مزهرية', 'مزهريات'],
+    scissors: ['مقص', 'مقصات'],
+    'teddy bear': ['دب محشو', 'دببة محشوة'],
+    'hair drier': ['مجفف شعر', 'مجففات شعر'],
+    toothbrush: ['فرشاة أسنان', 'فرش أسنان'],
+  },
+};
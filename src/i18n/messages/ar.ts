@@ -0,0 +1,347 @@
+import type { Catalog } from '../i18n';
+
+export const ar: Catalog = {
+  // Header and connection
+  'app.title': 'نظام الملاحة البصرية للمكفوفين',
+  'app.subtitle': 'إرشاد فوري بالذكاء الاصطناعي مع توجيه حسب الاتجاه',
+  'app.language': 'اللغة',
+  'app.profile': 'الملف الشخصي',
+  'app.mockBackend': 'خادم تجريبي: {scenario}',
+  'app.shortcuts': 'الاختصارات ({key})',
+  'app.sessions': 'الجلسات',
+  'app.dataset': 'مجموعة البيانات',
+  'app.benchmark': 'قياس الأداء',
+  'server.checking': 'جارٍ فحص الخادم...',
+  'server.online': 'الخادم متصل',
+  'server.reconnecting': 'جارٍ إعادة الاتصال (المحاولة {attempt})...',
+  'server.offline': 'الخادم غير متصل',
+  'offline.title': 'الخادم لا يعمل',
+  'offline.start': 'يرجى تشغيل الخادم:',
+  'offline.retryIn': 'إعادة المحاولة تلقائيًا بعد {seconds} ث.',
+  'offline.retry': 'إعادة محاولة الاتصال',
+  'reconnecting.message': 'انقطع الاتصال بالخادم. الإرشاد متوقف مؤقتًا؛ إعادة الاتصال بعد {seconds} ث.',
+  'reconnecting.resume': 'ستستأنف الكاميرا والمعالجة التلقائية عملها تلقائيًا.',
+  'reconnecting.retryNow': 'أعد المحاولة الآن',
+
+  // Camera
+  'camera.title': 'بث الكاميرا',
+  'camera.source': 'مصدر الكاميرا:',
+  'camera.thisDevice': 'هذا الجهاز',
+  'camera.server': 'كاميرا الخادم',
+  'camera.device': 'الكاميرا:',
+  'camera.defaultDevice': 'الافتراضية (الكاميرا الخلفية)',
+  'camera.index': 'رقم الكاميرا:',
+  'camera.stream': 'البث:',
+  'camera.streamAuto': 'تلقائي',
+  'camera.streamMjpeg': 'بث MJPEG',
+  'camera.streamWebsocket': 'دفع عبر WebSocket',
+  'camera.streamPolling': 'استطلاع دوري',
+  'camera.start': 'تشغيل الكاميرا',
+  'camera.stop': 'إيقاف الكاميرا',
+  'camera.off': 'الكاميرا متوقفة',
+  'camera.offHint': 'انقر على «{button}» أو اضغط {key} للبدء',
+  'camera.live': 'مباشر',
+  'camera.waiting': 'في انتظار الخادم',
+  'camera.imageAlt': 'بث الكاميرا',
+  'toggle.directions': 'إظهار مناطق الاتجاه',
+  'toggle.boxes': 'إظهار مربعات الكشف',
+  'toggle.autoAdaptive': 'معالجة تلقائية (متكيفة)',
+  'toggle.autoFixed': 'معالجة تلقائية (كل {seconds} ث)',
+  'toggle.record': 'تسجيل الجلسة',
+  'toggle.voice': 'الإرشاد الصوتي',
+  'toggle.narrate': 'الإعلان عن تغييرات المشهد',
+  'stale.banner': 'الإرشاد غير متاح: لا نتيجة جديدة منذ أكثر من {seconds} ث. التعليمات أدناه قديمة.',
+  'annotated.title': 'الصورة المعالجة مع مربعات الكشف',
+  'annotated.alt': 'صورة موسومة',
+  'annotated.download': 'تنزيل الصورة',
+  'annotated.missing': 'لا تتوفر صورة موسومة',
+  'annotated.missingHint': 'تأكد من أن الخادم يعيد الحقل ‎annotated_image_base64‎ في الاستجابة',
+  'annotated.debug': 'إظهار معلومات التصحيح',
+
+  // Processing modes
+  'controls.title': 'خيارات المعالجة',
+  'controls.selectMode': 'اختر وضع المعالجة:',
+  'mode.basic.name': 'أساسي',
+  'mode.basic.description': 'كشف سريع فقط',
+  'mode.gpt2-mini.name': 'GPT-2 Mini',
+  'mode.gpt2-mini.description': 'سريع وجودة جيدة',
+  'mode.gpt2.name': 'GPT-2',
+  'mode.gpt2.description': 'أوصاف مفصلة',
+  'mode.gpt2-mini-fusion.name': 'GPT-2 Mini + دمج',
+  'mode.gpt2-mini-fusion.description': 'أفضل توازن',
+  'mode.gpt2-fusion.name': 'GPT-2 + دمج',
+  'mode.gpt2-fusion.description': 'أعلى جودة',
+  'mode.fusion': 'دمج',
+  'mode.unavailable': 'غير متاح',
+  'mode.unavailableReason': 'غير متاح: {reason}',
+  'mode.builtInOnly': 'لا يعرض الخادم أوضاعه؛ تُعرض الأوضاع المدمجة.',
+  'mode.noEstimate': 'لا يوجد تقدير',
+  'mode.measured': 'الوسيط {median} · p90 {p90}',
+  'mode.expected': '~{latency} (متوقع)',
+  'mode.estimate': '~{latency} (تقديري)',
+  'process.processing': 'جارٍ المعالجة...',
+  'process.auto': 'معالجة تلقائية',
+  'process.frame': 'معالجة الإطار',
+  'process.nextFrame': 'الإطار التالي بعد {seconds} ث ({reason})',
+  'process.lastTook': 'استغرق الأخير {latency}',
+  'process.fallback': 'يُستخدم {mode} للبقاء ضمن الحد',
+  'cadence.fixed': 'فاصل ثابت',
+  'cadence.error': 'إعادة المحاولة بعد خطأ',
+  'cadence.danger': 'خطر في الأمام',
+  'cadence.changing': 'المشهد يتغير',
+  'cadence.shifting': 'المشهد يتبدل قليلًا',
+  'cadence.static': 'المشهد ثابت',
+  'dataset.add': 'إضافة إلى مجموعة البيانات',
+  'seek.title': 'البحث عن شيء',
+  'seek.target': 'ابحث عن:',
+  'seek.off': 'لا شيء (تجنّب العوائق)',
+  'seek.arrival': 'الوصول عندما يملأ {percent}% من الصورة',
+  'seek.hint': 'يوجّهك الإرشاد نحو أقرب تطابق بدلًا من الالتفاف حول العوائق. تبقى العوائق القريبة الخطرة أولوية.',
+
+  // Results
+  'results.title': 'النتائج',
+  'results.caption': 'الوصف المختصر:',
+  'results.objects': 'الأشياء المكتشفة ({count}):',
+  'results.description': 'وصف الذكاء الاصطناعي:',
+  'results.attention': 'إحصاءات الانتباه:',
+  'results.mean': 'المتوسط:',
+  'results.max': 'الأقصى:',
+  'results.std': 'الانحراف المعياري:',
+  'results.model': 'النموذج: {model}',
+  'results.fusion': 'الدمج:',
+  'scene.log': 'تغييرات المشهد:',
+  'scene.describe': 'صف المشهد',
+  'motion.approaching': 'يقترب',
+  'motion.receding': 'يبتعد',
+  'motion.crossing': 'يعبر',
+
+  // Announcements
+  'announce.serverRestored': 'عاد الاتصال بالخادم',
+  'announce.serverLost': 'انقطع الاتصال بالخادم. جارٍ إعادة الاتصال.',
+  'announce.guidanceUnavailable': 'الإرشاد غير متاح.',
+  'announce.guidanceUnavailableOffline': 'الإرشاد غير متاح. انقطع الاتصال بالخادم.',
+  'announce.guidanceRestored': 'عاد الإرشاد',
+  'announce.cameraStarted': 'تم تشغيل الكاميرا',
+  'announce.cameraFailed': 'تعذر تشغيل الكاميرا',
+  'announce.cameraStopped': 'تم إيقاف الكاميرا',
+  'announce.fallback': 'بطيء جدًا، تم التبديل إلى {mode}',
+  'announce.datasetAdded': 'أضيف الإطار إلى مجموعة البيانات',
+  'announce.autoAlreadyOn': 'المعالجة التلقائية مفعلة',
+  'announce.autoOn': 'تم تفعيل المعالجة التلقائية',
+  'announce.autoOff': 'تم إيقاف المعالجة التلقائية',
+  'announce.noInstruction': 'لا توجد تعليمات بعد',
+  'announce.noScene': 'لم تتم معالجة أي مشهد بعد',
+  'announce.mode': 'وضع {name}. {description}',
+  'announce.voiceEnabled': 'تم تفعيل الإرشاد الصوتي',
+  'announce.voiceTest': 'هكذا سيبدو الإرشاد.',
+  'announce.language': 'العربية',
+  'announce.profile': 'الملف الشخصي: {name}',
+  'announce.seekStart': 'جارٍ البحث عن {object}',
+  'announce.seekStop': 'توقف البحث. تجنّب العوائق.',
+
+  // Errors
+  'error.resumeCamera': 'تعذر استئناف الكاميرا: {error}',
+  'error.cannotConnect': 'تعذر الاتصال بالخادم. تأكد من أنه يعمل على {url}',
+  'error.serverUnavailable': 'الخادم غير متاح',
+  'error.cameraDenied': 'تم رفض إذن الكاميرا. اسمح بالوصول إلى الكاميرا من إعدادات المتصفح.',
+  'error.cameraOpen': 'تعذر فتح الكاميرا: {error}',
+  'error.serverConnect': 'خطأ في الاتصال بالخادم',
+  'error.stopCamera': 'خطأ أثناء إيقاف الكاميرا',
+  'error.frames': 'تعذر استقبال إطارات الكاميرا من الخادم',
+  'error.startCameraFirst': 'يرجى تشغيل الكاميرا أولًا',
+  'error.cameraNotReady': 'الكاميرا غير جاهزة',
+  'error.invalidResponse': 'استجابة غير صالحة من الخادم: {error}',
+  'error.processing': 'خطأ في معالجة الإطار: {error}',
+  'error.noDatasetImage': 'لا تتوفر صورة لهذا الإطار لإضافتها إلى مجموعة البيانات',
+  'error.datasetAdd': 'تعذرت الإضافة إلى مجموعة البيانات: {error}',
+  'error.recording': 'تعذر بدء التسجيل: {error}',
+  'error.annotatedLoad': 'تعذر تحميل الصورة الموسومة',
+
+  // Navigation instructions, spoken and shown
+  'nav.pathBlocked': 'الطريق مسدود: {object} أمامك.',
+  'nav.moveLeft': 'تحرك إلى اليسار.',
+  'nav.moveRight': 'تحرك إلى اليمين.',
+  'nav.stopAllDirections': 'توقف! عوائق في كل الاتجاهات.',
+  'nav.allDirections': 'عوائق في كل الاتجاهات. {object} أمامك.',
+  'nav.clear': 'الطريق أمامك خالٍ. يمكنك التقدم بأمان.',
+  'nav.obstacleLeft': 'عائق على اليسار: {object}. ابقَ على اليمين.',
+  'nav.obstacleRight': 'عائق على اليمين: {object}. ابقَ على اليسار.',
+  'nav.caution': 'تقدم بحذر. توجد أشياء قريبة.',
+  'nav.approachingAhead': '{object} يقترب من الأمام.',
+  'nav.approachingFrom': '{object} يقترب من {zone}.',
+  'nav.walkStraight': 'امشِ إلى الأمام مباشرة.',
+  'nav.bearLeft': 'انحرف {degrees}° إلى اليسار، باتجاه الساعة {count}.',
+  'nav.bearRight': 'انحرف {degrees}° إلى اليمين، باتجاه الساعة {count}.',
+  'nav.stillClear': 'الطريق لا يزال خاليًا.',
+  'nav.objectDistance': '{object} {distance}',
+  'nav.reasonObstacle': 'تم رصد عائق: {labels}',
+  'nav.reasonMultiple': 'تم رصد عدة عوائق',
+  'nav.reasonNone': 'لم يُرصد أي عائق',
+  'nav.reasonLeft': 'الجانب الأيسر: {labels}',
+  'nav.reasonRight': 'الجانب الأيمن: {labels}',
+  'nav.reasonDetected': 'تم رصد: {labels}',
+  'nav.reasonApproaching': '{reason}. يقترب: {tracks}',
+  'seek.found': 'تم العثور على {object}، {where}، {distance}. واصل التقدم.',
+  'seek.ahead': 'أمامك مباشرة',
+  'seek.slightlyLeft': 'إلى اليسار قليلًا',
+  'seek.slightlyRight': 'إلى اليمين قليلًا',
+  'seek.left': 'على يسارك',
+  'seek.right': 'على يمينك',
+  'seek.arrived': 'لقد وصلت: {object} أمامك مباشرة.',
+  'seek.lost': 'لا يظهر {object}. استدر ببطء لتنظر حولك.',
+  'seek.lostLeft': 'لا يظهر {object}. استدر ببطء إلى اليسار حيث شوهد آخر مرة.',
+  'seek.lostRight': 'لا يظهر {object}. استدر ببطء إلى اليمين حيث شوهد آخر مرة.',
+  'seek.reasonFound': 'البحث عن {object}: يغطي {coverage}% من الصورة',
+  'seek.reasonArrived': 'البحث عن {object}: يغطي {coverage}% من الصورة، قريب بما يكفي',
+  'seek.reasonLost': 'البحث عن {object}: غير موجود في هذه الصورة',
+  'scene.at': 'على {zone}',
+  'scene.atFront': 'أمامك',
+  'scene.count': '{count} {object}',
+  'scene.appeared': 'جديد {where}: {objects}.',
+  'scene.disappeared': 'لم يعد ظاهرًا {where}: {objects}.',
+  'scene.moved': 'تغيّر موضع {objects}: الآن {where}، وكان {from}.',
+  'list.separator': '، ',
+  'distance.veryClose': 'قريب جدًا',
+  'distance.fewMeters': 'على بعد بضعة أمتار',
+  'distance.far': 'بعيد',
+  'distance.underOne': 'على بعد أقل من متر',
+  'distance.overTen': 'على بعد أكثر من عشرة أمتار',
+  'distance.about': {
+    one: 'على بعد متر واحد تقريبًا',
+    two: 'على بعد مترين تقريبًا',
+    few: 'على بعد {count} أمتار تقريبًا',
+    many: 'على بعد {count} مترًا تقريبًا',
+    other: 'على بعد {count} متر تقريبًا',
+  },
+  'zone.far-left': 'أقصى اليسار',
+  'zone.left': 'اليسار',
+  'zone.slight-left': 'يسارًا قليلًا',
+  'zone.front': 'الأمام',
+  'zone.slight-right': 'يمينًا قليلًا',
+  'zone.right': 'اليمين',
+  'zone.far-right': 'أقصى اليمين',
+
+  // Navigation and guidance panels
+  'nav.title': 'تعليمات الملاحة',
+  'nav.action': 'الإجراء:',
+  'nav.heading': 'الاتجاه:',
+  'nav.straight': 'إلى الأمام مباشرة',
+  'nav.headingLeft': '{degrees}° يسارًا',
+  'nav.headingRight': '{degrees}° يمينًا',
+  'nav.clock': '(الساعة {count})',
+  'nav.corridor': 'ممر بعرض {degrees}°',
+  'direction.left': 'يسار',
+  'direction.right': 'يمين',
+  'direction.forward': 'إلى الأمام',
+  'direction.stop': 'توقف',
+  'guidance.title': 'الإرشاد المكاني',
+  'guidance.hazard': 'خطر',
+  'guidance.clear': 'خالٍ',
+  'guidance.count': '{count} {label}',
+
+  // Keyboard shortcuts
+  'help.title': 'اختصارات لوحة المفاتيح',
+  'help.hint': 'تُتجاهل الاختصارات أثناء الكتابة في حقل. تنقل مفاتيح الأسهم بين أوضاع المعالجة.',
+  'help.close': 'إغلاق',
+  'hotkey.toggle-camera': 'تشغيل الكاميرا أو إيقافها',
+  'hotkey.process': 'معالجة الإطار الحالي',
+  'hotkey.toggle-auto': 'تفعيل المعالجة التلقائية أو إيقافها',
+  'hotkey.repeat': 'تكرار آخر تعليمات',
+  'hotkey.describe': 'وصف المشهد',
+  'hotkey.next-mode': 'وضع المعالجة التالي',
+  'hotkey.previous-mode': 'وضع المعالجة السابق',
+  'hotkey.next-profile': 'الانتقال إلى الملف الشخصي التالي',
+  'hotkey.help': 'إظهار هذه المساعدة أو إخفاؤها',
+
+  // Settings panels
+  'common.off': 'متوقف',
+  'common.seconds': '{seconds} ث',
+  'common.volume': 'مستوى الصوت: {volume}٪',
+  'autoProcess.title': 'سياسة المعالجة التلقائية',
+  'autoProcess.cadence': 'الإيقاع:',
+  'autoProcess.adaptive': 'متكيف',
+  'autoProcess.fixed': 'فاصل ثابت',
+  'autoProcess.steady': 'مشهد مستقر: {interval}',
+  'autoProcess.every': 'كل: {interval}',
+  'autoProcess.changing': 'مشهد متغير أو خطر: {interval}',
+  'autoProcess.static': 'مشهد ثابت، بحد أقصى: {interval}',
+  'autoProcess.budget': 'حد زمن الاستجابة:',
+  'autoProcess.fallback': 'عند تجاوز الحد، بدّل إلى:',
+  'autoProcess.staleAfter': 'نبّه عندما يكون الإرشاد أقدم من:',
+  'autoProcess.hint': 'يُعالج إطار واحد في كل مرة. يتسارع الإيقاع المتكيف عندما تظهر الأشياء أو تتحرك أو تختفي وبعد تحذير خطر، ويتباطأ عندما لا يتغير شيء. يستمر الوضع البديل حتى تختار وضعًا أو تعيد تشغيل المعالجة التلقائية.',
+  'speech.title': 'إعدادات الصوت',
+  'speech.voice': 'الصوت:',
+  'speech.automatic': 'تلقائي ({language})',
+  'speech.otherLanguages': 'لغات أخرى',
+  'speech.mismatch': 'هذا الصوت لا يتحدث {language}، لذا يستخدم الإرشاد صوتًا بلغة {language} بدلًا منه.',
+  'speech.rate': 'السرعة: {rate}×',
+  'speech.pitch': 'طبقة الصوت: {pitch}',
+  'speech.test': 'تجربة الصوت',
+  'sonification.title': 'الصوت المكاني',
+  'sonification.enable': 'تحويل العوائق إلى أصوات',
+  'sonification.replaceSpeech': 'بدلًا من الإرشاد المنطوق',
+  'sonification.tones': 'نغمات المعايرة',
+  'sonification.left': 'يسار',
+  'sonification.front': 'أمام',
+  'sonification.right': 'يمين',
+  'sonification.hint': 'استخدم سماعات الرأس. يحدد الموقع توازن الصوت بين الأذنين، وتنبض العوائق الأقرب أسرع وبنغمة أعلى. تطن المركبات، وتصفّر المخاطر الأخرى، وتهمهم بقية الأشياء بهدوء. الصمت يعني أن الطريق خالٍ.',
+  'haptics.title': 'الاهتزاز',
+  'haptics.unsupported': 'الاهتزاز غير مدعوم على هذا الجهاز أو المتصفح.',
+  'haptics.enable': 'الاهتزاز مع الإرشاد',
+  'haptics.testAs': 'التجربة كـ:',
+  'haptics.test': 'تجربة {direction}',
+  'haptics.reset': 'إعادة ضبط الأنماط',
+  'haptics.hint': 'تتناوب الأنماط بين الاهتزاز والتوقف بالمللي ثانية. يعيد الحذر نبضات أطول مرتين، والخطر ثلاث مرات بفواصل أقصر.',
+  'priority.safe': 'آمن',
+  'priority.caution': 'حذر',
+  'priority.danger': 'خطر',
+  'stabilizer.title': 'ثبات الإرشاد',
+  'stabilizer.persist': {
+    one: 'تأكيد الاتجاه الجديد بعد إطار واحد',
+    two: 'تأكيد الاتجاه الجديد بعد إطارين',
+    few: 'تأكيد الاتجاه الجديد بعد {count} إطارات',
+    other: 'تأكيد الاتجاه الجديد بعد {count} إطار',
+  },
+  'stabilizer.reassurance': '«الطريق لا يزال خاليًا»:',
+  'stabilizer.every': 'كل {seconds} ث',
+  'stabilizer.everyMinute': 'كل دقيقة',
+  'stabilizer.hint': 'تمر تحذيرات الخطر فورًا دائمًا. لا يُنطق الإرشاد إلا عندما يتغير.',
+  'proximity.title': 'تقدير المسافة',
+  'proximity.fov': 'مجال الرؤية العمودي (°):',
+  'proximity.cameraHeight': 'ارتفاع الكاميرا (م):',
+  'proximity.unknown': 'غير معروف',
+  'proximity.nearMax': 'قريب حتى (م):',
+  'proximity.midMax': 'متوسط حتى (م):',
+  'proximity.hint': 'تُحسب المسافات من حجم المربع مقارنة بالأحجام المعتادة للأشياء. يضيف تحديد ارتفاع الكاميرا تقديرًا من موضع ملامسة الأشياء للأرض.',
+  'zones.title': 'تخطيط المناطق',
+  'zones.count': 'المناطق:',
+  'zones.option': {
+    two: 'منطقتان',
+    few: '{count} مناطق',
+    other: '{count} منطقة',
+  },
+  'zones.mirror': 'صورة معكوسة (يسار الصورة هو يمين المستخدم)',
+  'zones.reset': 'إعادة إلى عروض متساوية',
+  'profiles.title': 'الملفات الشخصية',
+  'profiles.defaultName': 'افتراضي',
+  'profiles.active': 'الملف الشخصي النشط:',
+  'profiles.new': 'جديد',
+  'profiles.newPrompt': 'اسم الملف الشخصي الجديد. يبدأ نسخةً من الإعدادات الحالية.',
+  'profiles.rename': 'إعادة تسمية',
+  'profiles.renamePrompt': 'اسم جديد لـ «{name}»:',
+  'profiles.delete': 'حذف',
+  'profiles.deleteConfirm': 'حذف الملف الشخصي «{name}»؟',
+  'profiles.export': 'تصدير',
+  'profiles.import': 'استيراد',
+  'profiles.hint': 'تُحفظ التغييرات في الملف الشخصي النشط فور إجرائها. المفتاح {key} ينتقل إلى الملف الشخصي التالي.',
+  'profiles.imported': 'تم استيراد «{name}».',
+  'profiles.invalid': {
+    one: 'كان إعداد واحد غير صالح فأُعيد إلى قيمته الافتراضية: {fields}',
+    two: 'كان إعدادان غير صالحين فأُعيدا إلى قيمهما الافتراضية: {fields}',
+    few: 'كانت {count} إعدادات غير صالحة فأُعيدت إلى قيمها الافتراضية: {fields}',
+    other: 'كان {count} إعدادًا غير صالح فأُعيدت إلى قيمها الافتراضية: {fields}',
+  },
+  'profiles.error.json': 'فشل الاستيراد: الملف ليس JSON صالحًا',
+  'profiles.error.format': 'فشل الاستيراد: الملف ليس ملفًا شخصيًا',
+  'profiles.error.version': 'فشل الاستيراد: أُنشئ الملف الشخصي بإصدار أحدث من التطبيق',
+};
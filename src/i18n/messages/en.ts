@@ -0,0 +1,331 @@
+import type { Message } from '../i18n';
+
+/** The reference catalogue: every key must exist here, and `fr`/`ar` must translate all of them. */
+export const en = {
+  // Header and connection
+  'app.title': 'Vision Navigation System for Blind',
+  'app.subtitle': 'Real-time AI guidance with directional navigation',
+  'app.language': 'Language',
+  'app.profile': 'Profile',
+  'app.mockBackend': 'Mock backend: {scenario}',
+  'app.shortcuts': 'Shortcuts ({key})',
+  'app.sessions': 'Sessions',
+  'app.dataset': 'Dataset',
+  'app.benchmark': 'Benchmark',
+  'server.checking': 'Checking server...',
+  'server.online': 'Server Online',
+  'server.reconnecting': 'Reconnecting (attempt {attempt})...',
+  'server.offline': 'Server Offline',
+  'offline.title': 'Backend Server Not Running',
+  'offline.start': 'Please start the backend server:',
+  'offline.retryIn': 'Retrying automatically in {seconds} s.',
+  'offline.retry': 'Retry Connection',
+  'reconnecting.message': 'Lost connection to the server. Guidance is paused; reconnecting in {seconds} s.',
+  'reconnecting.resume': 'The camera and auto-processing resume automatically.',
+  'reconnecting.retryNow': 'Retry now',
+
+  // Camera
+  'camera.title': 'Camera Stream',
+  'camera.source': 'Camera Source:',
+  'camera.thisDevice': 'This device',
+  'camera.server': 'Server camera',
+  'camera.device': 'Camera:',
+  'camera.defaultDevice': 'Default (rear camera)',
+  'camera.index': 'Camera Index:',
+  'camera.stream': 'Stream:',
+  'camera.streamAuto': 'Auto',
+  'camera.streamMjpeg': 'MJPEG stream',
+  'camera.streamWebsocket': 'WebSocket push',
+  'camera.streamPolling': 'Polling',
+  'camera.start': 'Start Camera',
+  'camera.stop': 'Stop Camera',
+  'camera.off': 'Camera is off',
+  'camera.offHint': 'Click "{button}" or press {key} to begin',
+  'camera.live': 'Live',
+  'camera.waiting': 'Waiting for server',
+  'camera.imageAlt': 'Camera stream',
+  'toggle.directions': 'Show Direction Overlay',
+  'toggle.boxes': 'Show Bounding Boxes',
+  'toggle.autoAdaptive': 'Auto-Process (adaptive)',
+  'toggle.autoFixed': 'Auto-Process (every {seconds}s)',
+  'toggle.record': 'Record Session',
+  'toggle.voice': 'Voice Guidance',
+  'toggle.narrate': 'Announce Scene Changes',
+  'stale.banner': 'Guidance unavailable: no new result for over {seconds} s. The instruction below is out of date.',
+  'annotated.title': 'Processed Image with Bounding Boxes',
+  'annotated.alt': 'Annotated',
+  'annotated.download': 'Download Image',
+  'annotated.missing': 'No annotated image available',
+  'annotated.missingHint': "Make sure your backend returns 'annotated_image_base64' in the response",
+  'annotated.debug': 'Show Debug Info',
+
+  // Processing modes
+  'controls.title': 'Processing Options',
+  'controls.selectMode': 'Select Processing Mode:',
+  'mode.basic.name': 'Basic',
+  'mode.basic.description': 'Fast detection only',
+  'mode.gpt2-mini.name': 'GPT-2 Mini',
+  'mode.gpt2-mini.description': 'Fast + good quality',
+  'mode.gpt2.name': 'GPT-2',
+  'mode.gpt2.description': 'Detailed descriptions',
+  'mode.gpt2-mini-fusion.name': 'GPT-2 Mini + Fusion',
+  'mode.gpt2-mini-fusion.description': 'Best balance',
+  'mode.gpt2-fusion.name': 'GPT-2 + Fusion',
+  'mode.gpt2-fusion.description': 'Highest quality',
+  'mode.fusion': 'Fusion',
+  'mode.unavailable': 'Unavailable',
+  'mode.unavailableReason': 'Unavailable: {reason}',
+  'mode.builtInOnly': "The server doesn't list its modes; showing the built-in ones.",
+  'mode.noEstimate': 'No estimate',
+  'mode.measured': '{median} median · {p90} p90',
+  'mode.expected': '~{latency} (expected)',
+  'mode.estimate': '~{latency} (estimate)',
+  'process.processing': 'Processing...',
+  'process.auto': 'Auto-Processing',
+  'process.frame': 'Process Frame',
+  'process.nextFrame': 'Next frame in {seconds} s ({reason})',
+  'process.lastTook': 'last took {latency}',
+  'process.fallback': 'using {mode} to stay within budget',
+  'cadence.fixed': 'fixed interval',
+  'cadence.error': 'retrying after an error',
+  'cadence.danger': 'danger ahead',
+  'cadence.changing': 'scene changing',
+  'cadence.shifting': 'scene shifting',
+  'cadence.static': 'scene static',
+  'dataset.add': 'Add to Dataset',
+  'seek.title': 'Find an Object',
+  'seek.target': 'Look for:',
+  'seek.off': 'Nothing (avoid obstacles)',
+  'seek.arrival': 'Arrived when it fills {percent}% of the frame',
+  'seek.hint': 'Guidance steers toward the closest match instead of around obstacles. Dangerously close obstacles still come first.',
+
+  // Results
+  'results.title': 'Results',
+  'results.caption': 'Caption:',
+  'results.objects': { one: 'Detected Object ({count}):', other: 'Detected Objects ({count}):' },
+  'results.description': 'AI Description:',
+  'results.attention': 'Attention Statistics:',
+  'results.mean': 'Mean:',
+  'results.max': 'Max:',
+  'results.std': 'Std:',
+  'results.model': 'Model: {model}',
+  'results.fusion': 'Fusion:',
+  'scene.log': 'Scene Changes:',
+  'scene.describe': 'Describe Scene',
+  'motion.approaching': 'approaching',
+  'motion.receding': 'receding',
+  'motion.crossing': 'crossing',
+
+  // Announcements
+  'announce.serverRestored': 'Server connection restored',
+  'announce.serverLost': 'Server connection lost. Reconnecting.',
+  'announce.guidanceUnavailable': 'Guidance unavailable.',
+  'announce.guidanceUnavailableOffline': 'Guidance unavailable. Server connection lost.',
+  'announce.guidanceRestored': 'Guidance restored',
+  'announce.cameraStarted': 'Camera started',
+  'announce.cameraFailed': 'Camera failed to start',
+  'announce.cameraStopped': 'Camera stopped',
+  'announce.fallback': 'Too slow, switched to {mode}',
+  'announce.datasetAdded': 'Frame added to dataset',
+  'announce.autoAlreadyOn': 'Auto-processing is on',
+  'announce.autoOn': 'Auto-processing on',
+  'announce.autoOff': 'Auto-processing off',
+  'announce.noInstruction': 'No instruction yet',
+  'announce.noScene': 'No scene processed yet',
+  'announce.mode': '{name} mode. {description}',
+  'announce.voiceEnabled': 'Voice guidance enabled',
+  'announce.voiceTest': 'This is how guidance will sound.',
+  'announce.language': 'English',
+  'announce.profile': 'Profile: {name}',
+  'announce.seekStart': 'Looking for {object}',
+  'announce.seekStop': 'Stopped looking. Avoiding obstacles.',
+
+  // Errors
+  'error.resumeCamera': 'Could not resume the camera: {error}',
+  'error.cannotConnect': 'Cannot connect to server. Make sure backend is running on {url}',
+  'error.serverUnavailable': 'Server unavailable',
+  'error.cameraDenied': 'Camera permission was denied. Allow camera access in the browser settings.',
+  'error.cameraOpen': 'Failed to open camera: {error}',
+  'error.serverConnect': 'Error connecting to server',
+  'error.stopCamera': 'Error stopping camera',
+  'error.frames': 'Cannot receive camera frames from server',
+  'error.startCameraFirst': 'Please start the camera first',
+  'error.cameraNotReady': 'Camera is not ready',
+  'error.invalidResponse': 'Invalid response from server: {error}',
+  'error.processing': 'Error processing frame: {error}',
+  'error.noDatasetImage': 'No image of this frame is available to add to the dataset',
+  'error.datasetAdd': 'Could not add to dataset: {error}',
+  'error.recording': 'Could not start recording: {error}',
+  'error.annotatedLoad': 'Failed to load annotated image',
+
+  // Navigation instructions, spoken and shown
+  'nav.pathBlocked': 'Path blocked: {object} ahead.',
+  'nav.moveLeft': 'Move left.',
+  'nav.moveRight': 'Move right.',
+  'nav.stopAllDirections': 'Stop! Obstacles in all directions.',
+  'nav.allDirections': 'Obstacles in all directions. {object} ahead.',
+  'nav.clear': 'Clear path ahead. Safe to proceed.',
+  'nav.obstacleLeft': 'Obstacle on left: {object}. Stay right.',
+  'nav.obstacleRight': 'Obstacle on right: {object}. Stay left.',
+  'nav.caution': 'Proceed with caution. Objects nearby.',
+  'nav.approachingAhead': '{object} approaching ahead.',
+  'nav.approachingFrom': '{object} approaching from the {zone}.',
+  'nav.walkStraight': 'Walk straight ahead.',
+  'nav.bearLeft': "Bear {degrees}° left, toward {count} o'clock.",
+  'nav.bearRight': "Bear {degrees}° right, toward {count} o'clock.",
+  'nav.stillClear': 'Still clear.',
+  'nav.objectDistance': '{object} {distance}',
+  'nav.reasonObstacle': 'Obstacle detected: {labels}',
+  'nav.reasonMultiple': 'Multiple obstacles detected',
+  'nav.reasonNone': 'No obstacles detected',
+  'nav.reasonLeft': 'Left side: {labels}',
+  'nav.reasonRight': 'Right side: {labels}',
+  'nav.reasonDetected': 'Detected: {labels}',
+  'nav.reasonApproaching': '{reason}. Approaching: {tracks}',
+  'seek.found': '{object} found, {where}, {distance}. Keep going.',
+  'seek.ahead': 'straight ahead',
+  'seek.slightlyLeft': 'slightly left',
+  'seek.slightlyRight': 'slightly right',
+  'seek.left': 'to your left',
+  'seek.right': 'to your right',
+  'seek.arrived': 'Arrived: {object} right in front of you.',
+  'seek.lost': '{object} not visible. Turn slowly to look around.',
+  'seek.lostLeft': '{object} not visible. Turn slowly left, where it was last seen.',
+  'seek.lostRight': '{object} not visible. Turn slowly right, where it was last seen.',
+  'seek.reasonFound': 'Seeking {object}: covers {coverage}% of the frame',
+  'seek.reasonArrived': 'Seeking {object}: covers {coverage}% of the frame, close enough',
+  'seek.reasonLost': 'Seeking {object}: not in this frame',
+  'scene.at': 'on your {zone}',
+  'scene.atFront': 'ahead',
+  'scene.count': '{count} {object}',
+  'scene.appeared': 'New {where}: {objects}.',
+  'scene.disappeared': 'No longer {where}: {objects}.',
+  'scene.moved': '{objects} moved: now {where}, was {from}.',
+  'list.separator': ', ',
+  'distance.veryClose': 'very close',
+  'distance.fewMeters': 'a few meters away',
+  'distance.far': 'far away',
+  'distance.underOne': 'less than one meter',
+  'distance.overTen': 'more than ten meters',
+  'distance.about': { one: 'about one meter', other: 'about {count} meters' },
+  'zone.far-left': 'far left',
+  'zone.left': 'left',
+  'zone.slight-left': 'slight left',
+  'zone.front': 'front',
+  'zone.slight-right': 'slight right',
+  'zone.right': 'right',
+  'zone.far-right': 'far right',
+
+  // Navigation and guidance panels
+  'nav.title': 'Navigation Instruction',
+  'nav.action': 'Action:',
+  'nav.heading': 'Heading:',
+  'nav.straight': 'straight ahead',
+  'nav.headingLeft': '{degrees}° left',
+  'nav.headingRight': '{degrees}° right',
+  'nav.clock': "({count} o'clock)",
+  'nav.corridor': 'corridor {degrees}° wide',
+  'direction.left': 'Left',
+  'direction.right': 'Right',
+  'direction.forward': 'Forward',
+  'direction.stop': 'Stop',
+  'guidance.title': 'Spatial Guidance',
+  'guidance.hazard': 'Hazard',
+  'guidance.clear': 'Clear',
+  'guidance.count': '{count} {label}',
+
+  // Keyboard shortcuts
+  'help.title': 'Keyboard Shortcuts',
+  'help.hint': 'Shortcuts are ignored while typing in a field. Arrow keys move between processing modes.',
+  'help.close': 'Close',
+  'hotkey.toggle-camera': 'Start or stop the camera',
+  'hotkey.process': 'Process the current frame',
+  'hotkey.toggle-auto': 'Toggle auto-processing',
+  'hotkey.repeat': 'Repeat the last instruction',
+  'hotkey.describe': 'Describe the scene',
+  'hotkey.next-mode': 'Next processing mode',
+  'hotkey.previous-mode': 'Previous processing mode',
+  'hotkey.next-profile': 'Switch to the next profile',
+  'hotkey.help': 'Show or hide this help',
+
+  // Settings panels
+  'common.off': 'Off',
+  'common.seconds': '{seconds} s',
+  'common.volume': 'Volume: {volume}%',
+  'autoProcess.title': 'Auto-Process Policy',
+  'autoProcess.cadence': 'Cadence:',
+  'autoProcess.adaptive': 'Adaptive',
+  'autoProcess.fixed': 'Fixed interval',
+  'autoProcess.steady': 'Steady scene: {interval}',
+  'autoProcess.every': 'Every: {interval}',
+  'autoProcess.changing': 'Changing scene or danger: {interval}',
+  'autoProcess.static': 'Static scene, at most: {interval}',
+  'autoProcess.budget': 'Latency budget:',
+  'autoProcess.fallback': 'Over budget, switch to:',
+  'autoProcess.staleAfter': 'Warn when guidance is older than:',
+  'autoProcess.hint': 'Only one frame is processed at a time. Adaptive cadence speeds up while objects appear, move or vanish and after a danger warning, and slows down while nothing changes. The fallback lasts until you pick a mode or restart auto-processing.',
+  'speech.title': 'Voice Settings',
+  'speech.voice': 'Voice:',
+  'speech.automatic': 'Automatic ({language})',
+  'speech.otherLanguages': 'Other languages',
+  'speech.mismatch': "This voice doesn't speak {language}, so guidance uses a {language} voice instead.",
+  'speech.rate': 'Rate: {rate}×',
+  'speech.pitch': 'Pitch: {pitch}',
+  'speech.test': 'Test Voice',
+  'sonification.title': 'Spatial Audio',
+  'sonification.enable': 'Sonify obstacles',
+  'sonification.replaceSpeech': 'Instead of spoken guidance',
+  'sonification.tones': 'Calibration tones',
+  'sonification.left': 'Left',
+  'sonification.front': 'Front',
+  'sonification.right': 'Right',
+  'sonification.hint': 'Use headphones. Position sets the stereo pan, closer obstacles pulse faster and higher. Vehicles buzz, other hazards beep, everything else hums softly. Silence means a clear path.',
+  'haptics.title': 'Haptics',
+  'haptics.unsupported': 'Vibration is not supported on this device or browser.',
+  'haptics.enable': 'Vibrate with guidance',
+  'haptics.testAs': 'Test as:',
+  'haptics.test': 'Test {direction}',
+  'haptics.reset': 'Reset patterns',
+  'haptics.hint': 'Patterns alternate vibrate and pause in milliseconds. Caution plays longer pulses twice, danger three times with shorter gaps.',
+  'priority.safe': 'Safe',
+  'priority.caution': 'Caution',
+  'priority.danger': 'Danger',
+  'stabilizer.title': 'Guidance Stability',
+  'stabilizer.persist': { one: 'Confirm a new direction after {count} frame', other: 'Confirm a new direction after {count} frames' },
+  'stabilizer.reassurance': '"Still clear":',
+  'stabilizer.every': 'Every {seconds} s',
+  'stabilizer.everyMinute': 'Every minute',
+  'stabilizer.hint': 'Danger warnings always pass immediately. Guidance is only spoken when it changes.',
+  'proximity.title': 'Distance Estimation',
+  'proximity.fov': 'Vertical FOV (°):',
+  'proximity.cameraHeight': 'Camera height (m):',
+  'proximity.unknown': 'unknown',
+  'proximity.nearMax': 'Near up to (m):',
+  'proximity.midMax': 'Mid up to (m):',
+  'proximity.hint': 'Distances come from box size against typical object sizes. Setting the camera height adds a ground-plane estimate from where objects touch the floor.',
+  'zones.title': 'Zone Layout',
+  'zones.count': 'Zones:',
+  'zones.option': '{count} zones',
+  'zones.mirror': "Mirror image (image left is the user's right)",
+  'zones.reset': 'Reset to equal widths',
+  'profiles.title': 'Profiles',
+  'profiles.defaultName': 'Default',
+  'profiles.active': 'Active profile:',
+  'profiles.new': 'New',
+  'profiles.newPrompt': 'Name for the new profile. It starts as a copy of the current settings.',
+  'profiles.rename': 'Rename',
+  'profiles.renamePrompt': 'New name for "{name}":',
+  'profiles.delete': 'Delete',
+  'profiles.deleteConfirm': 'Delete the profile "{name}"?',
+  'profiles.export': 'Export',
+  'profiles.import': 'Import',
+  'profiles.hint': 'Changes are saved to the active profile as you make them. {key} switches to the next profile.',
+  'profiles.imported': 'Imported "{name}".',
+  'profiles.invalid': {
+    one: '{count} setting was invalid and was reset to its default: {fields}',
+    other: '{count} settings were invalid and were reset to their defaults: {fields}',
+  },
+  'profiles.error.json': 'Import failed: the file is not valid JSON',
+  'profiles.error.format': 'Import failed: the file is not a profile',
+  'profiles.error.version': 'Import failed: the profile was made by a newer version of the app',
+} satisfies Record<string, Message>;
@@ -0,0 +1,330 @@
+import type { Catalog } from '../i18n';
+
+export const fr: Catalog = {
+  // Header and connection
+  'app.title': 'Système de navigation visuelle pour personnes aveugles',
+  'app.subtitle': 'Guidage IA en temps réel avec navigation directionnelle',
+  'app.language': 'Langue',
+  'app.profile': 'Profil',
+  'app.mockBackend': 'Serveur simulé : {scenario}',
+  'app.shortcuts': 'Raccourcis ({key})',
+  'app.sessions': 'Sessions',
+  'app.dataset': 'Jeu de données',
+  'app.benchmark': 'Banc d’essai',
+  'server.checking': 'Vérification du serveur...',
+  'server.online': 'Serveur en ligne',
+  'server.reconnecting': 'Reconnexion (tentative {attempt})...',
+  'server.offline': 'Serveur hors ligne',
+  'offline.title': 'Le serveur n’est pas démarré',
+  'offline.start': 'Veuillez démarrer le serveur :',
+  'offline.retryIn': 'Nouvelle tentative automatique dans {seconds} s.',
+  'offline.retry': 'Réessayer la connexion',
+  'reconnecting.message': 'Connexion au serveur perdue. Le guidage est en pause ; reconnexion dans {seconds} s.',
+  'reconnecting.resume': 'La caméra et le traitement automatique reprendront d’eux-mêmes.',
+  'reconnecting.retryNow': 'Réessayer maintenant',
+
+  // Camera
+  'camera.title': 'Flux de la caméra',
+  'camera.source': 'Source de la caméra :',
+  'camera.thisDevice': 'Cet appareil',
+  'camera.server': 'Caméra du serveur',
+  'camera.device': 'Caméra :',
+  'camera.defaultDevice': 'Par défaut (caméra arrière)',
+  'camera.index': 'Index de la caméra :',
+  'camera.stream': 'Flux :',
+  'camera.streamAuto': 'Automatique',
+  'camera.streamMjpeg': 'Flux MJPEG',
+  'camera.streamWebsocket': 'Push WebSocket',
+  'camera.streamPolling': 'Interrogation',
+  'camera.start': 'Démarrer la caméra',
+  'camera.stop': 'Arrêter la caméra',
+  'camera.off': 'La caméra est éteinte',
+  'camera.offHint': 'Cliquez sur « {button} » ou appuyez sur {key} pour commencer',
+  'camera.live': 'En direct',
+  'camera.waiting': 'En attente du serveur',
+  'camera.imageAlt': 'Flux de la caméra',
+  'toggle.directions': 'Afficher les zones de direction',
+  'toggle.boxes': 'Afficher les cadres de détection',
+  'toggle.autoAdaptive': 'Traitement automatique (adaptatif)',
+  'toggle.autoFixed': 'Traitement automatique (toutes les {seconds} s)',
+  'toggle.record': 'Enregistrer la session',
+  'toggle.voice': 'Guidage vocal',
+  'toggle.narrate': 'Annoncer les changements de scène',
+  'stale.banner': 'Guidage indisponible : aucun nouveau résultat depuis plus de {seconds} s. L’instruction ci-dessous n’est plus à jour.',
+  'annotated.title': 'Image traitée avec cadres de détection',
+  'annotated.alt': 'Image annotée',
+  'annotated.download': 'Télécharger l’image',
+  'annotated.missing': 'Aucune image annotée disponible',
+  'annotated.missingHint': 'Vérifiez que le serveur renvoie « annotated_image_base64 » dans sa réponse',
+  'annotated.debug': 'Afficher les informations de débogage',
+
+  // Processing modes
+  'controls.title': 'Options de traitement',
+  'controls.selectMode': 'Mode de traitement :',
+  'mode.basic.name': 'Basique',
+  'mode.basic.description': 'Détection rapide uniquement',
+  'mode.gpt2-mini.name': 'GPT-2 Mini',
+  'mode.gpt2-mini.description': 'Rapide et de bonne qualité',
+  'mode.gpt2.name': 'GPT-2',
+  'mode.gpt2.description': 'Descriptions détaillées',
+  'mode.gpt2-mini-fusion.name': 'GPT-2 Mini + Fusion',
+  'mode.gpt2-mini-fusion.description': 'Meilleur compromis',
+  'mode.gpt2-fusion.name': 'GPT-2 + Fusion',
+  'mode.gpt2-fusion.description': 'Qualité maximale',
+  'mode.fusion': 'Fusion',
+  'mode.unavailable': 'Indisponible',
+  'mode.unavailableReason': 'Indisponible : {reason}',
+  'mode.builtInOnly': 'Le serveur ne liste pas ses modes ; affichage des modes intégrés.',
+  'mode.noEstimate': 'Pas d’estimation',
+  'mode.measured': 'médiane {median} · p90 {p90}',
+  'mode.expected': '~{latency} (annoncé)',
+  'mode.estimate': '~{latency} (estimation)',
+  'process.processing': 'Traitement...',
+  'process.auto': 'Traitement automatique',
+  'process.frame': 'Traiter l’image',
+  'process.nextFrame': 'Image suivante dans {seconds} s ({reason})',
+  'process.lastTook': 'la dernière a pris {latency}',
+  'process.fallback': '{mode} utilisé pour rester dans le budget',
+  'cadence.fixed': 'intervalle fixe',
+  'cadence.error': 'nouvel essai après une erreur',
+  'cadence.danger': 'danger devant',
+  'cadence.changing': 'scène en mouvement',
+  'cadence.shifting': 'scène qui évolue',
+  'cadence.static': 'scène immobile',
+  'dataset.add': 'Ajouter au jeu de données',
+  'seek.title': 'Trouver un objet',
+  'seek.target': 'Chercher :',
+  'seek.off': 'Rien (éviter les obstacles)',
+  'seek.arrival': 'Arrivée quand il occupe {percent} % de l’image',
+  'seek.hint': 'Le guidage mène vers l’objet le plus proche au lieu de contourner les obstacles. Les obstacles dangereusement proches restent prioritaires.',
+
+  // Results
+  'results.title': 'Résultats',
+  'results.caption': 'Légende :',
+  'results.objects': { one: 'Objet détecté ({count}) :', other: 'Objets détectés ({count}) :' },
+  'results.description': 'Description IA :',
+  'results.attention': 'Statistiques d’attention :',
+  'results.mean': 'Moyenne :',
+  'results.max': 'Max :',
+  'results.std': 'Écart type :',
+  'results.model': 'Modèle : {model}',
+  'results.fusion': 'Fusion :',
+  'scene.log': 'Changements de scène :',
+  'scene.describe': 'Décrire la scène',
+  'motion.approaching': 'approche',
+  'motion.receding': 's’éloigne',
+  'motion.crossing': 'traverse',
+
+  // Announcements
+  'announce.serverRestored': 'Connexion au serveur rétablie',
+  'announce.serverLost': 'Connexion au serveur perdue. Reconnexion.',
+  'announce.guidanceUnavailable': 'Guidage indisponible.',
+  'announce.guidanceUnavailableOffline': 'Guidage indisponible. Connexion au serveur perdue.',
+  'announce.guidanceRestored': 'Guidage rétabli',
+  'announce.cameraStarted': 'Caméra démarrée',
+  'announce.cameraFailed': 'La caméra n’a pas pu démarrer',
+  'announce.cameraStopped': 'Caméra arrêtée',
+  'announce.fallback': 'Trop lent, passage en mode {mode}',
+  'announce.datasetAdded': 'Image ajoutée au jeu de données',
+  'announce.autoAlreadyOn': 'Le traitement automatique est actif',
+  'announce.autoOn': 'Traitement automatique activé',
+  'announce.autoOff': 'Traitement automatique désactivé',
+  'announce.noInstruction': 'Pas encore d’instruction',
+  'announce.noScene': 'Aucune scène traitée pour l’instant',
+  'announce.mode': 'Mode {name}. {description}',
+  'announce.voiceEnabled': 'Guidage vocal activé',
+  'announce.voiceTest': 'Voici comment le guidage sera prononcé.',
+  'announce.language': 'Français',
+  'announce.profile': 'Profil : {name}',
+  'announce.seekStart': 'Recherche : {object}',
+  'announce.seekStop': 'Recherche arrêtée. Évitement des obstacles.',
+
+  // Errors
+  'error.resumeCamera': 'Impossible de relancer la caméra : {error}',
+  'error.cannotConnect': 'Impossible de joindre le serveur. Vérifiez qu’il tourne sur {url}',
+  'error.serverUnavailable': 'Serveur indisponible',
+  'error.cameraDenied': 'L’accès à la caméra a été refusé. Autorisez-le dans les réglages du navigateur.',
+  'error.cameraOpen': 'Impossible d’ouvrir la caméra : {error}',
+  'error.serverConnect': 'Erreur de connexion au serveur',
+  'error.stopCamera': 'Erreur à l’arrêt de la caméra',
+  'error.frames': 'Impossible de recevoir les images de la caméra du serveur',
+  'error.startCameraFirst': 'Veuillez d’abord démarrer la caméra',
+  'error.cameraNotReady': 'La caméra n’est pas prête',
+  'error.invalidResponse': 'Réponse du serveur invalide : {error}',
+  'error.processing': 'Erreur de traitement de l’image : {error}',
+  'error.noDatasetImage': 'Aucune image de cette trame ne peut être ajoutée au jeu de données',
+  'error.datasetAdd': 'Impossible d’ajouter au jeu de données : {error}',
+  'error.recording': 'Impossible de démarrer l’enregistrement : {error}',
+  'error.annotatedLoad': 'Impossible de charger l’image annotée',
+
+  // Navigation instructions, spoken and shown
+  'nav.pathBlocked': 'Passage bloqué : {object} devant.',
+  'nav.moveLeft': 'Décalez-vous à gauche.',
+  'nav.moveRight': 'Décalez-vous à droite.',
+  'nav.stopAllDirections': 'Stop ! Obstacles dans toutes les directions.',
+  'nav.allDirections': 'Obstacles dans toutes les directions. {object} devant.',
+  'nav.clear': 'Voie libre devant. Vous pouvez avancer.',
+  'nav.obstacleLeft': 'Obstacle à gauche : {object}. Restez à droite.',
+  'nav.obstacleRight': 'Obstacle à droite : {object}. Restez à gauche.',
+  'nav.caution': 'Avancez prudemment. Objets à proximité.',
+  'nav.approachingAhead': '{object} en approche, devant.',
+  'nav.approachingFrom': '{object} en approche, {zone}.',
+  'nav.walkStraight': 'Marchez tout droit.',
+  'nav.bearLeft': { one: 'Obliquez de {degrees}° à gauche, vers {count} heure.', other: 'Obliquez de {degrees}° à gauche, vers {count} heures.' },
+  'nav.bearRight': { one: 'Obliquez de {degrees}° à droite, vers {count} heure.', other: 'Obliquez de {degrees}° à droite, vers {count} heures.' },
+  'nav.stillClear': 'Toujours dégagé.',
+  'nav.objectDistance': '{object} {distance}',
+  'nav.reasonObstacle': 'Obstacle détecté : {labels}',
+  'nav.reasonMultiple': 'Plusieurs obstacles détectés',
+  'nav.reasonNone': 'Aucun obstacle détecté',
+  'nav.reasonLeft': 'Côté gauche : {labels}',
+  'nav.reasonRight': 'Côté droit : {labels}',
+  'nav.reasonDetected': 'Détecté : {labels}',
+  'nav.reasonApproaching': '{reason}. En approche : {tracks}',
+  'seek.found': '{object} en vue, {where}, {distance}. Continuez.',
+  'seek.ahead': 'droit devant',
+  'seek.slightlyLeft': 'légèrement à gauche',
+  'seek.slightlyRight': 'légèrement à droite',
+  'seek.left': 'sur votre gauche',
+  'seek.right': 'sur votre droite',
+  'seek.arrived': 'Vous y êtes : {object} juste devant vous.',
+  'seek.lost': '{object} hors de vue. Tournez lentement pour regarder autour de vous.',
+  'seek.lostLeft': '{object} hors de vue. Tournez lentement vers la gauche, où la cible a été vue en dernier.',
+  'seek.lostRight': '{object} hors de vue. Tournez lentement vers la droite, où la cible a été vue en dernier.',
+  'seek.reasonFound': 'Recherche « {object} » : {coverage} % de l’image',
+  'seek.reasonArrived': 'Recherche « {object} » : {coverage} % de l’image, assez proche',
+  'seek.reasonLost': 'Recherche « {object} » : absent de cette image',
+  'scene.at': '{zone}',
+  'scene.atFront': 'devant',
+  'scene.count': '{count} {object}',
+  'scene.appeared': 'Nouveau {where} : {objects}.',
+  'scene.disappeared': 'Plus visible {where} : {objects}.',
+  'scene.moved': '{objects} : maintenant {where}, avant {from}.',
+  'list.separator': ', ',
+  'distance.veryClose': 'tout près',
+  'distance.fewMeters': 'à quelques mètres',
+  'distance.far': 'au loin',
+  'distance.underOne': 'à moins d’un mètre',
+  'distance.overTen': 'à plus de dix mètres',
+  'distance.about': { one: 'à environ un mètre', other: 'à environ {count} mètres' },
+  'zone.far-left': 'tout à gauche',
+  'zone.left': 'à gauche',
+  'zone.slight-left': 'légèrement à gauche',
+  'zone.front': 'devant',
+  'zone.slight-right': 'légèrement à droite',
+  'zone.right': 'à droite',
+  'zone.far-right': 'tout à droite',
+
+  // Navigation and guidance panels
+  'nav.title': 'Instruction de navigation',
+  'nav.action': 'Action :',
+  'nav.heading': 'Cap :',
+  'nav.straight': 'tout droit',
+  'nav.headingLeft': '{degrees}° à gauche',
+  'nav.headingRight': '{degrees}° à droite',
+  'nav.clock': { one: '({count} heure)', other: '({count} heures)' },
+  'nav.corridor': 'passage de {degrees}° de large',
+  'direction.left': 'Gauche',
+  'direction.right': 'Droite',
+  'direction.forward': 'Avancer',
+  'direction.stop': 'Stop',
+  'guidance.title': 'Guidage spatial',
+  'guidance.hazard': 'Danger',
+  'guidance.clear': 'Dégagé',
+  'guidance.count': '{count} {label}',
+
+  // Keyboard shortcuts
+  'help.title': 'Raccourcis clavier',
+  'help.hint': 'Les raccourcis sont ignorés pendant la saisie dans un champ. Les flèches passent d’un mode de traitement à l’autre.',
+  'help.close': 'Fermer',
+  'hotkey.toggle-camera': 'Démarrer ou arrêter la caméra',
+  'hotkey.process': 'Traiter l’image actuelle',
+  'hotkey.toggle-auto': 'Activer ou désactiver le traitement automatique',
+  'hotkey.repeat': 'Répéter la dernière instruction',
+  'hotkey.describe': 'Décrire la scène',
+  'hotkey.next-mode': 'Mode de traitement suivant',
+  'hotkey.previous-mode': 'Mode de traitement précédent',
+  'hotkey.next-profile': 'Passer au profil suivant',
+  'hotkey.help': 'Afficher ou masquer cette aide',
+
+  // Settings panels
+  'common.off': 'Désactivé',
+  'common.seconds': '{seconds} s',
+  'common.volume': 'Volume : {volume} %',
+  'autoProcess.title': 'Traitement automatique',
+  'autoProcess.cadence': 'Cadence :',
+  'autoProcess.adaptive': 'Adaptative',
+  'autoProcess.fixed': 'Intervalle fixe',
+  'autoProcess.steady': 'Scène stable : {interval}',
+  'autoProcess.every': 'Toutes les : {interval}',
+  'autoProcess.changing': 'Scène changeante ou danger : {interval}',
+  'autoProcess.static': 'Scène immobile, au plus : {interval}',
+  'autoProcess.budget': 'Budget de latence :',
+  'autoProcess.fallback': 'Hors budget, passer à :',
+  'autoProcess.staleAfter': 'Avertir quand le guidage date de plus de :',
+  'autoProcess.hint': 'Une seule image est traitée à la fois. La cadence adaptative accélère quand des objets apparaissent, bougent ou disparaissent et après un danger, et ralentit quand rien ne change. Le mode de repli reste actif jusqu’à ce que vous choisissiez un mode ou relanciez le traitement automatique.',
+  'speech.title': 'Réglages de la voix',
+  'speech.voice': 'Voix :',
+  'speech.automatic': 'Automatique ({language})',
+  'speech.otherLanguages': 'Autres langues',
+  'speech.mismatch': 'Cette voix ne parle pas {language} ; le guidage utilise une voix {language} à la place.',
+  'speech.rate': 'Débit : {rate}×',
+  'speech.pitch': 'Hauteur : {pitch}',
+  'speech.test': 'Tester la voix',
+  'sonification.title': 'Audio spatial',
+  'sonification.enable': 'Sonoriser les obstacles',
+  'sonification.replaceSpeech': 'À la place du guidage vocal',
+  'sonification.tones': 'Sons de calibration',
+  'sonification.left': 'Gauche',
+  'sonification.front': 'Devant',
+  'sonification.right': 'Droite',
+  'sonification.hint': 'Utilisez un casque. La position règle la balance stéréo ; plus un obstacle est proche, plus il pulse vite et aigu. Les véhicules bourdonnent, les autres dangers bipent, le reste ronronne doucement. Le silence signifie que la voie est libre.',
+  'haptics.title': 'Vibrations',
+  'haptics.unsupported': 'Les vibrations ne sont pas prises en charge sur cet appareil ou ce navigateur.',
+  'haptics.enable': 'Vibrer avec le guidage',
+  'haptics.testAs': 'Tester en :',
+  'haptics.test': 'Tester {direction}',
+  'haptics.reset': 'Réinitialiser les motifs',
+  'haptics.hint': 'Les motifs alternent vibration et pause, en millisecondes. Prudence joue des impulsions plus longues deux fois, danger trois fois avec des pauses plus courtes.',
+  'priority.safe': 'Sûr',
+  'priority.caution': 'Prudence',
+  'priority.danger': 'Danger',
+  'stabilizer.title': 'Stabilité du guidage',
+  'stabilizer.persist': { one: 'Confirmer une nouvelle direction après {count} image', other: 'Confirmer une nouvelle direction après {count} images' },
+  'stabilizer.reassurance': '« Toujours dégagé » :',
+  'stabilizer.every': 'Toutes les {seconds} s',
+  'stabilizer.everyMinute': 'Toutes les minutes',
+  'stabilizer.hint': 'Les alertes de danger passent toujours immédiatement. Le guidage n’est prononcé que lorsqu’il change.',
+  'proximity.title': 'Estimation des distances',
+  'proximity.fov': 'Champ de vision vertical (°) :',
+  'proximity.cameraHeight': 'Hauteur de la caméra (m) :',
+  'proximity.unknown': 'inconnue',
+  'proximity.nearMax': 'Proche jusqu’à (m) :',
+  'proximity.midMax': 'Moyen jusqu’à (m) :',
+  'proximity.hint': 'Les distances viennent de la taille des cadres comparée à la taille habituelle des objets. Indiquer la hauteur de la caméra ajoute une estimation d’après le point où les objets touchent le sol.',
+  'zones.title': 'Disposition des zones',
+  'zones.count': 'Zones :',
+  'zones.option': '{count} zones',
+  'zones.mirror': 'Image en miroir (la gauche de l’image est la droite de l’utilisateur)',
+  'zones.reset': 'Remettre des largeurs égales',
+  'profiles.title': 'Profils',
+  'profiles.defaultName': 'Par défaut',
+  'profiles.active': 'Profil actif :',
+  'profiles.new': 'Nouveau',
+  'profiles.newPrompt': 'Nom du nouveau profil. Il part d’une copie des réglages actuels.',
+  'profiles.rename': 'Renommer',
+  'profiles.renamePrompt': 'Nouveau nom pour « {name} » :',
+  'profiles.delete': 'Supprimer',
+  'profiles.deleteConfirm': 'Supprimer le profil « {name} » ?',
+  'profiles.export': 'Exporter',
+  'profiles.import': 'Importer',
+  'profiles.hint': 'Les modifications sont enregistrées dans le profil actif au fur et à mesure. {key} passe au profil suivant.',
+  'profiles.imported': '« {name} » importé.',
+  'profiles.invalid': {
+    one: '{count} réglage était invalide et a été remis par défaut : {fields}',
+    other: '{count} réglages étaient invalides et ont été remis par défaut : {fields}',
+  },
+  'profiles.error.json': 'Échec de l’import : le fichier n’est pas un JSON valide',
+  'profiles.error.format': 'Échec de l’import : le fichier n’est pas un profil',
+  'profiles.error.version': 'Échec de l’import : le profil vient d’une version plus récente de l’application',
+};
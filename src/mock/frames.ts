@@ -0,0 +1,43 @@
+import type { DetectedObject } from '../types';
+import { MOCK_FRAME_HEIGHT, MOCK_FRAME_WIDTH } from './scenarios';
+
+const LABEL_COLORS: Record<string, string> = {
+  person: '#c0392b',
+  chair: '#8e5a2b',
+  table: '#6d4c41',
+  bench: '#5d4037',
+  car: '#34495e',
+  bicycle: '#16a085',
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Draws a flat stand-in "camera frame" for a scripted scene. The shapes sit
+ * exactly where the scripted bounding boxes are, so overlays line up.
+ */
+export const renderMockFrameSvg = (objects: DetectedObject[], tick: number, annotate = false): string => {
+  const w = MOCK_FRAME_WIDTH;
+  const h = MOCK_FRAME_HEIGHT;
+  const shapes = objects.map(({ label, confidence, bounding_box: [x1, y1, x2, y2] }) => {
+    const fill = LABEL_COLORS[label] ?? '#7f8c8d';
+    const box = `<rect x="${x1}" y="${y1}" width="${x2 - x1}" height="${y2 - y1}" rx="8" fill="${fill}" opacity="0.85"/>`;
+    const name = `<text x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2}" font-size="18" fill="white" text-anchor="middle">${escapeXml(label)}</text>`;
+    const outline = annotate
+      ? `<rect x="${x1}" y="${y1}" width="${x2 - x1}" height="${y2 - y1}" fill="none" stroke="#00e676" stroke-width="3"/>` +
+        `<text x="${x1 + 4}" y="${y1 - 6}" font-size="16" fill="#00e676">${escapeXml(label)} ${(confidence * 100).toFixed(0)}%</text>`
+      : '';
+    return box + name + outline;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">` +
+    `<rect width="${w}" height="${h * 0.55}" fill="#dfe6e9"/>` +
+    `<polygon points="0,${h} ${w},${h} ${w * 0.65},${h * 0.55} ${w * 0.35},${h * 0.55}" fill="#b2bec3"/>` +
+    `<rect y="${h * 0.55}" width="${w}" height="2" fill="#95a5a6"/>` +
+    shapes.join('') +
+    `<text x="10" y="${h - 10}" font-size="12" fill="#636e72">MOCK #${tick}</text>` +
+    '</svg>';
+};
+
+export const svgToDataUrl = (svg: string) => `data:image/svg+xml;base64,${btoa(svg)}`;
@@ -0,0 +1,181 @@
+import { isHazard } from '../navigation/rules';
+import type { DetectedObject, ProcessingResult, ZoneGuidance } from '../types';
+
+export const MOCK_FRAME_WIDTH = 640;
+export const MOCK_FRAME_HEIGHT = 480;
+
+/** One scripted reply to `/process_camera/:mode`. */
+export interface MockStep {
+  objects?: DetectedObject[];
+  caption?: string;
+  /** Overrides the generated `guidance` text and, like an older server, sends no `guidance_zones`. */
+  guidance?: string;
+  /** Reply with an HTTP error instead of a result. */
+  error?: { status: number; detail: string };
+  /** Reply 200 with this body verbatim, bypassing the result builder. */
+  rawBody?: unknown;
+  delayMs?: number;
+}
+
+export interface MockScenario {
+  name: string;
+  description: string;
+  /** Every request fails as if the server were down. */
+  offline?: boolean;
+  /** Modes advertised as unavailable, with the reason given. */
+  unavailableModes?: Record<string, string>;
+  steps: MockStep[];
+}
+
+const obj = (label: string, confidence: number, x1: number, y1: number, x2: number, y2: number): DetectedObject => ({
+  label,
+  confidence,
+  bounding_box: [x1, y1, x2, y2],
+});
+
+const CLEAR: MockStep = { objects: [], caption: 'an empty hallway with a tiled floor' };
+
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  walk: {
+    name: 'walk',
+    description: 'A short indoor walk: clear path, side obstacles, a person approaching, a dead end',
+    steps: [
+      CLEAR,
+      { objects: [obj('chair', 0.88, 40, 260, 170, 470)], caption: 'a hallway with a chair against the wall' },
+      { objects: [obj('person', 0.91, 280, 160, 350, 330)], caption: 'a person standing at the end of a hallway' },
+      { objects: [obj('person', 0.94, 250, 90, 390, 470)], caption: 'a person walking down a hallway' },
+      {
+        objects: [
+          obj('person', 0.93, 250, 80, 400, 470),
+          obj('chair', 0.82, 20, 250, 180, 470),
+          obj('bench', 0.77, 470, 280, 630, 450),
+        ],
+        caption: 'a crowded corridor with a bench and a chair',
+      },
+      { objects: [obj('potted plant', 0.71, 520, 300, 600, 460)], caption: 'a corridor with a potted plant' },
+      CLEAR,
+    ],
+  },
+  obstacles: {
+    name: 'obstacles',
+    description: 'Cycles through every navigation branch: front blocked, sides blocked, all blocked',
+    steps: [
+      { objects: [obj('chair', 0.9, 260, 250, 380, 470), obj('table', 0.8, 10, 280, 190, 470)], caption: 'a chair in front of a table' },
+      { objects: [obj('car', 0.95, 230, 150, 420, 420), obj('bicycle', 0.85, 450, 220, 630, 460)], caption: 'a car parked next to a bicycle' },
+      {
+        objects: [
+          obj('person', 0.92, 40, 100, 180, 470),
+          obj('person', 0.89, 260, 110, 380, 470),
+          obj('person', 0.9, 470, 100, 610, 470),
+        ],
+        caption: 'three people standing in a row',
+      },
+      { objects: [obj('bench', 0.83, 470, 300, 630, 460)], caption: 'a bench on the side of a path' },
+      { objects: [obj('couch', 0.87, 10, 260, 200, 470)], caption: 'a living room with a couch' },
+    ],
+  },
+  empty: {
+    name: 'empty',
+    description: 'Nothing is ever detected',
+    steps: [CLEAR],
+  },
+  errors: {
+    name: 'errors',
+    description: 'Alternates good results with HTTP errors and malformed payloads',
+    steps: [
+      { objects: [obj('chair', 0.88, 260, 260, 380, 470)], caption: 'a chair' },
+      { error: { status: 500, detail: 'CUDA out of memory' } },
+      { rawBody: { status: 'success', data: { caption: 'broken', detected_objects: [{ label: 'chair', confidence: '0.9' }] } } },
+      { error: { status: 503, detail: 'Model is still loading' } },
+      CLEAR,
+    ],
+  },
+  slow: {
+    name: 'slow',
+    description: 'Realistic fusion-mode latency of several seconds per frame',
+    unavailableModes: { 'gpt2-fusion': 'Not enough memory to load GPT-2 with fusion' },
+    steps: [
+      { ...CLEAR, delayMs: 4000 },
+      { objects: [obj('person', 0.9, 270, 120, 370, 420)], caption: 'a person in a hallway', delayMs: 6500 },
+      { objects: [obj('chair', 0.84, 480, 260, 620, 470)], caption: 'a chair by the wall', delayMs: 9000 },
+    ],
+  },
+  legacy: {
+    name: 'legacy',
+    description: 'An older server: free-text guidance only, worded differently and with multi-sentence zones',
+    steps: [
+      {
+        objects: [obj('chair', 0.88, 40, 260, 170, 470), obj('person', 0.9, 270, 120, 370, 420)],
+        caption: 'a person next to a chair',
+        guidance: 'To your right: a chair. It is 1.5 m away. To your front: a person. They are walking toward you.',
+      },
+      {
+        objects: [obj('bench', 0.8, 470, 280, 630, 450)],
+        caption: 'a bench by a wall',
+        guidance: 'Scene summary follows. Left - a bench; Front: clear.',
+      },
+      { ...CLEAR, guidance: 'The path ahead looks clear.' },
+    ],
+  },
+  offline: {
+    name: 'offline',
+    description: 'The server never answers',
+    offline: true,
+    steps: [CLEAR],
+  },
+};
+
+export const DEFAULT_MOCK_SCENARIO = 'walk';
+
+// Mirrors the backend's wording and its mirrored zone mapping: the image's
+// left third is reported as the user's right.
+const zoneOf = (object: DetectedObject): 'left' | 'front' | 'right' => {
+  const [x1, , x2] = object.bounding_box;
+  const centerX = (x1 + x2) / 2;
+  if (centerX < MOCK_FRAME_WIDTH / 3) return 'right';
+  if (centerX > (2 * MOCK_FRAME_WIDTH) / 3) return 'left';
+  return 'front';
+};
+
+const buildGuidance = (objects: DetectedObject[]): string => {
+  if (objects.length === 0) return 'The path ahead looks clear.';
+  const sentences = (['left', 'front', 'right'] as const).flatMap(zone => {
+    const labels = objects.filter(o => zoneOf(o) === zone).map(o => `a ${o.label}`);
+    return labels.length > 0 ? [`To your ${zone}: ${labels.join(', ')}.`] : [];
+  });
+  return sentences.join(' ');
+};
+
+const buildGuidanceZones = (objects: DetectedObject[]): ZoneGuidance[] =>
+  (['left', 'front', 'right'] as const).map(zone => {
+    const byLabel = new Map<string, DetectedObject[]>();
+    objects.filter(o => zoneOf(o) === zone).forEach(o => byLabel.set(o.label, [...(byLabel.get(o.label) ?? []), o]));
+    return {
+      zone,
+      objects: [...byLabel].map(([label, group]) => ({
+        label,
+        count: group.length,
+        confidence: Math.max(...group.map(o => o.confidence)),
+        hazard: isHazard({ label }),
+      })),
+    };
+  });
+
+export const buildMockResult = (step: MockStep, mode: string): ProcessingResult => {
+  const objects = step.objects ?? [];
+  const fusion = mode.endsWith('fusion');
+  const caption = step.caption ?? 'a scene';
+
+  return {
+    caption,
+    detected_objects: objects,
+    guidance: step.guidance ?? buildGuidance(objects),
+    guidance_zones: step.guidance === undefined ? buildGuidanceZones(objects) : undefined,
+    model_used: mode,
+    fusion_enabled: fusion,
+    llm_description: mode === 'basic'
+      ? undefined
+      : `The image shows ${caption}. ${objects.length === 0 ? 'No obstacles are visible.' : `I can see ${objects.map(o => `a ${o.label}`).join(', ')}.`}`,
+    attention_stats: fusion ? { mean: 0.0123, max: 0.4567, std: 0.0345 } : undefined,
+  };
+};
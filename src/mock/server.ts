@@ -0,0 +1,167 @@
+import { BUILT_IN_MODES } from '../api/capabilities';
+import { buildMockResult, DEFAULT_MOCK_SCENARIO, MOCK_SCENARIOS } from './scenarios';
+import type { MockScenario, MockStep } from './scenarios';
+import { renderMockFrameSvg, svgToDataUrl } from './frames';
+
+export interface MockServerOptions {
+  /** Extra latency added to every request, in ms. */
+  latencyMs?: number;
+}
+
+const MJPEG_BOUNDARY = 'mockframe';
+const MOCK_STREAM_FPS = 15;
+
+type FetchFn = (input: string, init?: RequestInit) => Promise<Response>;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (ms <= 0) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+export const resolveMockScenario = (name: string): MockScenario => {
+  const scenario = Object.hasOwn(MOCK_SCENARIOS, name) ? MOCK_SCENARIOS[name] : undefined;
+  if (!scenario) {
+    console.warn(`Unknown mock scenario "${name}", using "${DEFAULT_MOCK_SCENARIO}"`);
+    return MOCK_SCENARIOS[DEFAULT_MOCK_SCENARIO];
+  }
+  return scenario;
+};
+
+/**
+ * In-browser stand-in for the Python vision server. Returns a fetch-compatible
+ * function that answers the backend routes from a scripted scenario, so the UI
+ * can be driven without a camera or model weights.
+ */
+export const createMockFetch = (scenario: MockScenario, { latencyMs = 30 }: MockServerOptions = {}): FetchFn => {
+  let cameraRunning = false;
+  let processCount = 0;
+  let frameTick = 0;
+  // Error steps have no scene of their own and keep showing the previous one.
+  let lastScene: MockStep = {};
+
+  const stepAt = (index: number) => scenario.steps[index % scenario.steps.length];
+  const sceneFor = (step: MockStep) => (step.objects ? step : lastScene);
+  // Frames show the scene of the latest processed step (or the first step
+  // before any processing) so the overlay lines up with the image.
+  const visibleStep = () => stepAt(Math.max(processCount - 1, 0));
+
+  const mjpegStream = (): ReadableStream<Uint8Array> => {
+    const encoder = new TextEncoder();
+    let timer: ReturnType<typeof setInterval> | undefined;
+    return new ReadableStream({
+      start(controller) {
+        timer = setInterval(() => {
+          if (!cameraRunning) {
+            clearInterval(timer);
+            controller.close();
+            return;
+          }
+          frameTick++;
+          const frame = encoder.encode(renderMockFrameSvg(sceneFor(visibleStep()).objects ?? [], frameTick));
+          controller.enqueue(encoder.encode(
+            `--${MJPEG_BOUNDARY}\r\nContent-Type: image/svg+xml\r\nContent-Length: ${frame.length}\r\n\r\n`
+          ));
+          controller.enqueue(frame);
+          controller.enqueue(encoder.encode('\r\n'));
+        }, 1000 / MOCK_STREAM_FPS);
+      },
+      cancel() {
+        clearInterval(timer);
+      },
+    });
+  };
+
+  return async (input, init) => {
+    const method = (init?.method ?? 'GET').toUpperCase();
+    const url = new URL(input, window.location.href);
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+
+    await sleep(latencyMs, init?.signal);
+    if (scenario.offline) {
+      throw new TypeError('Failed to fetch');
+    }
+
+    if (method === 'GET' && path === '/') {
+      return json({ status: 'ok', mock: true, scenario: scenario.name });
+    }
+
+    if (method === 'GET' && path === '/capabilities') {
+      return json({
+        modes: BUILT_IN_MODES.map(mode => ({
+          id: mode.id,
+          name: mode.name,
+          description: mode.description,
+          fusion: mode.fusion,
+          expected_latency_ms: mode.expectedLatencyMs,
+          available: !scenario.unavailableModes?.[mode.id],
+          unavailable_reason: scenario.unavailableModes?.[mode.id],
+          options: { annotate: true },
+        })),
+      });
+    }
+
+    if (method === 'POST' && path === '/camera/start') {
+      cameraRunning = true;
+      return json({ status: 'success', camera_index: Number(url.searchParams.get('camera_index') ?? 0) });
+    }
+
+    if (method === 'POST' && path === '/camera/stop') {
+      cameraRunning = false;
+      return json({ status: 'success' });
+    }
+
+    if (method === 'GET' && path === '/camera/frame') {
+      if (!cameraRunning) return json({ error: 'Camera is not running' }, 400);
+      frameTick++;
+      const svg = renderMockFrameSvg(sceneFor(visibleStep()).objects ?? [], frameTick);
+      return new Response(new Blob([svg], { type: 'image/svg+xml' }));
+    }
+
+    if (method === 'GET' && path === '/camera/stream') {
+      if (!cameraRunning) return json({ error: 'Camera is not running' }, 400);
+      return new Response(mjpegStream(), {
+        headers: { 'Content-Type': `multipart/x-mixed-replace; boundary=${MJPEG_BOUNDARY}` },
+      });
+    }
+
+    // `/process_camera/:mode` reads the server camera; `/process/:mode` takes
+    // an uploaded frame. The mock scripts both the same way.
+    const processMatch = path.match(/^\/process(_camera)?\/([\w-]+)$/);
+    if (method === 'POST' && processMatch) {
+      const fromServerCamera = processMatch[1] !== undefined;
+      if (fromServerCamera && !cameraRunning) return json({ detail: 'Camera is not running' }, 400);
+      if (!fromServerCamera && !(init?.body instanceof FormData && init.body.has('file'))) {
+        return json({ detail: 'No image uploaded' }, 422);
+      }
+      const unavailable = scenario.unavailableModes?.[processMatch[2]];
+      if (unavailable) return json({ detail: unavailable }, 503);
+
+      const step = stepAt(processCount);
+      processCount++;
+      await sleep(step.delayMs ?? 0, init?.signal);
+
+      if (step.error) return json({ detail: step.error.detail }, step.error.status);
+      if (step.rawBody !== undefined) return json(step.rawBody);
+
+      lastScene = sceneFor(step);
+      const annotate = url.searchParams.get('annotate') === 'true';
+      return json({
+        status: 'success',
+        data: buildMockResult(step, processMatch[2]),
+        annotated_image_base64: annotate
+          ? svgToDataUrl(renderMockFrameSvg(step.objects ?? [], frameTick, true))
+          : undefined,
+      });
+    }
+
+    return json({ detail: 'Not Found' }, 404);
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { defaultTranslator } from '../i18n/i18n';
+import type { DetectedObject } from '../types';
+import { describeHeading, planCorridor, toClockHour } from './corridor';
+import { createZoneLayout } from './zones';
+
+const frame = { width: 640, height: 480 };
+
+// A car about 3.5 m away, spanning image columns x1 to x2
+const car = (x1: number, x2: number): DetectedObject => ({
+  label: 'car',
+  confidence: 0.9,
+  bounding_box: [x1, 200, x2, 400],
+});
+
+describe('planCorridor', () => {
+  it('keeps straight ahead when that corridor is wide enough', () => {
+    const plan = planCorridor({ objects: [car(0, 160)], frame });
+    expect(plan?.headingDeg).toBe(0);
+    expect(plan?.clockHour).toBe(12);
+  });
+
+  it('steers into the preferred side when it has a gap', () => {
+    const plan = planCorridor({ objects: [car(224, 608)], frame }, undefined, 'right');
+    expect(plan?.headingDeg).toBeGreaterThan(5);
+    expect(plan?.corridor.start).toBeCloseTo(0.65);
+    expect(plan?.corridor.end).toBe(1);
+  });
+
+  it('returns null rather than a gap on the other side when the preferred side has none', () => {
+    expect(planCorridor({ objects: [car(224, 608)], frame }, undefined, 'left')).toBeNull();
+  });
+
+  it('returns null when no gap is wide enough to walk through', () => {
+    expect(planCorridor({ objects: [car(0, 640)], frame })).toBeNull();
+    expect(planCorridor({ objects: [car(0, 300), car(340, 640)], frame })).toBeNull();
+  });
+
+  it('mirrors image columns into the user\'s view', () => {
+    const objects = [car(0, 400)];
+    // Mirrored (the default): the car's image-left columns are on the user's right
+    expect(planCorridor({ objects, frame })?.headingDeg).toBeLessThan(0);
+    expect(planCorridor({ objects, frame, layout: createZoneLayout(3, false) })?.headingDeg).toBeGreaterThan(0);
+  });
+});
+
+describe('toClockHour', () => {
+  it('maps headings onto a clock face with 12 straight ahead', () => {
+    expect(toClockHour(0)).toBe(12);
+    expect(toClockHour(-30)).toBe(11);
+    expect(toClockHour(30)).toBe(1);
+    expect(toClockHour(-90)).toBe(9);
+    expect(toClockHour(90)).toBe(3);
+  });
+});
+
+describe('describeHeading', () => {
+  const plan = (headingDeg: number) => ({
+    corridor: { start: 0, end: 1 },
+    headingDeg,
+    widthDeg: 20,
+    clockHour: toClockHour(headingDeg),
+  });
+
+  it('says to walk straight below 5°', () => {
+    expect(describeHeading(plan(4.4))).toBe(defaultTranslator.t('nav.walkStraight'));
+    expect(describeHeading(plan(-4.4))).toBe(defaultTranslator.t('nav.walkStraight'));
+  });
+
+  it('names the side, the degrees and the clock hour', () => {
+    expect(describeHeading(plan(-20))).toBe("Bear 20° left, toward 11 o'clock.");
+    expect(describeHeading(plan(35))).toBe("Bear 35° right, toward 1 o'clock.");
+  });
+});
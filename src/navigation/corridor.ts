@@ -0,0 +1,124 @@
+import { defaultTranslator } from '../i18n/i18n';
+import type { Translator } from '../i18n/i18n';
+import type { NavigationInput } from './engine';
+import { DEFAULT_PROXIMITY_SETTINGS, estimateProximity } from './proximity';
+import { DEFAULT_NAVIGATION_RULES, hazardWeight } from './rules';
+import type { NavigationRules } from './rules';
+import { DEFAULT_ZONE_LAYOUT } from './zones';
+
+/** A horizontal span of the user's view, as fractions (0 = user's far left, 1 = far right). */
+export interface CorridorSpan {
+  start: number;
+  end: number;
+}
+
+export interface CorridorPlan {
+  corridor: CorridorSpan;
+  /** Steering angle toward the corridor, in degrees; negative is left, 0 straight ahead. */
+  headingDeg: number;
+  /** Angular width of the corridor, in degrees. */
+  widthDeg: number;
+  /** Clock-face heading, 12 = straight ahead. */
+  clockHour: number;
+}
+
+// Shoulder width plus a margin, in meters
+const PERSON_WIDTH_M = 0.7;
+// Assumed obstacle distance when the flanking obstacles' distance is unknown
+const DEFAULT_OBSTACLE_DISTANCE_M = 3;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+export const horizontalFovDeg = (frame: { width: number; height: number }, verticalFovDeg: number) =>
+  toDeg(2 * Math.atan(Math.tan(toRad(verticalFovDeg) / 2) * (frame.width / frame.height)));
+
+/** Angle of a view fraction from straight ahead, in degrees (negative left). */
+export const fractionToAngle = (fraction: number, hFovDeg: number) =>
+  toDeg(Math.atan((fraction - 0.5) * 2 * Math.tan(toRad(hFovDeg) / 2)));
+
+export const toClockHour = (headingDeg: number) => {
+  const hour = Math.round(headingDeg / 30);
+  return hour <= 0 ? 12 + hour : hour;
+};
+
+/** e.g. "Bear 20° left, toward 11 o'clock." */
+export const describeHeading = (
+  { headingDeg, clockHour }: CorridorPlan,
+  i18n: Translator = defaultTranslator
+): string => {
+  const degrees = Math.round(Math.abs(headingDeg));
+  if (degrees < 5) return i18n.t('nav.walkStraight');
+  return i18n.t(headingDeg < 0 ? 'nav.bearLeft' : 'nav.bearRight', { degrees, count: clockHour });
+};
+
+/**
+ * Projects every obstacle box onto the horizontal axis and returns the free
+ * corridor to steer into, or null when no gap is wide enough to walk
+ * through. Without a `preferSide`, the straight-ahead corridor wins when
+ * it is wide enough, otherwise the widest one does. With a `preferSide`,
+ * only that side's corridors count, so the heading never contradicts the
+ * side the caller steers to; null when that side has none.
+ */
+export const planCorridor = (
+  { objects, frame, layout = DEFAULT_ZONE_LAYOUT, proximity = DEFAULT_PROXIMITY_SETTINGS }: NavigationInput,
+  rules: NavigationRules = DEFAULT_NAVIGATION_RULES,
+  preferSide?: 'left' | 'right'
+): CorridorPlan | null => {
+  const hFov = horizontalFovDeg(frame, proximity.verticalFovDeg);
+
+  const obstacles = objects
+    .filter(obj => obj.confidence >= rules.minConfidence)
+    .map(obj => ({ obj, proximity: estimateProximity(obj, frame, proximity) }))
+    .filter(({ obj, proximity: estimate }) => hazardWeight(obj, estimate, rules) > 0)
+    .map(({ obj, proximity: estimate }) => {
+      const imageStart = Math.max(0, obj.bounding_box[0] / frame.width);
+      const imageEnd = Math.min(1, obj.bounding_box[2] / frame.width);
+      return {
+        start: layout.mirror ? 1 - imageEnd : imageStart,
+        end: layout.mirror ? 1 - imageStart : imageEnd,
+        distanceM: estimate.distanceM ?? DEFAULT_OBSTACLE_DISTANCE_M,
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  // Free gaps between merged obstacle intervals, with the distance of the flanking obstacles
+  const gaps: (CorridorSpan & { distanceM: number })[] = [];
+  let cursor = 0;
+  let leftDistance = DEFAULT_OBSTACLE_DISTANCE_M;
+  for (const obstacle of obstacles) {
+    if (obstacle.start > cursor) {
+      gaps.push({ start: cursor, end: obstacle.start, distanceM: Math.min(leftDistance, obstacle.distanceM) });
+    }
+    if (obstacle.end >= cursor) leftDistance = obstacle.distanceM;
+    cursor = Math.max(cursor, obstacle.end);
+  }
+  if (cursor < 1) gaps.push({ start: cursor, end: 1, distanceM: leftDistance });
+
+  const walkable = gaps
+    .map(gap => {
+      const startDeg = fractionToAngle(gap.start, hFov);
+      const endDeg = fractionToAngle(gap.end, hFov);
+      const requiredDeg = toDeg(2 * Math.atan(PERSON_WIDTH_M / 2 / gap.distanceM));
+      return { gap, startDeg, endDeg, widthDeg: endDeg - startDeg, requiredDeg };
+    })
+    .filter(candidate => candidate.widthDeg >= candidate.requiredDeg);
+  if (walkable.length === 0) return null;
+
+  const straight = preferSide ? undefined : walkable.find(({ startDeg, endDeg, requiredDeg }) =>
+    startDeg <= -requiredDeg / 2 && endDeg >= requiredDeg / 2
+  );
+  const onPreferredSide = walkable.filter(({ startDeg, endDeg }) =>
+    preferSide === 'left' ? startDeg + endDeg < 0 : preferSide === 'right' ? startDeg + endDeg > 0 : true
+  );
+  if (onPreferredSide.length === 0) return null;
+  const chosen = straight ?? onPreferredSide.reduce((best, candidate) => (candidate.widthDeg > best.widthDeg ? candidate : best));
+  const headingDeg = straight ? 0 : (chosen.startDeg + chosen.endDeg) / 2;
+
+  return {
+    corridor: { start: chosen.gap.start, end: chosen.gap.end },
+    headingDeg,
+    widthDeg: chosen.widthDeg,
+    clockHour: toClockHour(headingDeg),
+  };
+};
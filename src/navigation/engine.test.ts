@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import type { DetectedObject } from '../types';
+import { generateNavigationInstructions } from './engine';
+import { DEFAULT_NAVIGATION_RULES, hazardWeight, isHazard } from './rules';
+import type { NavigationRules } from './rules';
+
+const frame = { width: 640, height: 480 };
+
+// The default layout is mirrored: the image's left third is the user's right
+const X: Record<'left' | 'front' | 'right', [number, number]> = {
+  left: [480, 560],
+  front: [280, 360],
+  right: [80, 160],
+};
+
+// Box heights that put a person at about 2 m (near), 4 m (mid) and 8 m (far)
+const Y = {
+  near: [40, 440],
+  mid: [140, 340],
+  far: [190, 290],
+} as const;
+
+const detect = (
+  label: string,
+  side: keyof typeof X,
+  band: keyof typeof Y = 'mid',
+  confidence = 0.9
+): DetectedObject => ({
+  label,
+  confidence,
+  bounding_box: [X[side][0], Y[band][0], X[side][1], Y[band][1]],
+});
+
+const navigate = (objects: DetectedObject[], rules: NavigationRules = DEFAULT_NAVIGATION_RULES) =>
+  generateNavigationInstructions({ objects, frame }, rules);
+
+describe('generateNavigationInstructions', () => {
+  it('reports a clear path when nothing is detected', () => {
+    const instruction = navigate([]);
+    expect(instruction.direction).toBe('forward');
+    expect(instruction.priority).toBe('safe');
+    expect(instruction.message).toBe('Clear path ahead. Safe to proceed.');
+  });
+
+  it('ignores non-hazards straight ahead', () => {
+    const instruction = navigate([detect('cup', 'front', 'near')]);
+    expect(instruction.direction).toBe('forward');
+    expect(instruction.priority).toBe('safe');
+  });
+
+  it('proceeds with caution when only non-hazards are to the sides', () => {
+    const instruction = navigate([detect('cup', 'left'), detect('book', 'right')]);
+    expect(instruction.direction).toBe('forward');
+    expect(instruction.priority).toBe('caution');
+    expect(instruction.message).toBe('Proceed with caution. Objects nearby.');
+  });
+
+  it('steers left when the front is blocked and the left is free', () => {
+    const instruction = navigate([detect('person', 'front')]);
+    expect(instruction.direction).toBe('left');
+    expect(instruction.priority).toBe('caution');
+    expect(instruction.message).toMatch(/^Path blocked: person about 4 meters ahead\. Move left\./);
+  });
+
+  it('steers right when the front and the left are blocked', () => {
+    const instruction = navigate([detect('person', 'front'), detect('chair', 'left')]);
+    expect(instruction.direction).toBe('right');
+    expect(instruction.priority).toBe('caution');
+    expect(instruction.message).toContain('Move right.');
+  });
+
+  it('stops with caution when every direction is blocked at a distance', () => {
+    const instruction = navigate([detect('person', 'left'), detect('person', 'front'), detect('person', 'right')]);
+    expect(instruction.direction).toBe('stop');
+    expect(instruction.priority).toBe('caution');
+    expect(instruction.message).toBe('Obstacles in all directions. Person about 4 meters ahead.');
+  });
+
+  it('stops with danger when every direction is blocked and the front is near', () => {
+    const instruction = navigate([detect('person', 'left'), detect('person', 'front', 'near'), detect('person', 'right')]);
+    expect(instruction.direction).toBe('stop');
+    expect(instruction.priority).toBe('danger');
+    expect(instruction.message).toBe('Stop! Obstacles in all directions.');
+  });
+
+  it('moves away from a blocked left side', () => {
+    const instruction = navigate([detect('chair', 'left')]);
+    expect(instruction.direction).toBe('right');
+    expect(instruction.priority).toBe('caution');
+    expect(instruction.message).toMatch(/^Obstacle on left: chair/);
+  });
+
+  it('moves away from a blocked right side', () => {
+    const instruction = navigate([detect('chair', 'right')]);
+    expect(instruction.direction).toBe('left');
+    expect(instruction.priority).toBe('caution');
+    expect(instruction.message).toMatch(/^Obstacle on right: chair/);
+  });
+
+  it('proceeds with caution when both sides are blocked and the front is free', () => {
+    const instruction = navigate([detect('chair', 'left'), detect('chair', 'right')]);
+    expect(instruction.direction).toBe('forward');
+    expect(instruction.priority).toBe('caution');
+  });
+
+  it('skips detections below the minimum confidence', () => {
+    const rules = { ...DEFAULT_NAVIGATION_RULES, minConfidence: 0.5 };
+    expect(navigate([detect('person', 'front', 'mid', 0.4)], rules).priority).toBe('safe');
+    expect(navigate([detect('person', 'front', 'mid', 0.6)], rules).direction).toBe('left');
+  });
+
+  it('does not let inherited object keys spoil the hazard score', () => {
+    ['constructor', 'toString', '__proto__'].forEach(label => {
+      expect(isHazard({ label })).toBe(false);
+      expect(hazardWeight({ label }, { distanceM: 1, band: 'near' }, DEFAULT_NAVIGATION_RULES)).toBe(0);
+      expect(navigate([detect(label, 'front'), detect('person', 'front')]).direction).toBe('left');
+    });
+  });
+
+  it('never pairs a side with a heading toward the other side', () => {
+    const instruction = navigate([{ label: 'car', confidence: 0.9, bounding_box: [224, 200, 608, 400] }]);
+    expect(instruction.direction).toBe('left');
+    expect(instruction.heading).toBeUndefined();
+    expect(instruction.message).not.toContain('right');
+  });
+
+  it('adds a heading toward the chosen side when it has a corridor', () => {
+    const instruction = navigate([{ label: 'car', confidence: 0.9, bounding_box: [32, 200, 416, 400] }]);
+    expect(instruction.direction).toBe('left');
+    expect(instruction.heading).toBeLessThan(-5);
+    expect(instruction.message).toMatch(/Move left\. Bear \d+° left/);
+  });
+
+  it('follows a custom hazard list', () => {
+    const rules = { ...DEFAULT_NAVIGATION_RULES, hazards: { cup: 'medium' as const } };
+    expect(navigate([detect('cup', 'front')], rules).direction).toBe('left');
+    expect(navigate([detect('person', 'front')], rules).priority).toBe('safe');
+  });
+});
+
+describe('hazard thresholds', () => {
+  it('does not block a zone below the caution threshold', () => {
+    const rules = { ...DEFAULT_NAVIGATION_RULES, thresholds: { caution: 1.5, danger: 3 } };
+    expect(navigate([detect('person', 'front')], rules).priority).toBe('safe');
+    expect(navigate([detect('car', 'front')], rules).direction).toBe('left');
+  });
+
+  it('blocks a zone once the summed severity reaches the caution threshold', () => {
+    const rules = { ...DEFAULT_NAVIGATION_RULES, thresholds: { caution: 2, danger: 3 } };
+    expect(navigate([detect('person', 'front')], rules).priority).toBe('safe');
+    expect(navigate([detect('person', 'front'), detect('chair', 'front')], rules).direction).toBe('left');
+  });
+
+  it('stays at caution for a near obstacle below the danger threshold', () => {
+    const instruction = navigate([detect('person', 'front', 'near')]);
+    expect(instruction.direction).toBe('left');
+    expect(instruction.priority).toBe('caution');
+  });
+
+  it('escalates to danger for near obstacles at the danger threshold', () => {
+    const instruction = navigate([detect('person', 'front', 'near'), detect('car', 'front', 'near')]);
+    expect(instruction.direction).toBe('left');
+    expect(instruction.priority).toBe('danger');
+  });
+
+  it('does not escalate to danger when the heavy obstacles are not near', () => {
+    const instruction = navigate([detect('car', 'front'), detect('car', 'front')]);
+    expect(instruction.priority).toBe('caution');
+  });
+
+  it('ignores hazards in a band weighted zero', () => {
+    expect(navigate([detect('person', 'front', 'far')]).priority).toBe('safe');
+    const rules = { ...DEFAULT_NAVIGATION_RULES, proximityWeights: { near: 1, mid: 1, far: 1 } };
+    expect(navigate([detect('person', 'front', 'far')], rules).direction).toBe('left');
+  });
+});
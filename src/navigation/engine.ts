@@ -0,0 +1,210 @@
+import { defaultTranslator } from '../i18n/i18n';
+import type { Translator } from '../i18n/i18n';
+import type { DetectedObject, NavigationInstruction } from '../types';
+import { describeHeading, planCorridor } from './corridor';
+import { DEFAULT_PROXIMITY_SETTINGS, describeDistance, estimateProximity } from './proximity';
+import type { ProximityEstimate, ProximitySettings } from './proximity';
+import { DEFAULT_NAVIGATION_RULES, hazardWeight, isHazard } from './rules';
+import type { NavigationRules } from './rules';
+import type { Track } from './tracker';
+import { DEFAULT_ZONE_LAYOUT, getZone } from './zones';
+import type { ZoneLayout, ZoneSide } from './zones';
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+export interface NavigationInput {
+  objects: DetectedObject[];
+  frame: FrameSize;
+  /** Tracks index-aligned with `objects`, when tracking is available. */
+  tracks?: Track[];
+  layout?: ZoneLayout;
+  proximity?: ProximitySettings;
+}
+
+interface Assessed {
+  obj: DetectedObject;
+  proximity: ProximityEstimate;
+  /** Severity weight scaled by proximity band; 0 for non-hazards. */
+  weight: number;
+}
+
+const score = (items: Assessed[]) => items.reduce((sum, item) => sum + item.weight, 0);
+
+const labels = (items: Assessed[], i18n: Translator) =>
+  items.map(item => i18n.label(item.obj.label)).join(i18n.t('list.separator'));
+
+const closest = (items: Assessed[]) =>
+  [...items].sort((a, b) => (a.proximity.distanceM ?? Infinity) - (b.proximity.distanceM ?? Infinity))[0];
+
+// e.g. "chair about 2 meters"
+const describeClosest = (items: Assessed[], i18n: Translator) => {
+  const item = closest(items);
+  return i18n.t('nav.objectDistance', {
+    object: i18n.label(item.obj.label),
+    distance: describeDistance(item.proximity, i18n),
+  });
+};
+
+export const capitalize = (text: string) => `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+
+const decide = (
+  { objects, frame, layout = DEFAULT_ZONE_LAYOUT, proximity = DEFAULT_PROXIMITY_SETTINGS }: NavigationInput,
+  rules: NavigationRules,
+  i18n: Translator
+): NavigationInstruction => {
+  const sides: Record<ZoneSide, Assessed[]> = { left: [], front: [], right: [] };
+  objects
+    .filter(obj => obj.confidence >= rules.minConfidence)
+    .forEach(obj => {
+      const estimate = estimateProximity(obj, frame, proximity);
+      sides[getZone(obj, frame.width, layout).side].push({
+        obj,
+        proximity: estimate,
+        weight: hazardWeight(obj, estimate, rules),
+      });
+    });
+
+  const hazards = {
+    left: sides.left.filter(item => item.weight > 0),
+    front: sides.front.filter(item => item.weight > 0),
+    right: sides.right.filter(item => item.weight > 0),
+  };
+  const blocked = {
+    left: score(hazards.left) >= rules.thresholds.caution,
+    front: score(hazards.front) >= rules.thresholds.caution,
+    right: score(hazards.right) >= rules.thresholds.caution,
+  };
+  // DANGER is reserved for obstacles that are actually close
+  const nearAhead = hazards.front.some(item => item.proximity.band === 'near');
+
+  if (blocked.front) {
+    const frontPriority = nearAhead && score(hazards.front) >= rules.thresholds.danger ? 'danger' : 'caution';
+    const ahead = i18n.t('nav.pathBlocked', { object: describeClosest(hazards.front, i18n) });
+    const reason = i18n.t('nav.reasonObstacle', { labels: labels(hazards.front, i18n) });
+    if (!blocked.left) {
+      return {
+        direction: 'left',
+        priority: frontPriority,
+        message: `${ahead} ${i18n.t('nav.moveLeft')}`,
+        reason,
+      };
+    }
+    if (!blocked.right) {
+      return {
+        direction: 'right',
+        priority: frontPriority,
+        message: `${ahead} ${i18n.t('nav.moveRight')}`,
+        reason,
+      };
+    }
+    return {
+      direction: 'stop',
+      priority: nearAhead ? 'danger' : 'caution',
+      message: nearAhead
+        ? i18n.t('nav.stopAllDirections')
+        : i18n.t('nav.allDirections', { object: capitalize(describeClosest(hazards.front, i18n)) }),
+      reason: i18n.t('nav.reasonMultiple'),
+    };
+  }
+
+  if (sides.left.length === 0 && sides.right.length === 0) {
+    return {
+      direction: 'forward',
+      priority: 'safe',
+      message: i18n.t('nav.clear'),
+      reason: i18n.t('nav.reasonNone'),
+    };
+  }
+
+  if (blocked.left && !blocked.right) {
+    return {
+      direction: 'right',
+      priority: 'caution',
+      message: i18n.t('nav.obstacleLeft', { object: describeClosest(hazards.left, i18n) }),
+      reason: i18n.t('nav.reasonLeft', { labels: labels(hazards.left, i18n) }),
+    };
+  }
+
+  if (blocked.right && !blocked.left) {
+    return {
+      direction: 'left',
+      priority: 'caution',
+      message: i18n.t('nav.obstacleRight', { object: describeClosest(hazards.right, i18n) }),
+      reason: i18n.t('nav.reasonRight', { labels: labels(hazards.right, i18n) }),
+    };
+  }
+
+  return {
+    direction: 'forward',
+    priority: 'caution',
+    message: i18n.t('nav.caution'),
+    reason: i18n.t('nav.reasonDetected', { labels: labels([...sides.left, ...sides.front, ...sides.right].slice(0, 3), i18n) }),
+  };
+};
+
+// Warn about hazards that are closing in, which a single frame cannot show
+const applyTrackMotion = (
+  instruction: NavigationInstruction,
+  { frame, tracks = [], layout = DEFAULT_ZONE_LAYOUT, proximity = DEFAULT_PROXIMITY_SETTINGS }: NavigationInput,
+  rules: NavigationRules,
+  i18n: Translator
+): NavigationInstruction => {
+  const approaching = tracks
+    .filter(track => track.motion === 'approaching' && isHazard(track, rules))
+    .sort((a, b) => b.scaleGrowth - a.scaleGrowth);
+  if (approaching.length === 0) return instruction;
+
+  const warnings = approaching.slice(0, 2).map(track => {
+    const zone = getZone(track.object, frame.width, layout);
+    const object = capitalize(i18n.label(track.label));
+    return zone.side === 'front'
+      ? i18n.t('nav.approachingAhead', { object })
+      : i18n.t('nav.approachingFrom', { object, zone: i18n.zone(zone) });
+  });
+
+  const nearApproachAhead = approaching.some(track =>
+    getZone(track.object, frame.width, layout).side === 'front' &&
+    estimateProximity(track.object, frame, proximity).band === 'near'
+  );
+  const priority = nearApproachAhead ? 'danger' : instruction.priority === 'safe' ? 'caution' : instruction.priority;
+
+  return {
+    ...instruction,
+    priority,
+    message: `${warnings.join(' ')} ${instruction.message}`,
+    reason: i18n.t('nav.reasonApproaching', {
+      reason: instruction.reason,
+      tracks: approaching.map(t => `#${t.id} ${i18n.label(t.label)}`).join(i18n.t('list.separator')),
+    }),
+  };
+};
+
+// Refine a left/right/forward decision into a concrete heading through the widest gap
+const applyCorridor = (
+  instruction: NavigationInstruction,
+  input: NavigationInput,
+  rules: NavigationRules,
+  i18n: Translator
+): NavigationInstruction => {
+  const preferSide = instruction.direction === 'left' || instruction.direction === 'right' ? instruction.direction : undefined;
+  const plan = planCorridor(input, rules, preferSide);
+  if (!plan) return instruction;
+
+  const withHeading = { ...instruction, heading: plan.headingDeg, corridorWidth: plan.widthDeg };
+  if (instruction.direction === 'stop' || Math.abs(plan.headingDeg) < 5) return withHeading;
+  return { ...withHeading, message: `${instruction.message} ${describeHeading(plan, i18n)}` };
+};
+
+/**
+ * Turns one frame's detections into a navigation instruction, worded in
+ * `i18n`'s language. Pure: depends only on its inputs and the rule set.
+ */
+export const generateNavigationInstructions = (
+  input: NavigationInput,
+  rules: NavigationRules = DEFAULT_NAVIGATION_RULES,
+  i18n: Translator = defaultTranslator
+): NavigationInstruction =>
+  applyCorridor(applyTrackMotion(decide(input, rules, i18n), input, rules, i18n), input, rules, i18n);
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { parseGuidance, zoneEntries } from './guidance';
+import { createZoneLayout, DEFAULT_ZONE_LAYOUT } from './zones';
+
+const FIVE_ZONES = createZoneLayout(5, true);
+
+describe('parseGuidance', () => {
+  it('splits the legacy "To your ..." wording', () => {
+    const zones = parseGuidance('To your left: a chair. To your front: a person. To your right: clear.', DEFAULT_ZONE_LAYOUT);
+    expect(zones).toEqual({ left: ['a chair'], front: ['a person'], right: ['clear'] });
+  });
+
+  it('keeps every sentence of a multi-sentence zone', () => {
+    const zones = parseGuidance('To your left: a chair. It is close! Mind the legs. To your right: a table.', DEFAULT_ZONE_LAYOUT);
+    expect(zones.left).toEqual(['a chair', 'It is close!', 'Mind the legs']);
+    expect(zones.right).toEqual(['a table']);
+  });
+
+  it('does not split sentences at decimal points', () => {
+    const zones = parseGuidance('To your front: a person about 1.5 m away. Slow down.', DEFAULT_ZONE_LAYOUT);
+    expect(zones.front).toEqual(['a person about 1.5 m away', 'Slow down']);
+  });
+
+  it('does not take "Left-hand" for a heading', () => {
+    const zones = parseGuidance('To your front: a door. Left-hand side: a shelf.', DEFAULT_ZONE_LAYOUT);
+    expect(zones.left).toEqual([]);
+    expect(zones.front).toEqual(['a door', 'Left-hand side: a shelf']);
+  });
+
+  it('does not take a mid-sentence "turn right:" for a heading', () => {
+    const zones = parseGuidance('To your front: a wall, so turn right: the hallway continues.', DEFAULT_ZONE_LAYOUT);
+    expect(zones.right).toEqual([]);
+    expect(zones.front).toEqual(['a wall, so turn right: the hallway continues']);
+  });
+
+  it('reads center, centre, middle and ahead as the front zone', () => {
+    ['Center', 'Centre', 'Middle', 'Ahead'].forEach(name => {
+      expect(parseGuidance(`${name}: a bench.`, DEFAULT_ZONE_LAYOUT).front).toEqual(['a bench']);
+    });
+  });
+
+  it('accepts other heading forms and finer layouts', () => {
+    const zones = parseGuidance('On the far left - a bicycle.\nFar right side: a dog', FIVE_ZONES);
+    expect(zones['far-left']).toEqual(['a bicycle']);
+    expect(zones['far-right']).toEqual(['a dog']);
+  });
+
+  it('ignores text before the first heading', () => {
+    const zones = parseGuidance('Scene overview. Left: a cup.', DEFAULT_ZONE_LAYOUT);
+    expect(zones).toEqual({ left: ['a cup'], front: [], right: [] });
+  });
+
+  it('returns empty zones for text without headings', () => {
+    expect(parseGuidance('Nothing to report.', DEFAULT_ZONE_LAYOUT)).toEqual({ left: [], front: [], right: [] });
+  });
+});
+
+describe('zoneEntries', () => {
+  it('wraps parsed sentences when no structured guidance is sent', () => {
+    const entries = zoneEntries({ guidance: 'To your left: a chair.' }, DEFAULT_ZONE_LAYOUT);
+    expect(entries.left).toEqual([{ text: 'a chair' }]);
+  });
+
+  it('prefers structured guidance_zones over the text', () => {
+    const entries = zoneEntries({
+      guidance: 'To your left: ignored.',
+      guidance_zones: [
+        { zone: 'far right', objects: [{ label: 'car', count: 2, confidence: 0.8, hazard: true }] },
+        { zone: 'Front', objects: [{ label: 'cup', count: 1, hazard: false }] },
+        { zone: 'upstairs', objects: [{ label: 'lamp', count: 1, hazard: false }] },
+      ],
+    }, DEFAULT_ZONE_LAYOUT);
+    expect(entries).toEqual({
+      left: [],
+      front: [{ text: 'cup', count: 1, confidence: undefined, hazard: false }],
+      right: [{ text: 'car', count: 2, confidence: 0.8, hazard: true }],
+    });
+  });
+});
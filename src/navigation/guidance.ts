@@ -0,0 +1,78 @@
+import type { ZoneGuidance } from '../types';
+import { findZoneByName } from './zones';
+import type { ZoneLayout } from './zones';
+
+/** One line of a zone card. */
+export interface ZoneEntry {
+  text: string;
+  /** Only known from structured guidance. */
+  count?: number;
+  confidence?: number;
+  hazard?: boolean;
+}
+
+// A zone heading at the start of the text or of a sentence: "To your left:",
+// "On the far right -", "Front:". Mid-sentence words like "turn right:" and
+// hyphenated ones like "Left-hand" are not headings.
+const ZONE_HEADING =
+  /(?:^|[.!?;]\s+|\n\s*)(?:(?:to|on|at) (?:your|the) )?(far left|slight left|far right|slight right|left|right|front|ahead|center|centre|middle)(?: side)?(?:\s*:|\s+[–—-])\s*/gi;
+
+// Sentence ends, but not the point in "1.5 m"
+const SENTENCE_END = /(?<=[.!?])\s+/;
+
+const CENTER_NAMES = ['center', 'centre', 'middle'];
+
+const emptyZones = <T>(layout: ZoneLayout): Record<string, T[]> =>
+  Object.fromEntries(layout.zones.map(zone => [zone.id, []]));
+
+/**
+ * Splits the backend's free-text guidance ("To your left: a chair. To your
+ * front: ...") into per-zone sentences keyed by zone id. A zone runs until
+ * the next heading, so multi-sentence zones keep every sentence. Text before
+ * the first heading and headings naming no zone of `layout` are ignored.
+ */
+export const parseGuidance = (guidance: string, layout: ZoneLayout): Record<string, string[]> => {
+  const zones = emptyZones<string>(layout);
+  const headings = [...guidance.matchAll(ZONE_HEADING)];
+
+  headings.forEach((heading, idx) => {
+    const name = heading[1].toLowerCase();
+    const zone = findZoneByName(layout, CENTER_NAMES.includes(name) ? 'front' : name);
+    if (!zone) return;
+
+    const start = (heading.index ?? 0) + heading[0].length;
+    const end = idx + 1 < headings.length ? headings[idx + 1].index : guidance.length;
+    guidance
+      .slice(start, end)
+      .split(SENTENCE_END)
+      .map(sentence => sentence.trim().replace(/[.;]+$/, '').trim())
+      .filter(sentence => /\w/.test(sentence))
+      .forEach(sentence => zones[zone.id].push(sentence));
+  });
+
+  return zones;
+};
+
+/**
+ * Zone card contents for a result: the server's structured `guidance_zones`
+ * when it sent them, otherwise whatever `parseGuidance` finds in the text.
+ */
+export const zoneEntries = (
+  { guidance, guidance_zones: structured }: { guidance: string; guidance_zones?: ZoneGuidance[] },
+  layout: ZoneLayout
+): Record<string, ZoneEntry[]> => {
+  if (!structured) {
+    const parsed = parseGuidance(guidance, layout);
+    return Object.fromEntries(Object.entries(parsed).map(([id, sentences]) => [id, sentences.map(text => ({ text }))]));
+  }
+
+  const zones = emptyZones<ZoneEntry>(layout);
+  structured.forEach(({ zone: name, objects }) => {
+    const zone = findZoneByName(layout, name);
+    if (!zone) return;
+    objects.forEach(({ label, count, confidence, hazard }) => {
+      zones[zone.id].push({ text: label, count, confidence, hazard });
+    });
+  });
+  return zones;
+};
@@ -0,0 +1,169 @@
+import { defaultTranslator } from '../i18n/i18n';
+import type { Translator } from '../i18n/i18n';
+import type { DetectedObject, NavigationInstruction } from '../types';
+import { planCorridor } from './corridor';
+import type { FrameSize } from './engine';
+import { estimateProximity, formatDistance } from './proximity';
+import type { ProximitySettings } from './proximity';
+import { DEFAULT_NAVIGATION_RULES } from './rules';
+import type { NavigationRules } from './rules';
+import { describeMotion } from './tracker';
+import type { Track } from './tracker';
+import { groupByZone, getZone, zoneImageSpans } from './zones';
+import type { ZoneLayout } from './zones';
+
+/** Everything the overlay shows for one processed frame. */
+export interface OverlayScene {
+  objects: DetectedObject[];
+  /** Index-aligned with `objects`. */
+  tracks: Track[];
+  /** Resolution the boxes are expressed in. */
+  frame: FrameSize;
+  layout: ZoneLayout;
+  proximity: ProximitySettings;
+  instruction: NavigationInstruction | null;
+  /** Rules the instruction was made with, so the drawn corridor matches the spoken one. */
+  rules?: NavigationRules;
+  /** Language of the box and zone labels; English by default. */
+  i18n?: Translator;
+}
+
+const TARGET_COLOR = '#FFC400';
+
+/** Arrow from the bottom center at `headingDeg`, given in the user's frame of reference. */
+const drawHeadingArrow = (ctx: CanvasRenderingContext2D, headingDeg: number, mirror: boolean, color: string) => {
+  const { width, height } = ctx.canvas;
+  const angle = (headingDeg * Math.PI) / 180 * (mirror ? -1 : 1);
+  const length = height * 0.3;
+  const baseX = width / 2;
+  const baseY = height - 10;
+  const tipX = baseX + Math.sin(angle) * length;
+  const tipY = baseY - Math.cos(angle) * length;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 5;
+  ctx.beginPath();
+  ctx.moveTo(baseX, baseY);
+  ctx.lineTo(tipX, tipY);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.arc(tipX, tipY, 8, 0, Math.PI * 2);
+  ctx.fillStyle = color;
+  ctx.fill();
+};
+
+/**
+ * Draws occupied zones, labelled boxes, the steering corridor (or the arrow
+ * to a sought target) and zone labels onto a canvas already sized to the
+ * displayed image.
+ */
+export const drawNavigationOverlay = (ctx: CanvasRenderingContext2D, scene: OverlayScene) => {
+  const {
+    objects,
+    tracks,
+    frame,
+    layout,
+    proximity,
+    instruction,
+    rules = DEFAULT_NAVIGATION_RULES,
+    i18n = defaultTranslator,
+  } = scene;
+  const width = ctx.canvas.width;
+  const height = ctx.canvas.height;
+
+  // Draw zone indicators
+  ctx.globalAlpha = 0.2;
+
+  const groups = groupByZone(objects, frame.width, layout);
+  const spans = zoneImageSpans(layout).map(span => ({
+    ...span,
+    occupied: groups[span.zone.id].length > 0,
+  }));
+  spans.forEach(({ zone, start, end, occupied }) => {
+    if (!occupied) return;
+    ctx.fillStyle = zone.color;
+    ctx.fillRect(start * width, 0, (end - start) * width, height);
+  });
+
+  // Draw bounding boxes
+  ctx.globalAlpha = 1.0;
+  objects.forEach((obj, idx) => {
+    const [x1, y1, x2, y2] = obj.bounding_box;
+
+    const scaleX = width / frame.width;
+    const scaleY = height / frame.height;
+
+    const sx1 = x1 * scaleX;
+    const sy1 = y1 * scaleY;
+    const sx2 = x2 * scaleX;
+    const sy2 = y2 * scaleY;
+
+    const isTarget = idx === instruction?.targetIndex;
+    const color = isTarget ? TARGET_COLOR : getZone(obj, frame.width, layout).color;
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = isTarget ? 6 : 3;
+    ctx.strokeRect(sx1, sy1, sx2 - sx1, sy2 - sy1);
+
+    const track = tracks[idx];
+    const motion = describeMotion(track, i18n);
+    const distance = formatDistance(estimateProximity(obj, frame, proximity));
+    const label = `${track ? `#${track.id} ` : ''}${i18n.label(obj.label)} ${(obj.confidence * 100).toFixed(0)}% ${distance}${motion ? ` · ${motion}` : ''}`;
+    ctx.font = 'bold 16px Arial';
+    // The default 'start' follows the page direction and would run RTL labels off the box
+    ctx.textAlign = 'left';
+    const textMetrics = ctx.measureText(label);
+    const textHeight = 24;
+
+    ctx.fillStyle = color;
+    ctx.fillRect(sx1, sy1 - textHeight, textMetrics.width + 10, textHeight);
+
+    ctx.fillStyle = 'white';
+    ctx.fillText(label, sx1 + 5, sy1 - 6);
+  });
+
+  // When seeking, the arrow points at the target rather than along a corridor
+  const targetIndex = instruction?.targetIndex;
+  if (instruction?.heading !== undefined && targetIndex !== undefined) {
+    drawHeadingArrow(ctx, instruction.heading, layout.mirror, TARGET_COLOR);
+  }
+
+  // Draw the free corridor chosen for steering
+  const direction = instruction?.direction;
+  const plan = targetIndex === undefined && planCorridor(
+    { objects, frame, layout, proximity },
+    rules,
+    direction === 'left' || direction === 'right' ? direction : undefined
+  );
+  if (plan && direction !== 'stop') {
+    const toImageX = (userFraction: number) => (layout.mirror ? 1 - userFraction : userFraction) * width;
+    const x1 = Math.min(toImageX(plan.corridor.start), toImageX(plan.corridor.end));
+    const x2 = Math.max(toImageX(plan.corridor.start), toImageX(plan.corridor.end));
+
+    ctx.fillStyle = 'rgba(0, 230, 118, 0.15)';
+    ctx.fillRect(x1, height * 0.5, x2 - x1, height * 0.5);
+    ctx.setLineDash([8, 6]);
+    ctx.strokeStyle = '#00E676';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x1, height * 0.5, x2 - x1, height * 0.5);
+    ctx.setLineDash([]);
+
+    drawHeadingArrow(ctx, plan.headingDeg, layout.mirror, '#00E676');
+  }
+
+  // Draw zone labels
+  ctx.font = 'bold 20px Arial';
+  ctx.textAlign = 'center';
+
+  spans.forEach(({ zone, start, end, occupied }) => {
+    if (!occupied) return;
+    const centerX = ((start + end) / 2) * width;
+    const text = `${zone.icon} ${i18n.zone(zone).toLocaleUpperCase(i18n.locale)}`;
+    const boxWidth = Math.max(120, ctx.measureText(text).width + 20);
+    ctx.globalAlpha = 0.8;
+    ctx.fillStyle = zone.color;
+    ctx.fillRect(centerX - boxWidth / 2, 10, boxWidth, 40);
+    ctx.globalAlpha = 1.0;
+    ctx.fillStyle = 'white';
+    ctx.fillText(text, centerX, 37);
+  });
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { estimateProximity } from './proximity';
+
+const frame = { width: 640, height: 480 };
+
+describe('estimateProximity', () => {
+  it('sizes known classes from their box height', () => {
+    const estimate = estimateProximity({ label: 'Person', confidence: 0.9, bounding_box: [280, 140, 360, 340] }, frame);
+    expect(estimate.distanceM).toBeCloseTo(3.92, 1);
+    expect(estimate.band).toBe('mid');
+  });
+
+  it('has no distance for classes without a typical size, inherited keys included', () => {
+    ['lamp', 'constructor', 'toString', '__proto__'].forEach(label => {
+      const estimate = estimateProximity({ label, confidence: 0.9, bounding_box: [280, 140, 360, 340] }, frame);
+      expect(estimate.distanceM).toBeNull();
+    });
+  });
+});
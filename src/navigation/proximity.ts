@@ -0,0 +1,133 @@
+import { defaultTranslator } from '../i18n/i18n';
+import type { Translator } from '../i18n/i18n';
+import type { DetectedObject } from '../types';
+
+export type ProximityBand = 'near' | 'mid' | 'far';
+
+export interface ProximitySettings {
+  /** Camera's vertical field of view, in degrees. */
+  verticalFovDeg: number;
+  /** Camera height above the ground in meters, or null when unknown (disables the ground-plane estimate). */
+  cameraHeightM: number | null;
+  /** Upper distance bound of the near band, in meters. */
+  nearMaxM: number;
+  /** Upper distance bound of the mid band, in meters. */
+  midMaxM: number;
+}
+
+export const DEFAULT_PROXIMITY_SETTINGS: ProximitySettings = {
+  verticalFovDeg: 55,
+  cameraHeightM: null,
+  nearMaxM: 2,
+  midMaxM: 5,
+};
+
+/** Typical real-world size of common detector classes, in meters. */
+const TYPICAL_SIZES: Record<string, { height: number; width?: number }> = {
+  person: { height: 1.7, width: 0.5 },
+  chair: { height: 0.9, width: 0.5 },
+  table: { height: 0.75, width: 1.2 },
+  'dining table': { height: 0.75, width: 1.2 },
+  bench: { height: 0.8, width: 1.5 },
+  couch: { height: 0.85, width: 2.0 },
+  bed: { height: 0.6, width: 1.6 },
+  car: { height: 1.5, width: 1.8 },
+  truck: { height: 3.0, width: 2.5 },
+  bus: { height: 3.2, width: 2.5 },
+  bicycle: { height: 1.0, width: 1.7 },
+  motorcycle: { height: 1.1, width: 2.0 },
+  dog: { height: 0.5, width: 0.8 },
+  cat: { height: 0.3, width: 0.45 },
+  'potted plant': { height: 0.6 },
+  'fire hydrant': { height: 0.7 },
+  'stop sign': { height: 0.75 },
+  toilet: { height: 0.75 },
+  door: { height: 2.0, width: 0.9 },
+  refrigerator: { height: 1.8, width: 0.8 },
+  tv: { height: 0.6, width: 1.0 },
+  suitcase: { height: 0.7, width: 0.45 },
+};
+
+export interface ProximityEstimate {
+  /** Estimated distance in meters, or null when the class has no known size and no calibration helps. */
+  distanceM: number | null;
+  band: ProximityBand;
+}
+
+// Pixels within this margin of the frame edge count as "touching" it
+const EDGE_MARGIN = 2;
+
+const focalLengthPx = (frameHeight: number, verticalFovDeg: number) =>
+  frameHeight / 2 / Math.tan((verticalFovDeg * Math.PI) / 360);
+
+const bandFor = (distanceM: number, settings: ProximitySettings): ProximityBand =>
+  distanceM <= settings.nearMaxM ? 'near' : distanceM <= settings.midMaxM ? 'mid' : 'far';
+
+/**
+ * Estimates how far away a detection is from its box geometry: the box height
+ * against the class's typical height (pinhole model), and, when the camera
+ * height is calibrated, where the box's bottom edge meets the ground plane.
+ * Boxes cut off by the frame edge are treated as at least that close.
+ */
+export const estimateProximity = (
+  obj: DetectedObject,
+  frame: { width: number; height: number },
+  settings: ProximitySettings = DEFAULT_PROXIMITY_SETTINGS
+): ProximityEstimate => {
+  const [x1, y1, x2, y2] = obj.bounding_box;
+  const focal = focalLengthPx(frame.height, settings.verticalFovDeg);
+  const label = obj.label.toLowerCase();
+  const size = Object.hasOwn(TYPICAL_SIZES, label) ? TYPICAL_SIZES[label] : undefined;
+
+  const clippedTop = y1 <= EDGE_MARGIN;
+  const clippedBottom = y2 >= frame.height - EDGE_MARGIN;
+  const clippedSide = x1 <= EDGE_MARGIN || x2 >= frame.width - EDGE_MARGIN;
+
+  const estimates: number[] = [];
+
+  if (size) {
+    const boxHeight = y2 - y1;
+    const boxWidth = x2 - x1;
+    if (!clippedTop && !clippedBottom && boxHeight > 0) {
+      estimates.push((size.height * focal) / boxHeight);
+    } else if (size.width && !clippedSide && boxWidth > 0) {
+      estimates.push((size.width * focal) / boxWidth);
+    } else if (boxHeight > 0) {
+      // Clipped everywhere: the visible part is a lower bound on size, so this is an upper bound on distance
+      estimates.push((size.height * focal) / boxHeight);
+    }
+  }
+
+  // Ground plane: with a level camera the horizon sits at mid-frame
+  const belowHorizon = y2 - frame.height / 2;
+  if (settings.cameraHeightM && !clippedBottom && belowHorizon > 0) {
+    estimates.push((settings.cameraHeightM * focal) / belowHorizon);
+  }
+
+  if (estimates.length === 0) {
+    // Unknown class: fall back to how much of the frame the box fills
+    const coverage = ((x2 - x1) * (y2 - y1)) / (frame.width * frame.height);
+    return { distanceM: null, band: coverage > 0.25 || clippedBottom ? 'near' : coverage > 0.05 ? 'mid' : 'far' };
+  }
+
+  const distanceM = estimates.reduce((sum, d) => sum + d, 0) / estimates.length;
+  return { distanceM, band: bandFor(distanceM, settings) };
+};
+
+/** Rough spoken distance, e.g. "about 2 meters". */
+export const describeDistance = (
+  { distanceM, band }: ProximityEstimate,
+  i18n: Translator = defaultTranslator
+): string => {
+  if (distanceM === null) {
+    return i18n.t(band === 'near' ? 'distance.veryClose' : band === 'mid' ? 'distance.fewMeters' : 'distance.far');
+  }
+  const meters = Math.round(distanceM);
+  if (meters < 1) return i18n.t('distance.underOne');
+  if (meters > 10) return i18n.t('distance.overTen');
+  return i18n.t('distance.about', { count: meters });
+};
+
+/** Short overlay label, e.g. "~2m". */
+export const formatDistance = ({ distanceM, band }: ProximityEstimate): string =>
+  distanceM === null ? band : distanceM < 1 ? '<1m' : `~${Math.round(distanceM)}m`;
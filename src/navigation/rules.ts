@@ -0,0 +1,72 @@
+import type { ProximityBand, ProximityEstimate } from './proximity';
+
+export type HazardSeverity = 'low' | 'medium' | 'high';
+
+/**
+ * Declarative navigation rule set. Each zone's hazard score is the sum of
+ * the severity weights of the hazards in it; the thresholds turn that score
+ * into "blocked" and "dangerous".
+ */
+export interface NavigationRules {
+  /** Detector class (lower-case) to severity. Classes not listed are never obstacles. */
+  hazards: Record<string, HazardSeverity>;
+  severityWeights: Record<HazardSeverity, number>;
+  /** Multiplier on a hazard's weight by estimated distance; 0 ignores hazards in that band. */
+  proximityWeights: Record<ProximityBand, number>;
+  thresholds: {
+    /** Zone score at which the zone counts as blocked. */
+    caution: number;
+    /** Front score at which the instruction escalates to DANGER even with a way around. */
+    danger: number;
+  };
+  /** Detections below this confidence are ignored. */
+  minConfidence: number;
+}
+
+export const DEFAULT_NAVIGATION_RULES: NavigationRules = {
+  hazards: {
+    person: 'medium',
+    car: 'high',
+    truck: 'high',
+    bicycle: 'high',
+    motorcycle: 'high',
+    chair: 'medium',
+    table: 'medium',
+    bench: 'medium',
+    couch: 'medium',
+    bed: 'medium',
+  },
+  severityWeights: {
+    low: 0.5,
+    medium: 1,
+    high: 2,
+  },
+  proximityWeights: {
+    near: 1,
+    mid: 1,
+    far: 0,
+  },
+  thresholds: {
+    caution: 1,
+    danger: 3,
+  },
+  minConfidence: 0,
+};
+
+/**
+ * The listed severity of a detection's class, or undefined when it is not a
+ * hazard. Own keys only, so labels like "constructor" don't match Object.prototype.
+ */
+export const hazardSeverity = (obj: { label: string }, rules: NavigationRules = DEFAULT_NAVIGATION_RULES): HazardSeverity | undefined => {
+  const label = obj.label.toLowerCase();
+  return Object.hasOwn(rules.hazards, label) ? rules.hazards[label] : undefined;
+};
+
+export const isHazard = (obj: { label: string }, rules: NavigationRules = DEFAULT_NAVIGATION_RULES) =>
+  hazardSeverity(obj, rules) !== undefined;
+
+/** Severity weight scaled by proximity band; 0 for classes that are not hazards. */
+export const hazardWeight = (obj: { label: string }, proximity: ProximityEstimate, rules: NavigationRules) => {
+  const severity = hazardSeverity(obj, rules);
+  return severity ? rules.severityWeights[severity] * rules.proximityWeights[proximity.band] : 0;
+};
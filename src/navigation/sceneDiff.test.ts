@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { DetectedObject } from '../types';
+import { appendSceneEvents, SceneDiffer } from './sceneDiff';
+import type { SceneEvent } from './sceneDiff';
+
+const WIDTH = 640;
+
+// The default layout is mirrored: the image's left third is the user's right
+const X = {
+  left: [480, 560],
+  front: [280, 360],
+  right: [80, 160],
+} as const;
+
+const detect = (label: string, side: keyof typeof X): DetectedObject => ({
+  label,
+  confidence: 0.9,
+  bounding_box: [X[side][0], 100, X[side][1], 300],
+});
+
+// Feeds each frame in turn, returning the events of the last
+const run = (differ: SceneDiffer, ...frames: DetectedObject[][]) =>
+  frames.map(objects => differ.update(objects, WIDTH, undefined, undefined, 1000)).at(-1) ?? [];
+
+const summary = (events: SceneEvent[]) =>
+  events.map(({ kind, label, count, zone, from }) => ({ kind, label, count, zone, from }));
+
+describe('SceneDiffer', () => {
+  it('only sets the baseline on the first frame', () => {
+    expect(run(new SceneDiffer(), [detect('person', 'left'), detect('chair', 'front')])).toEqual([]);
+  });
+
+  it('does not report a one-frame dropout as gone', () => {
+    const differ = new SceneDiffer();
+    const person = [detect('person', 'left')];
+    expect(run(differ, person, [], person)).toEqual([]);
+    expect(run(differ, [])).toEqual([]);
+    expect(summary(run(differ, []))).toEqual([
+      { kind: 'disappeared', label: 'person', count: 1, zone: 'left', from: undefined },
+    ]);
+  });
+
+  it('reports an appearance once it has held for persistFrames frames', () => {
+    const differ = new SceneDiffer({ persistFrames: 3 });
+    const chair = [detect('chair', 'front')];
+    expect(run(differ, [], chair, chair)).toEqual([]);
+    const events = run(differ, chair);
+    expect(summary(events)).toEqual([{ kind: 'appeared', label: 'chair', count: 1, zone: 'front', from: undefined }]);
+    expect(events[0].message).toBe('New ahead: chair.');
+  });
+
+  it('pairs a lost and a gained object of the same class as moved', () => {
+    const differ = new SceneDiffer();
+    const events = run(differ, [detect('person', 'left')], [detect('person', 'right')], [detect('person', 'right')]);
+    expect(summary(events)).toEqual([{ kind: 'moved', label: 'person', count: 1, zone: 'right', from: 'left' }]);
+    expect(events[0].message).toBe('Person moved: now on your right, was on your left.');
+  });
+
+  it('does not pair objects of different classes', () => {
+    const events = run(new SceneDiffer(), [detect('person', 'left')], [detect('dog', 'right')], [detect('dog', 'right')]);
+    expect(summary(events).map(({ kind, label }) => `${kind} ${label}`).sort()).toEqual(['appeared dog', 'disappeared person']);
+  });
+
+  it('reports only the difference when a count changes', () => {
+    const differ = new SceneDiffer();
+    const two = [detect('chair', 'front'), detect('chair', 'front')];
+    const three = [...two, detect('chair', 'front')];
+    expect(summary(run(differ, two, three, three))).toEqual([
+      { kind: 'appeared', label: 'chair', count: 1, zone: 'front', from: undefined },
+    ]);
+    const events = run(differ, [], []);
+    expect(summary(events)).toEqual([{ kind: 'disappeared', label: 'chair', count: 3, zone: 'front', from: undefined }]);
+    expect(events[0].message).toBe('No longer ahead: 3 chairs.');
+  });
+
+  it('takes the next frame as a new baseline after reset', () => {
+    const differ = new SceneDiffer();
+    run(differ, [detect('person', 'left')], []);
+    differ.reset();
+    expect(run(differ, [detect('chair', 'front')], [detect('chair', 'front')])).toEqual([]);
+  });
+});
+
+describe('appendSceneEvents', () => {
+  it('puts the newest first and keeps at most the limit', () => {
+    const event = (label: string): SceneEvent =>
+      ({ kind: 'appeared', label, count: 1, zone: 'front', timestamp: 0, message: label });
+    const log = appendSceneEvents([event('a')], [event('b'), event('c')], 2);
+    expect(log.map(({ label }) => label)).toEqual(['c', 'b']);
+  });
+});
@@ -0,0 +1,162 @@
+import { defaultTranslator } from '../i18n/i18n';
+import type { Translator } from '../i18n/i18n';
+import type { DetectedObject } from '../types';
+import { capitalize } from './engine';
+import { DEFAULT_ZONE_LAYOUT, getZone } from './zones';
+import type { ZoneLayout } from './zones';
+
+export type SceneChange = 'appeared' | 'disappeared' | 'moved';
+
+/** One change between the confirmed scene and the next. */
+export interface SceneEvent {
+  kind: SceneChange;
+  label: string;
+  /** How many objects of `label` changed together. */
+  count: number;
+  /** Zone id where they are now, or were last, for 'disappeared'. */
+  zone: string;
+  /** Zone id they moved from; only for 'moved'. */
+  from?: string;
+  timestamp: number;
+  /** Worded in the language of the frame it was found in. */
+  message: string;
+}
+
+export interface SceneDiffOptions {
+  /** Frames a changed count must hold before it counts, so one missed detection isn't "gone". */
+  persistFrames: number;
+}
+
+export const DEFAULT_SCENE_DIFF_OPTIONS: SceneDiffOptions = {
+  persistFrames: 2,
+};
+
+type Counts = Map<string, number>;
+
+const keyOf = (label: string, zone: string) => `${label}|${zone}`;
+
+const splitKey = (key: string) => {
+  const separator = key.indexOf('|');
+  return { label: key.slice(0, separator), zone: key.slice(separator + 1) };
+};
+
+/** Newest first, at most `limit` entries: the shape of the on-screen change log. */
+export const appendSceneEvents = (log: SceneEvent[], events: SceneEvent[], limit = 20): SceneEvent[] =>
+  [...[...events].reverse(), ...log].slice(0, limit);
+
+/**
+ * Compares each result's detections with the scene as last confirmed, per
+ * zone and per class, and words what changed: "New on your left: person."
+ * A lost and a gained object of the same class count as one that moved.
+ *
+ * The first frame after a reset only sets the baseline, so starting the
+ * camera doesn't read out everything in view.
+ */
+export class SceneDiffer {
+  private readonly options: SceneDiffOptions;
+  private confirmed: Counts | null = null;
+  private pending = new Map<string, { count: number; frames: number }>();
+
+  constructor(options: Partial<SceneDiffOptions> = {}) {
+    this.options = { ...DEFAULT_SCENE_DIFF_OPTIONS, ...options };
+  }
+
+  /** The changes this frame confirms, worded in `i18n`'s language. */
+  update(
+    objects: DetectedObject[],
+    frameWidth: number,
+    layout: ZoneLayout = DEFAULT_ZONE_LAYOUT,
+    i18n: Translator = defaultTranslator,
+    timestamp = Date.now()
+  ): SceneEvent[] {
+    const observed: Counts = new Map();
+    objects.forEach(obj => {
+      const key = keyOf(obj.label.toLowerCase(), getZone(obj, frameWidth, layout).id);
+      observed.set(key, (observed.get(key) ?? 0) + 1);
+    });
+
+    const confirmed = this.confirmed;
+    if (!confirmed) {
+      this.confirmed = observed;
+      return [];
+    }
+
+    // Per class, how many were lost from and gained in each zone
+    const deltas = new Map<string, { zone: string; delta: number }[]>();
+    new Set([...confirmed.keys(), ...observed.keys(), ...this.pending.keys()]).forEach(key => {
+      const before = confirmed.get(key) ?? 0;
+      const now = observed.get(key) ?? 0;
+      if (now === before) {
+        this.pending.delete(key);
+        return;
+      }
+      const pending = this.pending.get(key);
+      const frames = pending?.count === now ? pending.frames + 1 : 1;
+      if (frames < this.options.persistFrames) {
+        this.pending.set(key, { count: now, frames });
+        return;
+      }
+      this.pending.delete(key);
+      if (now > 0) confirmed.set(key, now);
+      else confirmed.delete(key);
+      const { label, zone } = splitKey(key);
+      deltas.set(label, [...(deltas.get(label) ?? []), { zone, delta: now - before }]);
+    });
+
+    const zoneIndex = (id: string) => layout.zones.findIndex(zone => zone.id === id);
+    const events: SceneEvent[] = [];
+    const add = (kind: SceneChange, label: string, count: number, zone: string, from?: string) =>
+      events.push({ kind, label, count, zone, from, timestamp, message: this.word(kind, label, count, zone, from, layout, i18n) });
+
+    deltas.forEach((changes, label) => {
+      const losses = changes.filter(({ delta }) => delta < 0).map(({ zone, delta }) => ({ zone, left: -delta }));
+      const gains = changes.filter(({ delta }) => delta > 0).map(({ zone, delta }) => ({ zone, left: delta }));
+
+      // Pair each gain with the nearest loss: the same objects, moved
+      gains.forEach(gain => {
+        losses
+          .filter(loss => loss.left > 0)
+          .sort((a, b) => Math.abs(zoneIndex(a.zone) - zoneIndex(gain.zone)) - Math.abs(zoneIndex(b.zone) - zoneIndex(gain.zone)))
+          .forEach(loss => {
+            const moved = Math.min(loss.left, gain.left);
+            if (moved === 0) return;
+            loss.left -= moved;
+            gain.left -= moved;
+            add('moved', label, moved, gain.zone, loss.zone);
+          });
+      });
+      gains.filter(({ left }) => left > 0).forEach(({ zone, left }) => add('appeared', label, left, zone));
+      losses.filter(({ left }) => left > 0).forEach(({ zone, left }) => add('disappeared', label, left, zone));
+    });
+    return events;
+  }
+
+  /** Forgets the scene; the next frame becomes the new baseline. */
+  reset() {
+    this.confirmed = null;
+    this.pending.clear();
+  }
+
+  private word(
+    kind: SceneChange,
+    label: string,
+    count: number,
+    zoneId: string,
+    fromId: string | undefined,
+    layout: ZoneLayout,
+    i18n: Translator
+  ): string {
+    const where = (id: string) => {
+      const zone = layout.zones.find(candidate => candidate.id === id);
+      if (!zone) return id;
+      return zone.side === 'front' ? i18n.t('scene.atFront') : i18n.t('scene.at', { zone: i18n.zone(zone) });
+    };
+    const objects = count > 1
+      ? i18n.t('scene.count', { count, object: i18n.label(label, count) })
+      : i18n.label(label);
+    if (kind === 'moved') {
+      return i18n.t('scene.moved', { objects: capitalize(objects), where: where(zoneId), from: where(fromId ?? zoneId) });
+    }
+    return i18n.t(kind === 'appeared' ? 'scene.appeared' : 'scene.disappeared', { objects, where: where(zoneId) });
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { DetectedObject } from '../types';
+import { ARRIVAL_HOLD_FRAMES, TargetSeeker } from './seek';
+
+const frame = { width: 640, height: 480 };
+
+// Covers about 40% of the frame, past the default arrival share
+const closeChair: DetectedObject = { label: 'chair', confidence: 0.9, bounding_box: [160, 60, 480, 420] };
+
+const seekChair = () => {
+  const seeker = new TargetSeeker();
+  seeker.setTarget('chair');
+  return seeker;
+};
+
+describe('TargetSeeker arrival', () => {
+  it('announces arrival once the target fills the arrival share', () => {
+    const instruction = seekChair().update({ objects: [closeChair], frame });
+    expect(instruction.direction).toBe('stop');
+    expect(instruction.priority).toBe('safe');
+    expect(instruction.targetIndex).toBe(0);
+  });
+
+  it('holds arrival for a few frames after the target drops out', () => {
+    const seeker = seekChair();
+    seeker.update({ objects: [closeChair], frame });
+    for (let missed = 0; missed < ARRIVAL_HOLD_FRAMES; missed++) {
+      const held = seeker.update({ objects: [], frame });
+      expect(held.priority).toBe('safe');
+      expect(held.targetIndex).toBeUndefined();
+    }
+    const lost = seeker.update({ objects: [], frame });
+    expect(lost.priority).toBe('caution');
+    expect(lost.message).toMatch(/chair/i);
+  });
+
+  it('starts the hold over when the target is seen again', () => {
+    const seeker = seekChair();
+    seeker.update({ objects: [closeChair], frame });
+    for (let missed = 0; missed < ARRIVAL_HOLD_FRAMES; missed++) seeker.update({ objects: [], frame });
+    seeker.update({ objects: [closeChair], frame });
+    expect(seeker.update({ objects: [], frame }).priority).toBe('safe');
+  });
+});
@@ -0,0 +1,164 @@
+import { defaultTranslator } from '../i18n/i18n';
+import type { Translator } from '../i18n/i18n';
+import { LABELS } from '../i18n/labels';
+import type { NavigationInstruction } from '../types';
+import { fractionToAngle, horizontalFovDeg } from './corridor';
+import { capitalize, generateNavigationInstructions } from './engine';
+import type { NavigationInput } from './engine';
+import { DEFAULT_PROXIMITY_SETTINGS, describeDistance, estimateProximity } from './proximity';
+import { DEFAULT_NAVIGATION_RULES } from './rules';
+import type { NavigationRules } from './rules';
+import { DEFAULT_ZONE_LAYOUT } from './zones';
+
+export interface SeekSettings {
+  /** The target counts as reached once its box covers this fraction of the frame. */
+  arrivalCoverage: number;
+}
+
+export const DEFAULT_SEEK_SETTINGS: SeekSettings = {
+  arrivalCoverage: 0.25,
+};
+
+// Within this many degrees the target counts as straight ahead
+const AHEAD_DEG = 8;
+// Beyond AHEAD_DEG and within this, it is "slightly" to one side
+const SLIGHT_DEG = 20;
+// Frames without the target for which an arrival still stands, before it counts as lost
+export const ARRIVAL_HOLD_FRAMES = 3;
+
+/** Every class the detector knows, plus any other label it has actually sent. */
+export const seekableLabels = (seen: string[] = []): string[] =>
+  [...new Set([...Object.keys(LABELS.en), ...seen.map(label => label.toLowerCase())])];
+
+/**
+ * Steers toward one detector class instead of away from hazards. Stays
+ * with the same tracked object while it is visible, so two chairs don't
+ * make the guidance flip between them, and remembers which side the target
+ * was last seen on for when it drops out of view.
+ *
+ * Obstacles still come first when they are dangerous: a DANGER instruction
+ * from the regular engine replaces the seek guidance. The target class
+ * itself is not treated as an obstacle, since the user means to walk up to it.
+ */
+export class TargetSeeker {
+  private settings: SeekSettings;
+  private target: string | null = null;
+  private trackId: number | null = null;
+  private lastSeen: 'left' | 'right' | 'front' | null = null;
+  private arrival: NavigationInstruction | null = null;
+  private missedFrames = 0;
+
+  constructor(settings: SeekSettings = DEFAULT_SEEK_SETTINGS) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: SeekSettings) {
+    this.settings = settings;
+  }
+
+  /** The detector class being sought, or null for plain obstacle avoidance. */
+  get seeking(): string | null {
+    return this.target;
+  }
+
+  /** Starts seeking `target`, forgetting any previous one; null goes back to obstacle avoidance. */
+  setTarget(target: string | null) {
+    this.target = target?.toLowerCase() ?? null;
+    this.trackId = null;
+    this.lastSeen = null;
+    this.arrival = null;
+    this.missedFrames = 0;
+  }
+
+  /** The instruction for one frame, worded in `i18n`'s language. */
+  update(
+    input: NavigationInput,
+    rules: NavigationRules = DEFAULT_NAVIGATION_RULES,
+    i18n: Translator = defaultTranslator
+  ): NavigationInstruction {
+    const { target } = this;
+    if (!target) return generateNavigationInstructions(input, rules, i18n);
+
+    const hazards = Object.fromEntries(Object.entries(rules.hazards).filter(([label]) => label !== target));
+    const avoidance = generateNavigationInstructions(input, { ...rules, hazards }, i18n);
+    if (avoidance.priority === 'danger') return avoidance;
+
+    const { objects, frame, tracks = [], layout = DEFAULT_ZONE_LAYOUT, proximity = DEFAULT_PROXIMITY_SETTINGS } = input;
+    const object = i18n.label(target);
+
+    const candidates = objects
+      .map((obj, index) => {
+        const [x1, y1, x2, y2] = obj.bounding_box;
+        const coverage = (Math.max(0, Math.min(frame.width, x2) - Math.max(0, x1)) *
+          Math.max(0, Math.min(frame.height, y2) - Math.max(0, y1))) / (frame.width * frame.height);
+        return { obj, index, track: tracks[index], coverage };
+      })
+      .filter(({ obj }) => obj.label.toLowerCase() === target && obj.confidence >= rules.minConfidence);
+
+    if (candidates.length === 0) {
+      // Right up close the box runs off the frame and detection drops out; that is still arrival
+      // for a few frames, but the target may really have gone. Its index was into older detections.
+      if (this.arrival && ++this.missedFrames <= ARRIVAL_HOLD_FRAMES) return { ...this.arrival, targetIndex: undefined };
+      this.arrival = null;
+      const side = this.lastSeen === 'left' || this.lastSeen === 'right' ? this.lastSeen : null;
+      return {
+        direction: side ?? 'stop',
+        priority: 'caution',
+        message: i18n.t(side === 'left' ? 'seek.lostLeft' : side === 'right' ? 'seek.lostRight' : 'seek.lost', {
+          object: capitalize(object),
+        }),
+        reason: i18n.t('seek.reasonLost', { object }),
+      };
+    }
+
+    // Keep following the same object; otherwise take the surest, closest-looking match
+    const chosen = candidates.find(({ track }) => track && track.id === this.trackId) ??
+      candidates.reduce((best, candidate) =>
+        candidate.obj.confidence * Math.sqrt(candidate.coverage) > best.obj.confidence * Math.sqrt(best.coverage)
+          ? candidate
+          : best);
+    this.trackId = chosen.track?.id ?? null;
+    this.missedFrames = 0;
+
+    const [x1, , x2] = chosen.obj.bounding_box;
+    const imageCenter = (x1 + x2) / 2 / frame.width;
+    const heading = fractionToAngle(
+      layout.mirror ? 1 - imageCenter : imageCenter,
+      horizontalFovDeg(frame, proximity.verticalFovDeg)
+    );
+    const offset = Math.abs(heading);
+    const side = heading < 0 ? 'left' : 'right';
+    this.lastSeen = offset < AHEAD_DEG ? 'front' : side;
+
+    const coverage = Math.round(chosen.coverage * 100);
+    if (chosen.coverage >= this.settings.arrivalCoverage) {
+      this.arrival = {
+        direction: 'stop',
+        priority: 'safe',
+        message: i18n.t('seek.arrived', { object }),
+        reason: i18n.t('seek.reasonArrived', { object, coverage }),
+        heading,
+        targetIndex: chosen.index,
+      };
+      return this.arrival;
+    }
+    this.arrival = null;
+
+    let where = i18n.t('seek.ahead');
+    if (offset >= SLIGHT_DEG) where = i18n.t(side === 'left' ? 'seek.left' : 'seek.right');
+    else if (offset >= AHEAD_DEG) where = i18n.t(side === 'left' ? 'seek.slightlyLeft' : 'seek.slightlyRight');
+
+    return {
+      direction: offset < AHEAD_DEG ? 'forward' : side,
+      priority: 'safe',
+      message: i18n.t('seek.found', {
+        object: capitalize(object),
+        where,
+        distance: describeDistance(estimateProximity(chosen.obj, frame, proximity), i18n),
+      }),
+      reason: i18n.t('seek.reasonFound', { object, coverage }),
+      heading,
+      targetIndex: chosen.index,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { defaultTranslator } from '../i18n/i18n';
+import type { Translator } from '../i18n/i18n';
+import type { NavigationInstruction } from '../types';
+
+export interface StabilizerSettings {
+  /** Consecutive frames a new direction must persist before it replaces the current one. */
+  persistFrames: number;
+  /** Announce "Still clear" after this long without announcements on a clear path; 0 disables. */
+  reassuranceIntervalMs: number;
+}
+
+export const DEFAULT_STABILIZER_SETTINGS: StabilizerSettings = {
+  persistFrames: 2,
+  reassuranceIntervalMs: 0,
+};
+
+export interface StabilizedInstruction {
+  /** The instruction to display. */
+  instruction: NavigationInstruction;
+  /** Text to speak now, or null to stay quiet. */
+  announce: string | null;
+}
+
+// Two instructions differ materially when the user would act differently
+const keyOf = (instruction: NavigationInstruction) => `${instruction.direction}|${instruction.priority}`;
+
+/**
+ * Sits between the navigation engine and output. A changed direction must
+ * persist for `persistFrames` frames before it is adopted (DANGER always
+ * passes at once), and only material changes are announced.
+ */
+export class InstructionStabilizer {
+  private settings: StabilizerSettings;
+  private current: NavigationInstruction | null = null;
+  private pendingKey: string | null = null;
+  private pendingCount = 0;
+  private lastAnnouncedAt = 0;
+  private i18n: Translator = defaultTranslator;
+
+  constructor(settings: StabilizerSettings = DEFAULT_STABILIZER_SETTINGS) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: StabilizerSettings) {
+    this.settings = settings;
+  }
+
+  /** Language of the "Still clear" reassurance; instructions arrive already worded. */
+  setTranslator(i18n: Translator) {
+    this.i18n = i18n;
+  }
+
+  push(candidate: NavigationInstruction, now = Date.now()): StabilizedInstruction {
+    const current = this.current;
+
+    if (!current || candidate.priority === 'danger' || keyOf(candidate) === keyOf(current)) {
+      this.pendingKey = null;
+      this.pendingCount = 0;
+      return this.adopt(candidate, !current || keyOf(candidate) !== keyOf(current), now);
+    }
+
+    const key = keyOf(candidate);
+    this.pendingCount = key === this.pendingKey ? this.pendingCount + 1 : 1;
+    this.pendingKey = key;
+    if (this.pendingCount >= this.settings.persistFrames) {
+      this.pendingKey = null;
+      this.pendingCount = 0;
+      return this.adopt(candidate, true, now);
+    }
+
+    // Not yet confirmed: hold the current instruction
+    return { instruction: current, announce: this.reassurance(current, now) };
+  }
+
+  /** The instruction currently in force, e.g. for "repeat last instruction". */
+  get instruction(): NavigationInstruction | null {
+    return this.current;
+  }
+
+  reset() {
+    this.current = null;
+    this.pendingKey = null;
+    this.pendingCount = 0;
+    this.lastAnnouncedAt = 0;
+  }
+
+  private adopt(instruction: NavigationInstruction, changed: boolean, now: number): StabilizedInstruction {
+    this.current = instruction;
+    if (changed) {
+      this.lastAnnouncedAt = now;
+      return { instruction, announce: instruction.message };
+    }
+    return { instruction, announce: this.reassurance(instruction, now) };
+  }
+
+  private reassurance(instruction: NavigationInstruction, now: number): string | null {
+    const { reassuranceIntervalMs } = this.settings;
+    if (reassuranceIntervalMs <= 0 || instruction.priority !== 'safe') return null;
+    if (now - this.lastAnnouncedAt < reassuranceIntervalMs) return null;
+    this.lastAnnouncedAt = now;
+    return this.i18n.t('nav.stillClear');
+  }
+}
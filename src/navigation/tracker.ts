@@ -0,0 +1,170 @@
+import { defaultTranslator } from '../i18n/i18n';
+import type { Translator } from '../i18n/i18n';
+import type { DetectedObject } from '../types';
+
+export type TrackMotion = 'new' | 'stationary' | 'approaching' | 'receding' | 'crossing';
+
+export interface Track {
+  id: number;
+  label: string;
+  /** Latest detection matched to this track. */
+  object: DetectedObject;
+  /** Number of frames the track has been matched in. */
+  age: number;
+  /** Consecutive frames without a match. */
+  missed: number;
+  lastSeen: number;
+  /** Smoothed horizontal velocity of the box center, in frame widths per second. */
+  velocityX: number;
+  /** Smoothed growth rate of the box area, ln(area ratio) per second. Positive when getting closer. */
+  scaleGrowth: number;
+  motion: TrackMotion;
+}
+
+export interface TrackerOptions {
+  /** Minimum IoU for a same-label detection to continue a track. */
+  minIou: number;
+  /** Alternative match: center distance below this fraction of the frame width. */
+  maxCenterDistance: number;
+  /** Frames a track survives without a match before it is dropped. */
+  maxMissed: number;
+  /** Area growth rate (per second) above which an object counts as approaching. */
+  approachRate: number;
+  /** Horizontal speed (frame widths per second) above which an object counts as crossing. */
+  crossingSpeed: number;
+  /** Weight of the newest measurement in the velocity/growth moving average. */
+  smoothing: number;
+}
+
+export const DEFAULT_TRACKER_OPTIONS: TrackerOptions = {
+  minIou: 0.2,
+  maxCenterDistance: 0.15,
+  maxMissed: 2,
+  approachRate: 0.08,
+  crossingSpeed: 0.04,
+  smoothing: 0.6,
+};
+
+const area = ([x1, y1, x2, y2]: DetectedObject['bounding_box']) => Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+
+const centerX = ([x1, , x2]: DetectedObject['bounding_box']) => (x1 + x2) / 2;
+
+/** Motion worth showing next to a detection; empty for new or stationary tracks. */
+export const describeMotion = (track: Track | undefined, i18n: Translator = defaultTranslator): string => {
+  const motion = track?.motion;
+  return motion && motion !== 'new' && motion !== 'stationary' ? i18n.t(`motion.${motion}`) : '';
+};
+
+export const iou = (a: DetectedObject['bounding_box'], b: DetectedObject['bounding_box']): number => {
+  const ix = Math.max(0, Math.min(a[2], b[2]) - Math.max(a[0], b[0]));
+  const iy = Math.max(0, Math.min(a[3], b[3]) - Math.max(a[1], b[1]));
+  const intersection = ix * iy;
+  const union = area(a) + area(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+/**
+ * Associates detections across successive results so each physical object
+ * keeps a stable ID, and estimates whether it is approaching, receding or
+ * crossing the user's path from how its box grows and moves.
+ */
+export class ObjectTracker {
+  private readonly options: TrackerOptions;
+  private tracks: Track[] = [];
+  private nextId = 1;
+
+  constructor(options: Partial<TrackerOptions> = {}) {
+    this.options = { ...DEFAULT_TRACKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Matches `objects` against the live tracks and returns the track for each
+   * detection, index-aligned with `objects`.
+   */
+  update(objects: DetectedObject[], frameWidth: number, timestamp = Date.now()): Track[] {
+    const { minIou, maxCenterDistance, maxMissed } = this.options;
+
+    // Greedy assignment, best-scoring pairs first
+    const candidates: { trackIdx: number; objIdx: number; score: number }[] = [];
+    this.tracks.forEach((track, trackIdx) => {
+      objects.forEach((obj, objIdx) => {
+        if (obj.label !== track.label) return;
+        const overlap = iou(track.object.bounding_box, obj.bounding_box);
+        const distance = Math.abs(centerX(track.object.bounding_box) - centerX(obj.bounding_box)) / frameWidth;
+        if (overlap >= minIou || distance <= maxCenterDistance) {
+          candidates.push({ trackIdx, objIdx, score: overlap + (1 - distance) * 0.1 });
+        }
+      });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const assigned: (Track | undefined)[] = new Array(objects.length);
+    const matchedTracks = new Set<number>();
+    for (const { trackIdx, objIdx } of candidates) {
+      if (matchedTracks.has(trackIdx) || assigned[objIdx]) continue;
+      matchedTracks.add(trackIdx);
+      assigned[objIdx] = this.advance(this.tracks[trackIdx], objects[objIdx], frameWidth, timestamp);
+    }
+
+    const survivors = this.tracks
+      .filter((_, idx) => !matchedTracks.has(idx))
+      .map(track => ({ ...track, missed: track.missed + 1 }))
+      .filter(track => track.missed <= maxMissed);
+
+    const current = objects.map((obj, idx) => assigned[idx] ?? this.spawn(obj, timestamp));
+    this.tracks = [...current, ...survivors];
+    return current;
+  }
+
+  reset() {
+    this.tracks = [];
+    this.nextId = 1;
+  }
+
+  private spawn(object: DetectedObject, timestamp: number): Track {
+    return {
+      id: this.nextId++,
+      label: object.label,
+      object,
+      age: 1,
+      missed: 0,
+      lastSeen: timestamp,
+      velocityX: 0,
+      scaleGrowth: 0,
+      motion: 'new',
+    };
+  }
+
+  private advance(track: Track, object: DetectedObject, frameWidth: number, timestamp: number): Track {
+    const { smoothing } = this.options;
+    const dt = Math.max((timestamp - track.lastSeen) / 1000, 0.001);
+
+    const instantVelocity = (centerX(object.bounding_box) - centerX(track.object.bounding_box)) / frameWidth / dt;
+    const previousArea = area(track.object.bounding_box);
+    const currentArea = area(object.bounding_box);
+    const instantGrowth = previousArea > 0 && currentArea > 0 ? Math.log(currentArea / previousArea) / dt : 0;
+
+    const firstMeasurement = track.age === 1;
+    const velocityX = firstMeasurement ? instantVelocity : smoothing * instantVelocity + (1 - smoothing) * track.velocityX;
+    const scaleGrowth = firstMeasurement ? instantGrowth : smoothing * instantGrowth + (1 - smoothing) * track.scaleGrowth;
+
+    return {
+      ...track,
+      object,
+      age: track.age + 1,
+      missed: 0,
+      lastSeen: timestamp,
+      velocityX,
+      scaleGrowth,
+      motion: this.classify(velocityX, scaleGrowth),
+    };
+  }
+
+  private classify(velocityX: number, scaleGrowth: number): TrackMotion {
+    const { approachRate, crossingSpeed } = this.options;
+    if (scaleGrowth >= approachRate) return 'approaching';
+    if (Math.abs(velocityX) >= crossingSpeed) return 'crossing';
+    if (scaleGrowth <= -approachRate) return 'receding';
+    return 'stationary';
+  }
+}
@@ -0,0 +1,118 @@
+import type { DetectedObject } from '../types';
+
+/** Which way a zone lies relative to the walking direction. Drives the navigation decision. */
+export type ZoneSide = 'left' | 'front' | 'right';
+
+export type ZoneCount = 3 | 5 | 7;
+
+export interface ZoneDefinition {
+  id: string;
+  /** Spoken/displayed name, e.g. "far left". */
+  label: string;
+  icon: string;
+  color: string;
+  side: ZoneSide;
+}
+
+export interface ZoneLayout {
+  /** Zones ordered from the user's left to the user's right. */
+  zones: ZoneDefinition[];
+  /**
+   * Inner boundaries between consecutive zones, as ascending fractions of the
+   * user's field of view (0 = user's far left, 1 = far right).
+   */
+  boundaries: number[];
+  /**
+   * Whether the camera image is flipped relative to the user. When true the
+   * image's left edge is the user's right, as with a front-facing camera.
+   */
+  mirror: boolean;
+}
+
+const ZONE: Record<string, ZoneDefinition> = {
+  'far-left': { id: 'far-left', label: 'far left', icon: '⏪', color: '#E65100', side: 'left' },
+  left: { id: 'left', label: 'left', icon: '⬅️', color: '#FF9800', side: 'left' },
+  'slight-left': { id: 'slight-left', label: 'slight left', icon: '↖️', color: '#FFB74D', side: 'left' },
+  front: { id: 'front', label: 'front', icon: '⬆️', color: '#2196F3', side: 'front' },
+  'slight-right': { id: 'slight-right', label: 'slight right', icon: '↗️', color: '#81C784', side: 'right' },
+  right: { id: 'right', label: 'right', icon: '➡️', color: '#4CAF50', side: 'right' },
+  'far-right': { id: 'far-right', label: 'far right', icon: '⏩', color: '#1B5E20', side: 'right' },
+};
+
+const ZONE_IDS: Record<ZoneCount, string[]> = {
+  3: ['left', 'front', 'right'],
+  5: ['far-left', 'left', 'front', 'right', 'far-right'],
+  7: ['far-left', 'left', 'slight-left', 'front', 'slight-right', 'right', 'far-right'],
+};
+
+export const ZONE_COUNTS: ZoneCount[] = [3, 5, 7];
+
+const evenBoundaries = (count: number) =>
+  Array.from({ length: count - 1 }, (_, idx) => (idx + 1) / count);
+
+export const createZoneLayout = (count: ZoneCount, mirror: boolean, boundaries?: number[]): ZoneLayout => ({
+  zones: ZONE_IDS[count].map(id => ZONE[id]),
+  boundaries: boundaries && boundaries.length === count - 1 ? [...boundaries] : evenBoundaries(count),
+  mirror,
+});
+
+// Three equal thirds, mirrored: the layout the app has always used
+export const DEFAULT_ZONE_LAYOUT: ZoneLayout = createZoneLayout(3, true);
+
+/** Returns a copy with one boundary moved, kept at least `minWidth` away from its neighbours. */
+export const moveBoundary = (layout: ZoneLayout, index: number, value: number, minWidth = 0.05): ZoneLayout => {
+  const lower = (index === 0 ? 0 : layout.boundaries[index - 1]) + minWidth;
+  const upper = (index === layout.boundaries.length - 1 ? 1 : layout.boundaries[index + 1]) - minWidth;
+  const boundaries = [...layout.boundaries];
+  boundaries[index] = Math.min(upper, Math.max(lower, value));
+  return { ...layout, boundaries };
+};
+
+/** Zone at a horizontal image position given as a fraction of the frame width. */
+export const zoneAt = (layout: ZoneLayout, imageFraction: number): ZoneDefinition => {
+  const userFraction = layout.mirror ? 1 - imageFraction : imageFraction;
+  const idx = layout.boundaries.findIndex(boundary => userFraction < boundary);
+  return layout.zones[idx === -1 ? layout.zones.length - 1 : idx];
+};
+
+export const getZone = (obj: DetectedObject, frameWidth: number, layout: ZoneLayout = DEFAULT_ZONE_LAYOUT): ZoneDefinition => {
+  const [x1, , x2] = obj.bounding_box;
+  return zoneAt(layout, (x1 + x2) / 2 / frameWidth);
+};
+
+/** Horizontal extent of each zone in image coordinates, as fractions of the frame width. */
+export const zoneImageSpans = (layout: ZoneLayout): { zone: ZoneDefinition; start: number; end: number }[] =>
+  layout.zones.map((zone, idx) => {
+    const userStart = idx === 0 ? 0 : layout.boundaries[idx - 1];
+    const userEnd = idx === layout.zones.length - 1 ? 1 : layout.boundaries[idx];
+    return layout.mirror
+      ? { zone, start: 1 - userEnd, end: 1 - userStart }
+      : { zone, start: userStart, end: userEnd };
+  });
+
+export const groupByZone = (
+  objects: DetectedObject[],
+  frameWidth: number,
+  layout: ZoneLayout = DEFAULT_ZONE_LAYOUT
+): Record<string, DetectedObject[]> => {
+  const groups: Record<string, DetectedObject[]> = Object.fromEntries(layout.zones.map(zone => [zone.id, []]));
+  objects.forEach(obj => groups[getZone(obj, frameWidth, layout).id].push(obj));
+  return groups;
+};
+
+/**
+ * Resolves a zone name as the backend words it ("left", "far right") to a
+ * zone in this layout, falling back to the zone on the same side.
+ */
+export const findZoneByName = (layout: ZoneLayout, name: string): ZoneDefinition | null => {
+  const normalized = name.trim().toLowerCase().replace(/\s+/g, ' ');
+  const exact = layout.zones.find(zone => zone.label === normalized || zone.id === normalized.replace(/ /g, '-'));
+  if (exact) return exact;
+
+  const side: ZoneSide | null = normalized.includes('left')
+    ? 'left'
+    : normalized.includes('right')
+      ? 'right'
+      : normalized.includes('front') || normalized.includes('ahead') ? 'front' : null;
+  return side ? layout.zones.find(zone => zone.id === side) ?? null : null;
+};
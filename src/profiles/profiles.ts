@@ -0,0 +1,469 @@
+import { isRecord } from '../api/validation';
+import { DEFAULT_SONIFICATION_SETTINGS } from '../audio/sonifier';
+import type { SonificationSettings } from '../audio/sonifier';
+import type { CameraSource } from '../camera/browserCamera';
+import type { FrameTransportPreference } from '../camera/frameTransport';
+import { DEFAULT_HAPTIC_SETTINGS, isValidPattern } from '../haptics/haptics';
+import type { HapticDirection, HapticSettings } from '../haptics/haptics';
+import { getTranslator, isLocale, loadLocale } from '../i18n/i18n';
+import type { Locale } from '../i18n/i18n';
+import { DEFAULT_PROXIMITY_SETTINGS } from '../navigation/proximity';
+import type { ProximitySettings } from '../navigation/proximity';
+import { DEFAULT_NAVIGATION_RULES } from '../navigation/rules';
+import type { HazardSeverity, NavigationRules } from '../navigation/rules';
+import { DEFAULT_SEEK_SETTINGS } from '../navigation/seek';
+import type { SeekSettings } from '../navigation/seek';
+import { DEFAULT_STABILIZER_SETTINGS } from '../navigation/stabilizer';
+import type { StabilizerSettings } from '../navigation/stabilizer';
+import { createZoneLayout, DEFAULT_ZONE_LAYOUT, ZONE_COUNTS } from '../navigation/zones';
+import type { ZoneCount, ZoneLayout } from '../navigation/zones';
+import { DEFAULT_AUTO_PROCESS_SETTINGS } from '../scheduler/autoProcess';
+import type { AutoProcessSettings } from '../scheduler/autoProcess';
+import { DEFAULT_SPEECH_SETTINGS } from '../speech/speechQueue';
+import type { SpeechSettings } from '../speech/speechQueue';
+import type { ProcessingMode } from '../types';
+
+/** The zone layout as stored: the zones themselves follow from the count. */
+export interface ZoneSettings {
+  count: ZoneCount;
+  mirror: boolean;
+  boundaries: number[];
+}
+
+/** Everything a user can set, as kept in a profile. */
+export interface ProfileSettings {
+  locale: Locale;
+  mode: ProcessingMode;
+  camera: {
+    source: CameraSource;
+    /** Server camera index. */
+    index: number;
+    /** Browser camera `deviceId`; empty for the default camera. */
+    deviceId: string;
+    transport: FrameTransportPreference;
+  };
+  showDirections: boolean;
+  showBoundingBoxes: boolean;
+  voiceEnabled: boolean;
+  /** Speak what appeared, disappeared or moved between frames. */
+  narrateChanges: boolean;
+  /** Auto-process whenever the camera is running. */
+  autoProcess: boolean;
+  autoProcessSettings: AutoProcessSettings;
+  speech: SpeechSettings;
+  sonification: SonificationSettings;
+  haptics: HapticSettings;
+  stabilizer: StabilizerSettings;
+  proximity: ProximitySettings;
+  zones: ZoneSettings;
+  /** Hazard list and scoring; only editable through an exported profile for now. */
+  rules: NavigationRules;
+  /** How close counts as arrival; the target itself is chosen per session. */
+  seek: SeekSettings;
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  settings: ProfileSettings;
+}
+
+export type ProfileSummary = Pick<Profile, 'id' | 'name'>;
+
+export interface ImportedProfile {
+  profile: Profile;
+  /** Dotted paths of settings that were invalid and reset to their defaults. */
+  invalid: string[];
+}
+
+export type ProfileImportFailure = 'json' | 'format' | 'version';
+
+export class ProfileImportError extends Error {
+  readonly reason: ProfileImportFailure;
+
+  constructor(reason: ProfileImportFailure, message: string) {
+    super(message);
+    this.name = 'ProfileImportError';
+    this.reason = reason;
+  }
+}
+
+type Migration = (settings: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] turns version n + 1 settings into version n + 2. One is needed
+// when a field is renamed or changes meaning; added fields take their defaults.
+const MIGRATIONS: Migration[] = [];
+
+export const SETTINGS_VERSION = MIGRATIONS.length + 1;
+
+const STORAGE_KEY = 'vision-nav-profiles';
+const FILE_FORMAT = 'vision-nav-profile';
+
+export const toZoneSettings = (layout: ZoneLayout): ZoneSettings => ({
+  count: layout.zones.length as ZoneCount,
+  mirror: layout.mirror,
+  boundaries: [...layout.boundaries],
+});
+
+export const toZoneLayout = ({ count, mirror, boundaries }: ZoneSettings): ZoneLayout =>
+  createZoneLayout(count, mirror, boundaries);
+
+export const defaultProfileSettings = (locale: Locale = loadLocale()): ProfileSettings => ({
+  locale,
+  mode: 'gpt2-mini-fusion',
+  camera: { source: 'server', index: 1, deviceId: '', transport: 'auto' },
+  showDirections: true,
+  showBoundingBoxes: true,
+  voiceEnabled: false,
+  narrateChanges: true,
+  autoProcess: false,
+  autoProcessSettings: DEFAULT_AUTO_PROCESS_SETTINGS,
+  speech: DEFAULT_SPEECH_SETTINGS,
+  sonification: DEFAULT_SONIFICATION_SETTINGS,
+  haptics: DEFAULT_HAPTIC_SETTINGS,
+  stabilizer: DEFAULT_STABILIZER_SETTINGS,
+  proximity: DEFAULT_PROXIMITY_SETTINGS,
+  zones: toZoneSettings(DEFAULT_ZONE_LAYOUT),
+  rules: DEFAULT_NAVIGATION_RULES,
+  seek: DEFAULT_SEEK_SETTINGS,
+});
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isBoolean: Guard<boolean> = (value): value is boolean => typeof value === 'boolean';
+
+const isName: Guard<string> = (value): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isNumberIn = (min: number, max: number): Guard<number> => (value): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isIntegerIn = (min: number, max: number): Guard<number> => (value): value is number =>
+  Number.isInteger(value) && isNumberIn(min, max)(value);
+
+const isOneOf = <T extends string | number>(values: readonly T[]): Guard<T> => (value): value is T =>
+  (values as readonly unknown[]).includes(value);
+
+const orNull = <T>(guard: Guard<T>): Guard<T | null> => (value): value is T | null =>
+  value === null || guard(value);
+
+const SEVERITIES: HazardSeverity[] = ['low', 'medium', 'high'];
+const HAPTIC_DIRECTIONS: HapticDirection[] = ['left', 'right', 'forward', 'stop'];
+
+const isAscendingFractions = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.every((boundary, idx) =>
+    typeof boundary === 'number' && boundary > 0 && boundary < 1 && (idx === 0 || boundary > value[idx - 1]));
+
+/**
+ * Brings stored or imported settings up to the current version and fills
+ * them in field by field. Missing fields take their defaults, so older
+ * profiles pick up new settings; fields that are present but invalid take
+ * their defaults too and are listed in `invalid`.
+ */
+export const sanitizeSettings = (
+  raw: unknown,
+  version: number = SETTINGS_VERSION
+): { settings: ProfileSettings; invalid: string[] } => {
+  const source = MIGRATIONS.slice(Math.max(0, version - 1)).reduce<Record<string, unknown>>(
+    (settings, migrate) => migrate(settings),
+    isRecord(raw) ? raw : {}
+  );
+  const defaults = defaultProfileSettings();
+  const invalid: string[] = [];
+
+  const at = (path: string): unknown =>
+    path.split('.').reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), source);
+
+  const read = <T>(path: string, fallback: T, valid: Guard<T>): T => {
+    const value = at(path);
+    if (value === undefined) return fallback;
+    if (valid(value)) return value;
+    invalid.push(path);
+    return fallback;
+  };
+
+  // A group that isn't an object reads as missing fields below; report it once here
+  (Object.keys(defaults) as (keyof ProfileSettings)[])
+    .filter(key => isRecord(defaults[key]) && source[key] !== undefined && !isRecord(source[key]))
+    .forEach(key => invalid.push(key));
+
+  const { autoProcessSettings: auto, speech, sonification, stabilizer, proximity, zones, rules, seek } = defaults;
+
+  const autoProcessSettings: AutoProcessSettings = {
+    policy: read('autoProcessSettings.policy', auto.policy, isOneOf(['fixed', 'adaptive'] as const)),
+    intervalMs: read('autoProcessSettings.intervalMs', auto.intervalMs, isNumberIn(250, 60000)),
+    minIntervalMs: read('autoProcessSettings.minIntervalMs', auto.minIntervalMs, isNumberIn(250, 60000)),
+    maxIntervalMs: read('autoProcessSettings.maxIntervalMs', auto.maxIntervalMs, isNumberIn(250, 60000)),
+    latencyBudgetMs: read('autoProcessSettings.latencyBudgetMs', auto.latencyBudgetMs, isNumberIn(0, 60000)),
+    fallbackMode: read('autoProcessSettings.fallbackMode', auto.fallbackMode, isName),
+    staleAfterMs: read('autoProcessSettings.staleAfterMs', auto.staleAfterMs, isNumberIn(1000, 300000)),
+  };
+  if (autoProcessSettings.minIntervalMs > autoProcessSettings.maxIntervalMs) {
+    invalid.push('autoProcessSettings.maxIntervalMs');
+    autoProcessSettings.minIntervalMs = auto.minIntervalMs;
+    autoProcessSettings.maxIntervalMs = auto.maxIntervalMs;
+  }
+
+  const proximitySettings: ProximitySettings = {
+    verticalFovDeg: read('proximity.verticalFovDeg', proximity.verticalFovDeg, isNumberIn(10, 170)),
+    cameraHeightM: read('proximity.cameraHeightM', proximity.cameraHeightM, orNull(isNumberIn(0, 10))),
+    nearMaxM: read('proximity.nearMaxM', proximity.nearMaxM, isNumberIn(0.1, 50)),
+    midMaxM: read('proximity.midMaxM', proximity.midMaxM, isNumberIn(0.1, 100)),
+  };
+  if (proximitySettings.midMaxM <= proximitySettings.nearMaxM) {
+    invalid.push('proximity.midMaxM');
+    proximitySettings.nearMaxM = proximity.nearMaxM;
+    proximitySettings.midMaxM = proximity.midMaxM;
+  }
+
+  const zoneCount = read('zones.count', zones.count, isOneOf(ZONE_COUNTS));
+  let boundaries = read('zones.boundaries', zones.boundaries, isAscendingFractions);
+  if (boundaries.length !== zoneCount - 1) {
+    // createZoneLayout spreads the zones evenly instead
+    if (at('zones.boundaries') !== undefined) invalid.push('zones.boundaries');
+    boundaries = [];
+  }
+
+  // Entries are checked one by one so one bad severity doesn't drop the whole list
+  const rawHazards = at('rules.hazards');
+  let hazards = rules.hazards;
+  if (isRecord(rawHazards)) {
+    hazards = {};
+    Object.entries(rawHazards).forEach(([label, severity]) => {
+      if (isOneOf(SEVERITIES)(severity) && label.trim()) {
+        hazards[label.trim().toLowerCase()] = severity;
+      } else {
+        invalid.push(`rules.hazards.${label}`);
+      }
+    });
+  } else if (rawHazards !== undefined) {
+    invalid.push('rules.hazards');
+  }
+
+  const weight = isNumberIn(0, 100);
+
+  return {
+    settings: {
+      locale: read('locale', defaults.locale, isLocale),
+      mode: read('mode', defaults.mode, isName),
+      camera: {
+        source: read('camera.source', defaults.camera.source, isOneOf(['server', 'browser'] as const)),
+        index: read('camera.index', defaults.camera.index, isIntegerIn(0, 99)),
+        deviceId: read('camera.deviceId', defaults.camera.deviceId, (value): value is string => typeof value === 'string'),
+        transport: read('camera.transport', defaults.camera.transport, isOneOf(['auto', 'mjpeg', 'websocket', 'polling'] as const)),
+      },
+      showDirections: read('showDirections', defaults.showDirections, isBoolean),
+      showBoundingBoxes: read('showBoundingBoxes', defaults.showBoundingBoxes, isBoolean),
+      voiceEnabled: read('voiceEnabled', defaults.voiceEnabled, isBoolean),
+      narrateChanges: read('narrateChanges', defaults.narrateChanges, isBoolean),
+      autoProcess: read('autoProcess', defaults.autoProcess, isBoolean),
+      autoProcessSettings,
+      speech: {
+        voiceURI: read('speech.voiceURI', speech.voiceURI, orNull(isName)),
+        rate: read('speech.rate', speech.rate, isNumberIn(0.1, 10)),
+        pitch: read('speech.pitch', speech.pitch, isNumberIn(0, 2)),
+        volume: read('speech.volume', speech.volume, isNumberIn(0, 1)),
+      },
+      sonification: {
+        enabled: read('sonification.enabled', sonification.enabled, isBoolean),
+        replaceSpeech: read('sonification.replaceSpeech', sonification.replaceSpeech, isBoolean),
+        volume: read('sonification.volume', sonification.volume, isNumberIn(0, 1)),
+      },
+      haptics: {
+        enabled: read('haptics.enabled', defaults.haptics.enabled, isBoolean),
+        patterns: Object.fromEntries(HAPTIC_DIRECTIONS.map(direction => [
+          direction,
+          read(`haptics.patterns.${direction}`, defaults.haptics.patterns[direction], isValidPattern),
+        ])) as HapticSettings['patterns'],
+      },
+      stabilizer: {
+        persistFrames: read('stabilizer.persistFrames', stabilizer.persistFrames, isIntegerIn(1, 10)),
+        reassuranceIntervalMs: read('stabilizer.reassuranceIntervalMs', stabilizer.reassuranceIntervalMs, isNumberIn(0, 600000)),
+      },
+      proximity: proximitySettings,
+      zones: {
+        count: zoneCount,
+        mirror: read('zones.mirror', zones.mirror, isBoolean),
+        boundaries,
+      },
+      rules: {
+        hazards,
+        severityWeights: {
+          low: read('rules.severityWeights.low', rules.severityWeights.low, weight),
+          medium: read('rules.severityWeights.medium', rules.severityWeights.medium, weight),
+          high: read('rules.severityWeights.high', rules.severityWeights.high, weight),
+        },
+        proximityWeights: {
+          near: read('rules.proximityWeights.near', rules.proximityWeights.near, weight),
+          mid: read('rules.proximityWeights.mid', rules.proximityWeights.mid, weight),
+          far: read('rules.proximityWeights.far', rules.proximityWeights.far, weight),
+        },
+        thresholds: {
+          caution: read('rules.thresholds.caution', rules.thresholds.caution, weight),
+          danger: read('rules.thresholds.danger', rules.thresholds.danger, weight),
+        },
+        minConfidence: read('rules.minConfidence', rules.minConfidence, isNumberIn(0, 1)),
+      },
+      seek: {
+        arrivalCoverage: read('seek.arrivalCoverage', seek.arrivalCoverage, isNumberIn(0.05, 1)),
+      },
+    },
+    invalid,
+  };
+};
+
+const isVersion = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 1;
+
+const newProfileId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Named settings profiles in localStorage. One profile is active at a time;
+ * there is always at least one. The first load creates it, keeping the
+ * language chosen before profiles existed.
+ */
+export class ProfileStore {
+  private profiles: Profile[] = [];
+  private activeId = '';
+  private loaded = false;
+
+  private load() {
+    if (this.loaded) return;
+    this.loaded = true;
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+      if (isRecord(stored) && Array.isArray(stored.profiles)) {
+        // Newer than this build: keep what we understand rather than lose the profiles
+        const version = isVersion(stored.version) ? Math.min(stored.version, SETTINGS_VERSION) : SETTINGS_VERSION;
+        this.profiles = stored.profiles.filter(isRecord).map(profile => ({
+          id: typeof profile.id === 'string' ? profile.id : newProfileId(),
+          name: isName(profile.name) ? profile.name : this.defaultName(),
+          settings: sanitizeSettings(profile.settings, version).settings,
+        }));
+        if (typeof stored.activeId === 'string') this.activeId = stored.activeId;
+      }
+    } catch (err) {
+      console.error('Stored profiles are unreadable, starting over:', err);
+    }
+    if (this.profiles.length === 0) {
+      this.profiles = [{ id: newProfileId(), name: this.defaultName(), settings: defaultProfileSettings() }];
+    }
+    if (!this.profiles.some(profile => profile.id === this.activeId)) {
+      this.activeId = this.profiles[0].id;
+    }
+  }
+
+  private defaultName() {
+    return getTranslator(loadLocale()).t('profiles.defaultName');
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        version: SETTINGS_VERSION,
+        activeId: this.activeId,
+        profiles: this.profiles,
+      }));
+    } catch (err) {
+      console.error('Could not save profiles:', err);
+    }
+  }
+
+  /** A name not yet taken, e.g. "Outdoor (2)". */
+  private uniqueName(name: string) {
+    const base = name.trim();
+    const taken = new Set(this.profiles.map(profile => profile.name));
+    let candidate = base;
+    for (let n = 2; taken.has(candidate); n++) candidate = `${base} (${n})`;
+    return candidate;
+  }
+
+  list(): ProfileSummary[] {
+    this.load();
+    return this.profiles.map(({ id, name }) => ({ id, name }));
+  }
+
+  get(id: string): Profile | undefined {
+    this.load();
+    return this.profiles.find(profile => profile.id === id);
+  }
+
+  active(): Profile {
+    this.load();
+    return this.get(this.activeId) ?? this.profiles[0];
+  }
+
+  /** Makes `id` the active profile and returns it. */
+  select(id: string): Profile {
+    this.load();
+    if (this.profiles.some(profile => profile.id === id)) {
+      this.activeId = id;
+      this.persist();
+    }
+    return this.active();
+  }
+
+  /** Replaces the active profile's settings. */
+  save(settings: ProfileSettings) {
+    this.load();
+    this.profiles = this.profiles.map(profile => (profile.id === this.activeId ? { ...profile, settings } : profile));
+    this.persist();
+  }
+
+  /** Adds a profile under a name not yet taken. It stays inactive until selected. */
+  create(name: string, settings: ProfileSettings): Profile {
+    this.load();
+    const profile: Profile = { id: newProfileId(), name: this.uniqueName(name), settings };
+    this.profiles = [...this.profiles, profile];
+    this.persist();
+    return profile;
+  }
+
+  rename(id: string, name: string) {
+    this.load();
+    if (!isName(name)) return;
+    const others = this.profiles.filter(profile => profile.id !== id);
+    const unique = others.some(profile => profile.name === name.trim()) ? this.uniqueName(name) : name.trim();
+    this.profiles = this.profiles.map(profile => (profile.id === id ? { ...profile, name: unique } : profile));
+    this.persist();
+  }
+
+  /** Deletes a profile unless it is the last one. Select another before deleting the active one. */
+  remove(id: string) {
+    this.load();
+    if (this.profiles.length > 1) {
+      this.profiles = this.profiles.filter(profile => profile.id !== id);
+      if (this.activeId === id) this.activeId = this.profiles[0].id;
+      this.persist();
+    }
+  }
+
+  /** One profile as a JSON file, for another device or another user. */
+  exportProfile(id: string): Blob {
+    this.load();
+    const profile = this.profiles.find(candidate => candidate.id === id) ?? this.active();
+    const file = { format: FILE_FORMAT, version: SETTINGS_VERSION, name: profile.name, settings: profile.settings };
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  }
+
+  /** Adds an exported profile, like `create`. */
+  async importProfile(file: Blob): Promise<ImportedProfile> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new ProfileImportError('json', 'Not a profile: the file is not valid JSON');
+    }
+    if (!isRecord(parsed) || parsed.format !== FILE_FORMAT || !isVersion(parsed.version)) {
+      throw new ProfileImportError('format', 'Not a profile');
+    }
+    if (parsed.version > SETTINGS_VERSION) {
+      throw new ProfileImportError('version', `Profile version ${parsed.version} is newer than this app supports`);
+    }
+
+    const { settings, invalid } = sanitizeSettings(parsed.settings, parsed.version);
+    const profile = this.create(isName(parsed.name) ? parsed.name : this.defaultName(), settings);
+    return { profile, invalid };
+  }
+}
+
+export const profileStore = new ProfileStore();
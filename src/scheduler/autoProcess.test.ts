@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AutoProcessScheduler, DEFAULT_AUTO_PROCESS_SETTINGS } from './autoProcess';
+import type { AutoProcessStatus, FrameOutcome, FrameRunResult } from './autoProcess';
+
+const outcome: FrameOutcome = { mode: 'basic', latencyMs: 200, priority: 'safe', tracks: [] };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('AutoProcessScheduler', () => {
+  it('backs off after a failed run', async () => {
+    const scheduler = new AutoProcessScheduler();
+    const statuses: AutoProcessStatus[] = [];
+    scheduler.start(async () => null, status => statuses.push(status));
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.stop();
+    expect(statuses[0].reason).toBe('error');
+  });
+
+  it('retries a skipped run shortly without counting it as a failure', async () => {
+    const scheduler = new AutoProcessScheduler();
+    const results: FrameRunResult[] = ['skipped', 'skipped', outcome];
+    const run = vi.fn(async () => results.shift() ?? outcome);
+    const statuses: AutoProcessStatus[] = [];
+    scheduler.start(run, status => statuses.push(status));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(statuses).toEqual([]);
+    await vi.advanceTimersByTimeAsync(250);
+    scheduler.stop();
+
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(statuses).toHaveLength(1);
+    expect(statuses[0].reason).toBe('static');
+    expect(statuses[0].delayMs).toBe(DEFAULT_AUTO_PROCESS_SETTINGS.intervalMs);
+  });
+});
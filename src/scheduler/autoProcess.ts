@@ -0,0 +1,267 @@
+import type { Track } from '../navigation/tracker';
+import type { NavigationInstruction, ProcessingMode } from '../types';
+
+export type AutoProcessPolicy = 'fixed' | 'adaptive';
+
+export interface AutoProcessSettings {
+  policy: AutoProcessPolicy;
+  /** Time from one request's start to the next: always for `fixed`, for a steady scene when `adaptive`. */
+  intervalMs: number;
+  /** Adaptive only: the interval used while the scene changes or after a DANGER instruction. */
+  minIntervalMs: number;
+  /** Adaptive only: the longest interval a static scene stretches to. */
+  maxIntervalMs: number;
+  /** Switch to `fallbackMode` when the median latency exceeds this; 0 disables. */
+  latencyBudgetMs: number;
+  fallbackMode: ProcessingMode;
+  /** Warn that guidance is unavailable when the last result is older than this. */
+  staleAfterMs: number;
+}
+
+export const DEFAULT_AUTO_PROCESS_SETTINGS: AutoProcessSettings = {
+  policy: 'adaptive',
+  intervalMs: 3000,
+  minIntervalMs: 1000,
+  maxIntervalMs: 8000,
+  latencyBudgetMs: 0,
+  fallbackMode: 'basic',
+  staleAfterMs: 15000,
+};
+
+/** What a processed frame tells the scheduler. */
+export interface FrameOutcome {
+  mode: ProcessingMode;
+  latencyMs: number;
+  priority: NavigationInstruction['priority'];
+  tracks: Track[];
+}
+
+/**
+ * What one run resolves with: null when the request failed, `skipped` when
+ * none was sent because another one (e.g. a manual frame) was still in flight.
+ */
+export type FrameRunResult = FrameOutcome | 'skipped' | null;
+
+/** Why the scheduler picked its interval; worded by the UI. */
+export type CadenceReason = 'fixed' | 'error' | 'danger' | 'changing' | 'shifting' | 'static';
+
+export interface AutoProcessStatus {
+  /** Pause before the next request starts, in milliseconds. */
+  delayMs: number;
+  /** Why this cadence was chosen, e.g. `changing` for a changing scene. */
+  reason: CadenceReason;
+  latencyMs: number | null;
+  /** Mode used in place of the selected one since the latency budget was exceeded. */
+  fallbackMode: ProcessingMode | null;
+}
+
+// Share of tracks that appeared, vanished or moved
+const SCENE_CHANGING = 0.5;
+const SCENE_SHIFTING = 0.2;
+// Each further static frame stretches the interval by this factor
+const STATIC_GROWTH = 1.5;
+// Consecutive failures double the interval up to this many times
+const MAX_ERROR_BACKOFF = 4;
+// A pause between back-to-back requests, even when a request overran its interval
+const MIN_PAUSE_MS = 100;
+// Latencies of the current mode that are compared against the budget
+const LATENCY_WINDOW = 3;
+// The stale-guidance warning repeats this often until results are back
+const STALE_REPEAT_MS = 30000;
+
+/**
+ * How much the scene changed between two frames' tracks, from 0 (the same
+ * objects, all stationary) to 1 (nothing in common).
+ */
+export const measureSceneChange = (previous: Track[], current: Track[]): number => {
+  const previousIds = new Set(previous.map(track => track.id));
+  const currentIds = new Set(current.map(track => track.id));
+  const appeared = current.filter(track => !previousIds.has(track.id)).length;
+  const vanished = previous.filter(track => !currentIds.has(track.id)).length;
+  const moving = current.filter(track =>
+    previousIds.has(track.id) && track.motion !== 'stationary' && track.motion !== 'new'
+  ).length;
+  const total = current.length + vanished;
+  return total === 0 ? 0 : (appeared + vanished + moving) / total;
+};
+
+/**
+ * Start-to-start interval for the next request. `staticFrames` counts the
+ * static frames in a row before this one, `errors` the failed requests in a
+ * row including this one.
+ */
+export const planInterval = (
+  outcome: FrameOutcome | null,
+  { sceneChange, staticFrames, errors }: { sceneChange: number; staticFrames: number; errors: number },
+  settings: AutoProcessSettings
+): { intervalMs: number; reason: CadenceReason } => {
+  const { policy, intervalMs, minIntervalMs, maxIntervalMs } = settings;
+  if (policy === 'fixed') return { intervalMs, reason: 'fixed' };
+
+  if (!outcome) {
+    return {
+      intervalMs: Math.min(maxIntervalMs, intervalMs * 2 ** Math.min(errors, MAX_ERROR_BACKOFF)),
+      reason: 'error',
+    };
+  }
+  if (outcome.priority === 'danger') return { intervalMs: minIntervalMs, reason: 'danger' };
+  if (sceneChange >= SCENE_CHANGING) return { intervalMs: minIntervalMs, reason: 'changing' };
+  if (sceneChange >= SCENE_SHIFTING) {
+    return { intervalMs: (minIntervalMs + intervalMs) / 2, reason: 'shifting' };
+  }
+  return {
+    intervalMs: Math.min(maxIntervalMs, intervalMs * STATIC_GROWTH ** staticFrames),
+    reason: 'static',
+  };
+};
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+/**
+ * Runs auto-processing one request at a time: the next request is only
+ * scheduled once the previous one has settled, `planInterval` after it
+ * started. When the median latency of the last few frames exceeds the
+ * budget, later frames use the fallback mode until `resetFallback`.
+ */
+export class AutoProcessScheduler {
+  private settings: AutoProcessSettings;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on every start/stop so a request settling late can't reschedule
+  private session = 0;
+  private previousTracks: Track[] = [];
+  private staticFrames = 0;
+  private errors = 0;
+  private latencies: number[] = [];
+  private fallbackMode: ProcessingMode | null = null;
+
+  constructor(settings: AutoProcessSettings = DEFAULT_AUTO_PROCESS_SETTINGS) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: AutoProcessSettings) {
+    const budgetChanged = settings.latencyBudgetMs !== this.settings.latencyBudgetMs ||
+      settings.fallbackMode !== this.settings.fallbackMode;
+    this.settings = settings;
+    if (budgetChanged) this.resetFallback();
+  }
+
+  /** Returns to the selected mode, e.g. after the user picked another one. */
+  resetFallback() {
+    this.fallbackMode = null;
+    this.latencies = [];
+  }
+
+  /**
+   * Starts processing right away. `run` processes one frame, in `mode` when
+   * given or the selected mode otherwise. A skipped run is retried shortly
+   * and counts neither as a result nor as a failure.
+   */
+  start(
+    run: (mode: ProcessingMode | null) => Promise<FrameRunResult>,
+    onStatus?: (status: AutoProcessStatus) => void
+  ) {
+    this.stop();
+    const session = this.session;
+    this.previousTracks = [];
+    this.staticFrames = 0;
+    this.errors = 0;
+    this.resetFallback();
+
+    const tick = async () => {
+      this.timer = null;
+      const startedAt = performance.now();
+      const outcome = await run(this.fallbackMode).catch(() => null);
+      if (session !== this.session) return;
+      if (outcome === 'skipped') {
+        this.timer = setTimeout(tick, MIN_PAUSE_MS);
+        return;
+      }
+
+      const status = this.settle(outcome);
+      const elapsed = performance.now() - startedAt;
+      const delayMs = Math.max(MIN_PAUSE_MS, status.delayMs - elapsed);
+      onStatus?.({ ...status, delayMs });
+      this.timer = setTimeout(tick, delayMs);
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop() {
+    this.session++;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Updates the streaks and fallback from a finished frame; `delayMs` is the full interval
+  private settle(outcome: FrameOutcome | null): AutoProcessStatus {
+    this.errors = outcome ? 0 : this.errors + 1;
+    const sceneChange = outcome ? measureSceneChange(this.previousTracks, outcome.tracks) : 0;
+    const { intervalMs, reason } = planInterval(
+      outcome,
+      { sceneChange, staticFrames: this.staticFrames, errors: this.errors },
+      this.settings
+    );
+    if (outcome) {
+      this.previousTracks = outcome.tracks;
+      this.staticFrames = reason === 'static' ? this.staticFrames + 1 : 0;
+      this.checkLatencyBudget(outcome);
+    }
+
+    return {
+      delayMs: intervalMs,
+      reason,
+      latencyMs: outcome?.latencyMs ?? null,
+      fallbackMode: this.fallbackMode,
+    };
+  }
+
+  private checkLatencyBudget({ mode, latencyMs }: FrameOutcome) {
+    const { latencyBudgetMs, fallbackMode } = this.settings;
+    if (latencyBudgetMs <= 0 || this.fallbackMode || mode === fallbackMode) return;
+
+    this.latencies = [...this.latencies, latencyMs].slice(-LATENCY_WINDOW);
+    if (this.latencies.length === LATENCY_WINDOW && median(this.latencies) > latencyBudgetMs) {
+      this.fallbackMode = fallbackMode;
+    }
+  }
+}
+
+/**
+ * Notices when auto-processing has stopped producing results, whatever the
+ * cause (server down, camera stalled, requests failing), so the user is
+ * never left trusting old guidance.
+ */
+export class GuidanceWatchdog {
+  private lastFreshAt = 0;
+  private warnedAt: number | null = null;
+
+  /** Starts counting from now, e.g. when auto-processing starts. */
+  reset(now = Date.now()) {
+    this.lastFreshAt = now;
+    this.warnedAt = null;
+  }
+
+  /** Records a fresh result; true when guidance had been reported stale. */
+  markFresh(now = Date.now()): boolean {
+    const wasStale = this.stale;
+    this.reset(now);
+    return wasStale;
+  }
+
+  /** True when a warning is due: guidance is older than `staleAfterMs` and the last warning has aged. */
+  check(staleAfterMs: number, now = Date.now()): boolean {
+    if (now - this.lastFreshAt < staleAfterMs) return false;
+    if (this.warnedAt !== null && now - this.warnedAt < STALE_REPEAT_MS) return false;
+    this.warnedAt = now;
+    return true;
+  }
+
+  get stale() {
+    return this.warnedAt !== null;
+  }
+
+  /** Age of the newest result, in ms. */
+  age(now = Date.now()) {
+    return now - this.lastFreshAt;
+  }
+}
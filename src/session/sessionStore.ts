@@ -0,0 +1,344 @@
+import {
+  expectBoolean,
+  expectNumber,
+  expectRecord,
+  expectString,
+  isRecord,
+  optional,
+  parseDetectedObject,
+  parseProcessingResult,
+  ResponseValidationError,
+} from '../api/validation';
+import type { FrameSize } from '../navigation/engine';
+import type { ProximityBand, ProximitySettings } from '../navigation/proximity';
+import type { HazardSeverity, NavigationRules } from '../navigation/rules';
+import type { Track, TrackMotion } from '../navigation/tracker';
+import type { ZoneDefinition, ZoneLayout, ZoneSide } from '../navigation/zones';
+import { completion, isIndexedDbSupported, LazyDatabase, request } from '../storage/indexedDb';
+import type { NavigationInstruction, ProcessingMode, ProcessingResult } from '../types';
+
+export interface SessionInfo {
+  id: string;
+  startedAt: number;
+  /** Timestamp of the latest frame, or of the start while still empty. */
+  endedAt: number;
+  frameCount: number;
+}
+
+/** One processed frame, with everything needed to redraw it as it was shown. */
+export interface RecordedFrame {
+  sessionId: string;
+  /** Position within the session, from 0. */
+  seq: number;
+  timestamp: number;
+  /** Request round trip, in ms. */
+  latencyMs: number;
+  mode: ProcessingMode;
+  result: ProcessingResult;
+  annotatedImage: string | null;
+  /** JPEG data URL of the camera frame that was processed, when it could be captured. */
+  snapshot: string | null;
+  /** Resolution the detections are expressed in. */
+  frame: FrameSize;
+  instruction: NavigationInstruction | null;
+  tracks: Track[];
+  layout: ZoneLayout;
+  proximity: ProximitySettings;
+  /** Rules the instruction was made with; missing from recordings made before profiles. */
+  rules?: NavigationRules;
+}
+
+export class SessionArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionArchiveError';
+  }
+}
+
+const DB_NAME = 'vision-nav-sessions';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+// Keyed by [sessionId, seq], so a key range over one session returns its frames in order
+const FRAMES = 'frames';
+
+const ARCHIVE_FORMAT = 'vision-nav-session';
+const ARCHIVE_VERSION = 1;
+
+const expectOneOf = <T extends string>(options: readonly T[]) => (value: unknown, path: string): T => {
+  if (!options.includes(value as T)) throw new ResponseValidationError(path, options.join(' | '), value);
+  return value as T;
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) throw new ResponseValidationError(path, 'array', value);
+  return value;
+};
+
+const orNull = <T>(parse: (value: unknown, path: string) => T) => (value: unknown, path: string): T | null =>
+  value === null ? null : parse(value, path);
+
+const parseFrameSize = (value: unknown, path: string): FrameSize => {
+  const frame = expectRecord(value, path);
+  const width = expectNumber(frame.width, `${path}.width`);
+  const height = expectNumber(frame.height, `${path}.height`);
+  if (width <= 0) throw new ResponseValidationError(`${path}.width`, 'positive number', width);
+  if (height <= 0) throw new ResponseValidationError(`${path}.height`, 'positive number', height);
+  return { width, height };
+};
+
+const parseZone = (value: unknown, path: string): ZoneDefinition => {
+  const zone = expectRecord(value, path);
+  return {
+    id: expectString(zone.id, `${path}.id`),
+    label: expectString(zone.label, `${path}.label`),
+    icon: expectString(zone.icon, `${path}.icon`),
+    color: expectString(zone.color, `${path}.color`),
+    side: expectOneOf<ZoneSide>(['left', 'front', 'right'])(zone.side, `${path}.side`),
+  };
+};
+
+const parseLayout = (value: unknown, path: string): ZoneLayout => {
+  const layout = expectRecord(value, path);
+  const zones = expectArray(layout.zones, `${path}.zones`).map((zone, idx) => parseZone(zone, `${path}.zones[${idx}]`));
+  if (zones.length === 0) throw new ResponseValidationError(`${path}.zones`, 'at least one zone', layout.zones);
+  const boundaries = expectArray(layout.boundaries, `${path}.boundaries`)
+    .map((boundary, idx) => expectNumber(boundary, `${path}.boundaries[${idx}]`));
+  if (boundaries.length !== zones.length - 1 || boundaries.some((b, idx) => b <= 0 || b >= 1 || b <= (boundaries[idx - 1] ?? 0))) {
+    throw new ResponseValidationError(`${path}.boundaries`, `${zones.length - 1} ascending fractions`, layout.boundaries);
+  }
+  return { zones, boundaries, mirror: expectBoolean(layout.mirror, `${path}.mirror`) };
+};
+
+const parseProximity = (value: unknown, path: string): ProximitySettings => {
+  const proximity = expectRecord(value, path);
+  return {
+    verticalFovDeg: expectNumber(proximity.verticalFovDeg, `${path}.verticalFovDeg`),
+    cameraHeightM: orNull(expectNumber)(proximity.cameraHeightM ?? null, `${path}.cameraHeightM`),
+    nearMaxM: expectNumber(proximity.nearMaxM, `${path}.nearMaxM`),
+    midMaxM: expectNumber(proximity.midMaxM, `${path}.midMaxM`),
+  };
+};
+
+const SEVERITIES: HazardSeverity[] = ['low', 'medium', 'high'];
+const BANDS: ProximityBand[] = ['near', 'mid', 'far'];
+
+const parseWeights = <K extends string>(keys: K[], value: unknown, path: string): Record<K, number> => {
+  const weights = expectRecord(value, path);
+  return Object.fromEntries(keys.map(key => [key, expectNumber(weights[key], `${path}.${key}`)])) as Record<K, number>;
+};
+
+const parseRules = (value: unknown, path: string): NavigationRules => {
+  const rules = expectRecord(value, path);
+  const hazards = expectRecord(rules.hazards, `${path}.hazards`);
+  const thresholds = expectRecord(rules.thresholds, `${path}.thresholds`);
+  return {
+    hazards: Object.fromEntries(Object.entries(hazards).map(([label, severity]) =>
+      [label, expectOneOf(SEVERITIES)(severity, `${path}.hazards.${label}`)])),
+    severityWeights: parseWeights(SEVERITIES, rules.severityWeights, `${path}.severityWeights`),
+    proximityWeights: parseWeights(BANDS, rules.proximityWeights, `${path}.proximityWeights`),
+    thresholds: {
+      caution: expectNumber(thresholds.caution, `${path}.thresholds.caution`),
+      danger: expectNumber(thresholds.danger, `${path}.thresholds.danger`),
+    },
+    minConfidence: expectNumber(rules.minConfidence, `${path}.minConfidence`),
+  };
+};
+
+const parseInstruction = (value: unknown, path: string): NavigationInstruction => {
+  const instruction = expectRecord(value, path);
+  return {
+    direction: expectOneOf<NavigationInstruction['direction']>(['left', 'right', 'forward', 'stop'])(instruction.direction, `${path}.direction`),
+    priority: expectOneOf<NavigationInstruction['priority']>(['safe', 'caution', 'danger'])(instruction.priority, `${path}.priority`),
+    message: expectString(instruction.message, `${path}.message`),
+    reason: expectString(instruction.reason, `${path}.reason`),
+    heading: optional(instruction.heading, `${path}.heading`, expectNumber),
+    corridorWidth: optional(instruction.corridorWidth, `${path}.corridorWidth`, expectNumber),
+    targetIndex: optional(instruction.targetIndex, `${path}.targetIndex`, expectNumber),
+  };
+};
+
+const parseTrack = (value: unknown, path: string): Track => {
+  const track = expectRecord(value, path);
+  return {
+    id: expectNumber(track.id, `${path}.id`),
+    label: expectString(track.label, `${path}.label`),
+    object: parseDetectedObject(track.object, `${path}.object`),
+    age: expectNumber(track.age, `${path}.age`),
+    missed: expectNumber(track.missed, `${path}.missed`),
+    lastSeen: expectNumber(track.lastSeen, `${path}.lastSeen`),
+    velocityX: expectNumber(track.velocityX, `${path}.velocityX`),
+    scaleGrowth: expectNumber(track.scaleGrowth, `${path}.scaleGrowth`),
+    motion: expectOneOf<TrackMotion>(['new', 'stationary', 'approaching', 'receding', 'crossing'])(track.motion, `${path}.motion`),
+  };
+};
+
+/**
+ * Checks one archived frame field by field, the way backend results are
+ * checked, so a damaged archive fails on import rather than during replay.
+ */
+const parseRecordedFrame = (value: unknown, path: string): Omit<RecordedFrame, 'sessionId' | 'seq'> => {
+  const frame = expectRecord(value, path);
+  return {
+    timestamp: expectNumber(frame.timestamp, `${path}.timestamp`),
+    latencyMs: expectNumber(frame.latencyMs, `${path}.latencyMs`),
+    mode: expectString(frame.mode, `${path}.mode`),
+    result: parseProcessingResult(frame.result, `${path}.result`),
+    annotatedImage: orNull(expectString)(frame.annotatedImage ?? null, `${path}.annotatedImage`),
+    snapshot: orNull(expectString)(frame.snapshot ?? null, `${path}.snapshot`),
+    frame: parseFrameSize(frame.frame, `${path}.frame`),
+    instruction: orNull(parseInstruction)(frame.instruction ?? null, `${path}.instruction`),
+    tracks: expectArray(frame.tracks, `${path}.tracks`).map((track, idx) => parseTrack(track, `${path}.tracks[${idx}]`)),
+    layout: parseLayout(frame.layout, `${path}.layout`),
+    proximity: parseProximity(frame.proximity, `${path}.proximity`),
+    rules: optional(frame.rules, `${path}.rules`, parseRules),
+  };
+};
+
+const sessionRange = (sessionId: string) => IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+
+const newSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** e.g. "2:05". */
+export const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const isSessionStorageSupported = isIndexedDbSupported;
+
+/** Recorded sessions in IndexedDB. Opens the database on first use. */
+export class SessionStore {
+  private readonly database = new LazyDatabase(DB_NAME, DB_VERSION, db => {
+    db.createObjectStore(SESSIONS, { keyPath: 'id' });
+    db.createObjectStore(FRAMES, { keyPath: ['sessionId', 'seq'] });
+  });
+
+  private open() {
+    return this.database.get();
+  }
+
+  async createSession(startedAt = Date.now()): Promise<SessionInfo> {
+    const session: SessionInfo = { id: newSessionId(), startedAt, endedAt: startedAt, frameCount: 0 };
+    const db = await this.open();
+    const tx = db.transaction(SESSIONS, 'readwrite');
+    tx.objectStore(SESSIONS).put(session);
+    await completion(tx);
+    return session;
+  }
+
+  async addFrame(frame: RecordedFrame): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS, FRAMES], 'readwrite');
+    const sessions = tx.objectStore(SESSIONS);
+    tx.objectStore(FRAMES).put(frame);
+    const session = await request<SessionInfo | undefined>(sessions.get(frame.sessionId));
+    if (session) {
+      sessions.put({ ...session, endedAt: frame.timestamp, frameCount: Math.max(session.frameCount, frame.seq + 1) });
+    }
+    await completion(tx);
+  }
+
+  /** Newest first. */
+  async listSessions(): Promise<SessionInfo[]> {
+    const db = await this.open();
+    const sessions = await request<SessionInfo[]>(db.transaction(SESSIONS).objectStore(SESSIONS).getAll());
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async getFrames(sessionId: string): Promise<RecordedFrame[]> {
+    const db = await this.open();
+    return request<RecordedFrame[]>(db.transaction(FRAMES).objectStore(FRAMES).getAll(sessionRange(sessionId)));
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS, FRAMES], 'readwrite');
+    tx.objectStore(SESSIONS).delete(sessionId);
+    tx.objectStore(FRAMES).delete(sessionRange(sessionId));
+    await completion(tx);
+  }
+
+  /** The whole session, images included, as one JSON file. */
+  async exportSession(sessionId: string): Promise<Blob> {
+    const db = await this.open();
+    const session = await request<SessionInfo | undefined>(db.transaction(SESSIONS).objectStore(SESSIONS).get(sessionId));
+    if (!session) throw new SessionArchiveError(`Session ${sessionId} not found`);
+    const frames = await this.getFrames(sessionId);
+    const archive = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, session, frames };
+    return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+  }
+
+  /** Imports an exported archive as a new session, so it never collides with an existing one. */
+  async importSession(file: Blob): Promise<SessionInfo> {
+    let archive: unknown;
+    try {
+      archive = JSON.parse(await file.text());
+    } catch {
+      throw new SessionArchiveError('Not a session archive: the file is not valid JSON');
+    }
+    if (!isRecord(archive) || archive.format !== ARCHIVE_FORMAT) {
+      throw new SessionArchiveError('Not a session archive');
+    }
+    if (archive.version !== ARCHIVE_VERSION) {
+      throw new SessionArchiveError(`Unsupported session archive version ${String(archive.version)}`);
+    }
+    if (!isRecord(archive.session) || !Array.isArray(archive.frames)) {
+      throw new SessionArchiveError('Session archive is missing its session or frames');
+    }
+
+    const id = newSessionId();
+    const frames = archive.frames.map((value, idx): RecordedFrame => ({
+      ...parseRecordedFrame(value, `frames[${idx}]`),
+      sessionId: id,
+      seq: idx,
+    }));
+    const startedAt = Number(archive.session.startedAt) || frames[0]?.timestamp || Date.now();
+    const session: SessionInfo = {
+      id,
+      startedAt,
+      endedAt: frames[frames.length - 1]?.timestamp ?? startedAt,
+      frameCount: frames.length,
+    };
+
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS, FRAMES], 'readwrite');
+    tx.objectStore(SESSIONS).put(session);
+    const frameStore = tx.objectStore(FRAMES);
+    frames.forEach(frame => frameStore.put(frame));
+    await completion(tx);
+    return session;
+  }
+}
+
+/** Appends frames to one session at a time. */
+export class SessionRecorder {
+  private readonly store: SessionStore;
+  private session: SessionInfo | null = null;
+  private nextSeq = 0;
+
+  constructor(store: SessionStore) {
+    this.store = store;
+  }
+
+  get active() {
+    return this.session;
+  }
+
+  async start(): Promise<SessionInfo> {
+    this.session = await this.store.createSession();
+    this.nextSeq = 0;
+    return this.session;
+  }
+
+  stop() {
+    this.session = null;
+  }
+
+  /** Stores a frame in the active session; no-op when not recording. */
+  async record(frame: Omit<RecordedFrame, 'sessionId' | 'seq'>): Promise<void> {
+    if (!this.session) return;
+    await this.store.addFrame({ ...frame, sessionId: this.session.id, seq: this.nextSeq++ });
+  }
+}
+
+export const sessionStore = new SessionStore();
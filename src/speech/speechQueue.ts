@@ -0,0 +1,157 @@
+export type SpeechPriority = 'danger' | 'caution' | 'info';
+
+export interface SpeechSettings {
+  /** `SpeechSynthesisVoice.voiceURI`, or null for the default voice of the UI language. Ignored for text in a language it doesn't speak. */
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voiceURI: null,
+  rate: 0.9,
+  pitch: 1.0,
+  volume: 1.0,
+};
+
+export interface SpeakOptions {
+  priority?: SpeechPriority;
+  /** Drop the message if it has not started within this many ms. */
+  ttlMs?: number;
+}
+
+interface QueuedMessage {
+  text: string;
+  priority: SpeechPriority;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_MS: Record<SpeechPriority, number> = {
+  danger: 5000,
+  caution: 4000,
+  info: 3000,
+};
+
+export const isSpeechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/** True when a voice speaks `lang`'s language, whatever the region: "fr-CA" speaks "fr-FR". */
+export const voiceSpeaks = (voice: SpeechSynthesisVoice, lang: string) =>
+  voice.lang.toLowerCase().split(/[-_]/)[0] === lang.toLowerCase().split('-')[0];
+
+/**
+ * The voice to read `lang` text with: the chosen voice when it speaks the
+ * language, else the browser's default voice for it, else any voice for it.
+ * Undefined leaves the choice to the browser, guided by `utterance.lang`.
+ */
+export const pickVoice = (
+  voices: SpeechSynthesisVoice[],
+  voiceURI: string | null,
+  lang: string
+): SpeechSynthesisVoice | undefined => {
+  const chosen = voiceURI ? voices.find(v => v.voiceURI === voiceURI) : undefined;
+  if (chosen && voiceSpeaks(chosen, lang)) return chosen;
+  const matching = voices.filter(v => voiceSpeaks(v, lang));
+  return matching.find(v => v.default) ?? matching.find(v => v.lang === lang) ?? matching[0];
+};
+
+/**
+ * Priority queue in front of the Web Speech API:
+ * - danger interrupts anything that is not itself danger,
+ * - caution waits for the current utterance, replacing older queued caution,
+ * - info is dropped unless the channel is idle.
+ * Messages that could not start before they expire are discarded, so stale
+ * guidance is never read late.
+ */
+export class SpeechQueue {
+  private settings: SpeechSettings;
+  private queue: QueuedMessage[] = [];
+  private speaking: QueuedMessage | null = null;
+  private utterance: SpeechSynthesisUtterance | null = null;
+  private lang = 'en-US';
+
+  constructor(settings: SpeechSettings = DEFAULT_SPEECH_SETTINGS) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: SpeechSettings) {
+    this.settings = settings;
+  }
+
+  /** Language of the text passed to `speak`, as a BCP 47 tag; picks the voice. */
+  setLanguage(lang: string) {
+    this.lang = lang;
+  }
+
+  speak(text: string, { priority = 'info', ttlMs }: SpeakOptions = {}) {
+    if (!isSpeechSupported()) return;
+    const message = { text, priority, expiresAt: Date.now() + (ttlMs ?? DEFAULT_TTL_MS[priority]) };
+
+    switch (priority) {
+      case 'danger':
+        // Newest danger wins; everything less urgent is stale once danger is announced
+        this.queue = [];
+        if (this.speaking && this.speaking.priority !== 'danger') {
+          this.interrupt();
+        }
+        this.queue.push(message);
+        break;
+      case 'caution':
+        this.queue = this.queue.filter(queued => queued.priority === 'danger');
+        this.queue.push(message);
+        break;
+      case 'info':
+        if (this.speaking || this.queue.length > 0) return;
+        this.queue.push(message);
+        break;
+    }
+
+    this.next();
+  }
+
+  /** Stops speech and forgets everything queued. */
+  cancel() {
+    this.queue = [];
+    this.interrupt();
+  }
+
+  private interrupt() {
+    if (this.utterance) {
+      this.utterance.onend = null;
+      this.utterance.onerror = null;
+    }
+    this.utterance = null;
+    this.speaking = null;
+    if (isSpeechSupported()) window.speechSynthesis.cancel();
+  }
+
+  private next() {
+    if (this.speaking) return;
+
+    const now = Date.now();
+    this.queue = this.queue.filter(message => message.expiresAt > now);
+    const message = this.queue.shift();
+    if (!message) return;
+
+    const utterance = new SpeechSynthesisUtterance(message.text);
+    const voice = pickVoice(window.speechSynthesis.getVoices(), this.settings.voiceURI, this.lang);
+    utterance.lang = voice?.lang ?? this.lang;
+    if (voice) utterance.voice = voice;
+    utterance.rate = this.settings.rate;
+    utterance.pitch = this.settings.pitch;
+    utterance.volume = this.settings.volume;
+
+    const finish = () => {
+      if (this.utterance !== utterance) return;
+      this.utterance = null;
+      this.speaking = null;
+      this.next();
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+
+    this.speaking = message;
+    this.utterance = utterance;
+    window.speechSynthesis.speak(utterance);
+  }
+}
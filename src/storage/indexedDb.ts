@@ -0,0 +1,46 @@
+/** Resolves with a request's result once it succeeds. */
+export const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+/** Resolves once a transaction has committed. */
+export const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const isIndexedDbSupported = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Lazily opened database: the first `get()` opens it, later calls share the
+ * connection, and a failed open is retried on the next call.
+ */
+export class LazyDatabase {
+  private readonly name: string;
+  private readonly version: number;
+  private readonly upgrade: (db: IDBDatabase, oldVersion: number) => void;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(name: string, version: number, upgrade: (db: IDBDatabase, oldVersion: number) => void) {
+    this.name = name;
+    this.version = version;
+    this.upgrade = upgrade;
+  }
+
+  get(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(this.name, this.version);
+        req.onupgradeneeded = (event) => this.upgrade(req.result, event.oldVersion);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+}
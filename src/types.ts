@@ -0,0 +1,72 @@
+export interface DetectedObject {
+  label: string;
+  confidence: number;
+  bounding_box: [number, number, number, number];
+}
+
+export interface AttentionStats {
+  mean: number;
+  max: number;
+  std: number;
+}
+
+/** One kind of object in a zone of the server's structured guidance. */
+export interface ZoneGuidanceObject {
+  label: string;
+  count: number;
+  /** Highest detection confidence among these objects, 0–1. */
+  confidence?: number;
+  hazard: boolean;
+}
+
+export interface ZoneGuidance {
+  /** Zone name as the server words it, e.g. "left" or "far right". */
+  zone: string;
+  objects: ZoneGuidanceObject[];
+}
+
+export interface ProcessingResult {
+  caption: string;
+  detected_objects: DetectedObject[];
+  guidance: string;
+  /** Per-zone guidance from newer servers; older ones send only the `guidance` text. */
+  guidance_zones?: ZoneGuidance[];
+  model_used: string;
+  fusion_enabled: boolean;
+  llm_description?: string;
+  attention_stats?: AttentionStats;
+}
+
+/** Modes the frontend knows without asking the server. */
+export type BuiltInProcessingMode = 'basic' | 'gpt2' | 'gpt2-mini' | 'gpt2-fusion' | 'gpt2-mini-fusion';
+
+/** A mode id as used in `/process/:mode`; servers may advertise modes beyond the built-in ones. */
+export type ProcessingMode = string;
+
+export interface ModeCapability {
+  id: ProcessingMode;
+  name: string;
+  icon: string;
+  description: string;
+  fusion: boolean;
+  /** Typical processing time reported by the server, in ms. */
+  expectedLatencyMs?: number;
+  /** False when the server knows the mode but cannot run it right now. */
+  available: boolean;
+  unavailableReason?: string;
+  /** Whether the mode can return an annotated image. */
+  annotate: boolean;
+}
+
+export interface NavigationInstruction {
+  direction: 'left' | 'right' | 'forward' | 'stop';
+  priority: 'safe' | 'caution' | 'danger';
+  message: string;
+  reason: string;
+  /** Steering angle toward the chosen free corridor, or the seek target, in degrees; negative is left. */
+  heading?: number;
+  /** Angular width of the chosen free corridor, in degrees. */
+  corridorWidth?: number;
+  /** Seek mode: index in the frame's detected objects of the target being steered to. */
+  targetIndex?: number;
+}